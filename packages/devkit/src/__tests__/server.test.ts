@@ -0,0 +1,59 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { startDevServer, type DevServer } from '../server.js';
+
+const PLUGIN_DIR = fileURLToPath(new URL('../../../../plugins/junctionrelay.hello-sensor', import.meta.url));
+
+describe('startDevServer', () => {
+  let server: DevServer;
+
+  before(async () => {
+    server = await startDevServer({ pluginDir: PLUGIN_DIR, port: 0 });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('serves the harness page with an import map', async () => {
+    const html = await (await fetch(server.url)).text();
+    assert.ok(html.includes('<script type="importmap">'));
+    assert.ok(html.includes('"@junctionrelay/element-sdk":"/__devkit/vendor/'));
+    assert.ok(html.includes('Hello Sensor — Element DevKit'));
+  });
+
+  it('serves the validated plugin manifest', async () => {
+    const info = await (await fetch(new URL('/__devkit/plugin.json', server.url))).json();
+    assert.equal(info.name, '@junctionrelay/element-hello-sensor');
+    assert.equal(info.manifest.elementName, 'junctionrelay.hello-sensor');
+    assert.deepEqual(info.errors, []);
+  });
+
+  it('serves the host bundle', async () => {
+    const res = await fetch(new URL('/__devkit/host.js', server.url));
+    assert.equal(res.status, 200);
+    assert.ok((await res.text()).includes('__JUNCTIONRELAY_SHARED__'));
+  });
+
+  it('serves vendor shims', async () => {
+    const shim = await (await fetch(new URL('/__devkit/vendor/react.js', server.url))).text();
+    assert.ok(shim.includes('useState'));
+  });
+
+  it('refuses paths outside the plugin directory', async () => {
+    const res = await fetch(new URL('/plugin/..%2F..%2Fpackage.json', server.url));
+    assert.equal(res.status, 403);
+  });
+
+  it('reports unbuilt files as not found', async () => {
+    const res = await fetch(new URL('/plugin/dist/missing.js', server.url));
+    assert.equal(res.status, 404);
+  });
+});
+
+describe('startDevServer errors', () => {
+  it('rejects a directory without package.json', async () => {
+    await assert.rejects(startDevServer({ pluginDir: fileURLToPath(new URL('.', import.meta.url)), port: 0 }), /No package.json/);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EXTERNAL_PACKAGES } from '@junctionrelay/element-protocol';
+import { createImportMap, createVendorShim, readExportNames, SHARED_GLOBAL, vendorShimUrl } from '../shims.js';
+
+describe('createImportMap', () => {
+  it('maps every external package to its vendor shim', () => {
+    const { imports } = createImportMap();
+    assert.deepEqual(Object.keys(imports), [...EXTERNAL_PACKAGES]);
+    assert.equal(imports['@mui/material'], '/__devkit/vendor/%40mui%2Fmaterial.js');
+    assert.equal(imports['react/jsx-runtime'], vendorShimUrl('react/jsx-runtime'));
+  });
+});
+
+describe('createVendorShim', () => {
+  it('re-exports named and default exports from the shared global', () => {
+    const shim = createVendorShim('react', ['useState', 'useEffect', 'default']);
+    assert.ok(shim.includes(`window["${SHARED_GLOBAL}"]?.["react"]`));
+    assert.ok(shim.includes('export default mod.default !== undefined ? mod.default : mod;'));
+    assert.ok(shim.includes('export const { useEffect, useState } = mod;'));
+  });
+
+  it('skips names that are not valid identifiers', () => {
+    const shim = createVendorShim('x', ['ok', 'not-valid', '1bad']);
+    assert.ok(shim.includes('export const { ok } = mod;'));
+    assert.ok(!shim.includes('not-valid'));
+  });
+
+  it('exports only the default when there are no names', () => {
+    const shim = createVendorShim('@emotion/styled', []);
+    assert.ok(!shim.includes('export const'));
+  });
+
+  it('produces a module that resolves against the global', async () => {
+    const g = globalThis as Record<string, unknown>;
+    g.window = { [SHARED_GLOBAL]: { fake: { default: 'dflt', answer: 42 } } };
+    try {
+      const shim = createVendorShim('fake', ['answer']);
+      const mod = await import(`data:text/javascript,${encodeURIComponent(shim)}`);
+      assert.equal(mod.default, 'dflt');
+      assert.equal(mod.answer, 42);
+    } finally {
+      delete g.window;
+    }
+  });
+});
+
+describe('readExportNames', () => {
+  it('includes CommonJS named exports', async () => {
+    const names = await readExportNames('react');
+    assert.ok(names.includes('useState'));
+    assert.ok(!names.includes('default'));
+  });
+});
@@ -0,0 +1,27 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// junctionrelay-element-devkit [pluginDir] [--port 5173] [--host 127.0.0.1]
+// ============================================================================
+
+import { parseArgs } from 'node:util';
+import { startDevServer } from './server.js';
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    port: { type: 'string', short: 'p', default: '5173' },
+    host: { type: 'string', default: '127.0.0.1' },
+  },
+});
+
+const pluginDir = positionals[0] ?? process.cwd();
+
+try {
+  const server = await startDevServer({ pluginDir, port: Number(values.port), host: values.host });
+  console.log(`Element DevKit running at ${server.url}`);
+  console.log('Rebuild the plugin and reload the page to see changes. Press Ctrl+C to stop.');
+} catch (err) {
+  console.error(`ERROR: ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(1);
+}
@@ -0,0 +1,540 @@
+// ============================================================================
+// Harness UI: resizable canvas, properties sidebar and fake sensor values
+// ============================================================================
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CssBaseline,
+  Divider,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  TextField,
+  ThemeProvider,
+  Typography,
+  createTheme,
+} from '@mui/material';
+import {
+  AnimationClock,
+  CaptureSession,
+  DEFAULT_ELEMENT_THEME,
+  ElementHostProvider,
+  InMemoryElementStorage,
+  InMemorySensorHistory,
+  PROTOCOL_VERSION,
+  PluginElementBoundary,
+  createMockFeed,
+  createElementProperties,
+  createPluginAssets,
+  getSensorSlotBindings,
+  type ElementHostContext,
+  type ElementHostTheme,
+  type ElementPluginExports,
+  type ElementPluginManifest,
+  type MockFeedChannel,
+  type MockFeedDefinition,
+  type PluginElementErrorInfo,
+  type ResolvedSensorValue,
+  type SelectedElement,
+} from '@junctionrelay/element-sdk';
+import { SchemaPropertiesPanel } from '@junctionrelay/element-sdk/panels';
+import type { DevPluginInfo } from '../server.js';
+import { createDevFonts } from './fonts.js';
+import { formatSensorInput, parseSensorInput } from './sensorInput.js';
+
+const ELEMENT_ID = 'devkit-element';
+
+/** How often feed-driven sensors are resampled (the host polls at roughly this rate). */
+const FEED_INTERVAL_MS = 250;
+
+type FeedMode = 'manual' | MockFeedChannel['kind'];
+
+/** Feed presets offered per SensorTag; 'manual' means the value field drives it. */
+const FEED_PRESETS: Record<Exclude<FeedMode, 'manual'>, { label: string; channel: MockFeedChannel }> = {
+  sine: { label: 'Sine wave', channel: { kind: 'sine', min: 0, max: 100, periodMs: 10_000 } },
+  randomWalk: { label: 'Random walk', channel: { kind: 'randomWalk', start: 50, stepSize: 5, min: 0, max: 100, intervalMs: 500 } },
+  steps: { label: 'Step changes', channel: { kind: 'steps', values: [0, 25, 50, 75, 100], intervalMs: 2000 } },
+  text: { label: 'Text', channel: { kind: 'text', values: ['Idle', 'Running', 'Stopped'], intervalMs: 2000 } },
+  toggle: { label: 'Toggle', channel: { kind: 'toggle', intervalMs: 2000 } },
+  spectrum: { label: 'Spectrum', channel: { kind: 'spectrum', bands: 16, intervalMs: FEED_INTERVAL_MS } },
+};
+
+const theme = createTheme({ palette: { mode: 'dark' } });
+
+/** Layout theme for the "Light layout theme" switch; the dark one is the SDK default. */
+const LIGHT_ELEMENT_THEME: ElementHostTheme = {
+  mode: 'light',
+  palette: {
+    primary: '#1D4ED8',
+    secondary: '#6D28D9',
+    accent: '#D97706',
+    background: '#FFFFFF',
+    surface: '#F3F4F6',
+    text: '#111827',
+    textSecondary: 'rgba(17,24,39,0.7)',
+    success: '#15803D',
+    warning: '#B45309',
+    error: '#B91C1C',
+  },
+  typography: DEFAULT_ELEMENT_THEME.typography,
+};
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'error'; message: string; info?: DevPluginInfo }
+  | { status: 'ready'; info: DevPluginInfo; manifest: ElementPluginManifest; exports: ElementPluginExports };
+
+export const App: React.FC = () => {
+  const [reloadKey, setReloadKey] = useState(0);
+  const [state, setState] = useState<LoadState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: 'loading' });
+
+    (async () => {
+      const info = (await (await fetch('/__devkit/plugin.json')).json()) as DevPluginInfo;
+      const manifest = info.manifest as ElementPluginManifest | null;
+      if (!manifest || typeof manifest.entry !== 'string') {
+        return { status: 'error', message: 'package.json has no usable junctionrelay manifest', info } as const;
+      }
+      try {
+        // Cache-bust so "Reload plugin" picks up a fresh build
+        const exports = (await import(`/plugin/${manifest.entry}?t=${Date.now()}`)) as ElementPluginExports;
+        return { status: 'ready', info, manifest, exports } as const;
+      } catch (err) {
+        return { status: 'error', message: `Failed to import ${manifest.entry}: ${String(err)}`, info } as const;
+      }
+    })().then(
+      (next) => { if (!cancelled) setState(next); },
+      (err) => { if (!cancelled) setState({ status: 'error', message: String(err) }); },
+    );
+
+    return () => { cancelled = true; };
+  }, [reloadKey]);
+
+  const info = state.status === 'loading' ? undefined : state.info;
+
+  return (
+    <ThemeProvider theme={theme}>
+      <CssBaseline />
+      <Box sx={{ display: 'flex', flexDirection: 'column', height: '100vh' }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, px: 2, py: 1, borderBottom: 1, borderColor: 'divider' }}>
+          <Typography variant="h6" sx={{ flex: 1 }}>
+            {typeof info?.manifest?.displayName === 'string' ? info.manifest.displayName : info?.name ?? 'Element DevKit'}
+            {info?.version && (
+              <Typography component="span" variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+                v{info.version}
+              </Typography>
+            )}
+          </Typography>
+          <Button size="small" variant="outlined" onClick={() => setReloadKey((k) => k + 1)}>
+            Reload plugin
+          </Button>
+        </Box>
+
+        {info && info.errors.length > 0 && (
+          <Alert severity="warning" sx={{ borderRadius: 0 }}>
+            Manifest validation failed — the host would skip this plugin:
+            <ul style={{ margin: 0 }}>
+              {info.errors.map((e) => <li key={e}>{e}</li>)}
+            </ul>
+          </Alert>
+        )}
+
+        {state.status === 'loading' && <Typography sx={{ p: 2 }}>Loading plugin…</Typography>}
+        {state.status === 'error' && <Alert severity="error" sx={{ m: 2 }}>{state.message}</Alert>}
+        {state.status === 'ready' && (
+          <Harness key={reloadKey} manifest={state.manifest} exports={state.exports} />
+        )}
+      </Box>
+    </ThemeProvider>
+  );
+};
+
+interface HarnessProps {
+  manifest: ElementPluginManifest;
+  exports: ElementPluginExports;
+}
+
+const Harness: React.FC<HarnessProps> = ({ manifest, exports }) => {
+  const [properties, setProperties] = useState<Record<string, unknown>>(() => createElementProperties(manifest));
+  const [size, setSize] = useState(() => ({ ...manifest.defaultSize }));
+  const [resolvedValues, setResolvedValues] = useState<Record<string, ResolvedSensorValue>>({});
+  const [feedModes, setFeedModes] = useState<Record<string, FeedMode>>({});
+  const [dropouts, setDropouts] = useState(false);
+  const [showPlaceholders, setShowPlaceholders] = useState(true);
+  const [previewMode, setPreviewMode] = useState(false);
+  const [lightTheme, setLightTheme] = useState(false);
+  const [animationsPaused, setAnimationsPaused] = useState(false);
+  const [capture, setCapture] = useState<CaptureSession>();
+  const [captureStatus, setCaptureStatus] = useState<{ ok: boolean; message: string }>();
+
+  const sensors = useMemo(() => new InMemorySensorHistory(), []);
+  const fonts = useMemo(() => createDevFonts(), []);
+  // The dev server serves the plugin folder under /plugin/
+  const assets = useMemo(() => createPluginAssets({ path: '/plugin', manifest }, { baseUrl: '/plugin/' }), [manifest]);
+  // Stored values last until the page reloads
+  const storage = useMemo(() => new InMemoryElementStorage().forElement(manifest.elementName, ELEMENT_ID), [manifest]);
+  const clock = useMemo(() => new AnimationClock(), []);
+  const elementTheme = lightTheme ? LIGHT_ELEMENT_THEME : DEFAULT_ELEMENT_THEME;
+  const host = useMemo<ElementHostContext>(
+    () => ({
+      hostProtocolVersion: PROTOCOL_VERSION,
+      capabilities: ['sensors', 'theme', 'assets', 'storage', 'clock', 'capture'],
+      fonts,
+      sensors,
+      theme: elementTheme,
+      assets,
+      storage,
+      clock,
+      capture,
+    }),
+    [fonts, sensors, elementTheme, assets, storage, clock, capture],
+  );
+
+  useEffect(() => {
+    if (animationsPaused) clock.pause();
+    else clock.resume();
+  }, [clock, animationsPaused]);
+
+  // Capture the current frame the way the host does for thumbnails: freeze the clock, wait for holds
+  const captureFrame = useCallback(async () => {
+    setAnimationsPaused(true);
+    const session = new CaptureSession({ time: clock.now(), clock });
+    setCapture(session);
+    setCaptureStatus(undefined);
+    try {
+      await session.whenReady();
+      setCaptureStatus({ ok: true, message: `Frame ready at ${Math.round(session.time)} ms` });
+    } catch (err) {
+      setCaptureStatus({ ok: false, message: err instanceof Error ? err.message : String(err) });
+    } finally {
+      setCapture(undefined);
+    }
+  }, [clock]);
+
+  // Feed the history buffer like the host does on every sensor poll
+  useEffect(() => {
+    sensors.recordAll(resolvedValues);
+    const timer = setInterval(() => sensors.recordAll(resolvedValues), 1000);
+    return () => clearInterval(timer);
+  }, [sensors, resolvedValues]);
+
+  // Drive feed-mode sensors from a mock feed; manual sensors keep their typed values
+  useEffect(() => {
+    const definition: MockFeedDefinition = {};
+    for (const [tag, mode] of Object.entries(feedModes)) {
+      if (mode === 'manual') continue;
+      definition[tag] = { ...FEED_PRESETS[mode].channel, dropout: dropouts ? { probability: 0.2 } : undefined };
+    }
+    const tags = Object.keys(definition);
+    if (tags.length === 0) return;
+
+    const feed = createMockFeed(definition, { seed: 1 });
+    const start = Date.now();
+    const tick = () => {
+      const sample = feed.sample(Date.now() - start);
+      setResolvedValues((prev) => {
+        const next = { ...prev };
+        for (const tag of tags) {
+          // Unit and label stay user-editable; a dropped-out sensor loses only its value
+          next[tag] = { ...sample[tag], unit: prev[tag]?.unit, label: prev[tag]?.label };
+        }
+        return next;
+      });
+    };
+    tick();
+    const timer = setInterval(tick, FEED_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [feedModes, dropouts]);
+
+  const selectedElement: SelectedElement = {
+    id: ELEMENT_ID,
+    type: manifest.elementName,
+    properties,
+    width: size.width,
+    height: size.height,
+  };
+
+  const onUpdateElement = useCallback((_id: string, updates: Record<string, unknown>) => {
+    if (updates.properties && typeof updates.properties === 'object') {
+      setProperties(updates.properties as Record<string, unknown>);
+    }
+    if (typeof updates.width === 'number' || typeof updates.height === 'number') {
+      setSize((s) => ({
+        width: typeof updates.width === 'number' ? updates.width : s.width,
+        height: typeof updates.height === 'number' ? updates.height : s.height,
+      }));
+    }
+  }, []);
+
+  const onDeleteElement = useCallback(() => {
+    setProperties(createElementProperties(manifest));
+    setSize({ ...manifest.defaultSize });
+  }, [manifest]);
+
+  const { Renderer, PropertiesPanel } = exports;
+
+  return (
+    <ElementHostProvider value={host}>
+      <Box sx={{ display: 'flex', flex: 1, minHeight: 0 }}>
+        <Box sx={{ flex: 1, overflow: 'auto', p: 3, bgcolor: '#111' }}>
+          <Box sx={{ display: 'flex', gap: 2, mb: 2, alignItems: 'center' }}>
+            <Typography variant="body2" color="text.secondary">
+              {size.width} × {size.height}px — drag the corner to resize
+            </Typography>
+            <FormControlLabel
+              control={<Switch size="small" checked={showPlaceholders} onChange={(e) => setShowPlaceholders(e.target.checked)} />}
+              label="Show placeholders"
+            />
+            <FormControlLabel
+              control={<Switch size="small" checked={previewMode} onChange={(e) => setPreviewMode(e.target.checked)} />}
+              label="Preview mode"
+            />
+            <FormControlLabel
+              control={<Switch size="small" checked={lightTheme} onChange={(e) => setLightTheme(e.target.checked)} />}
+              label="Light layout theme"
+            />
+            <FormControlLabel
+              control={<Switch size="small" checked={animationsPaused} onChange={(e) => setAnimationsPaused(e.target.checked)} />}
+              label="Pause animations"
+            />
+            {animationsPaused && (
+              <Button size="small" variant="outlined" onClick={() => clock.step()}>
+                Step frame
+              </Button>
+            )}
+            <Button size="small" variant="outlined" disabled={capture !== undefined} onClick={captureFrame}>
+              Capture frame
+            </Button>
+            {captureStatus && (
+              <Typography variant="body2" color={captureStatus.ok ? 'success.main' : 'error'}>
+                {captureStatus.message}
+              </Typography>
+            )}
+          </Box>
+          <ResizableCanvas size={size} background={elementTheme.palette.background} onResize={setSize}>
+            {Renderer ? (
+              <PluginElementBoundary
+                manifest={manifest}
+                width={size.width}
+                height={size.height}
+                properties={properties}
+                onError={logPluginError}
+              >
+                <Renderer
+                  properties={properties}
+                  resolvedValues={resolvedValues}
+                  width={size.width}
+                  height={size.height}
+                  elementPadding={0}
+                  showPlaceholders={showPlaceholders}
+                  previewMode={previewMode}
+                />
+              </PluginElementBoundary>
+            ) : (
+              <Alert severity="error">The plugin does not export a Renderer</Alert>
+            )}
+          </ResizableCanvas>
+        </Box>
+
+        <Box sx={{ width: 340, overflow: 'auto', p: 2, borderLeft: 1, borderColor: 'divider' }}>
+          <Typography variant="subtitle2" gutterBottom>Properties</Typography>
+          {PropertiesPanel ? (
+            <PluginElementBoundary
+              manifest={manifest}
+              component="PropertiesPanel"
+              properties={properties}
+              onError={logPluginError}
+            >
+              <PropertiesPanel
+                selectedElement={selectedElement}
+                onUpdateElement={onUpdateElement}
+                onDeleteElement={onDeleteElement}
+              />
+            </PluginElementBoundary>
+          ) : manifest.propertySchema ? (
+            <SchemaPropertiesPanel
+              schema={manifest.propertySchema}
+              sensorSlots={manifest.sensorSlots}
+              selectedElement={selectedElement}
+              onUpdateElement={onUpdateElement}
+              onDeleteElement={onDeleteElement}
+            />
+          ) : (
+            <Alert severity="error">No PropertiesPanel export and no propertySchema in the manifest</Alert>
+          )}
+
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle2" gutterBottom>Sensor Values</Typography>
+          <SensorControls
+            sensorTags={collectSensorTags(manifest, properties)}
+            resolvedValues={resolvedValues}
+            feedModes={feedModes}
+            onChange={setResolvedValues}
+            onFeedModeChange={(tag, mode) => setFeedModes((m) => ({ ...m, [tag]: mode }))}
+          />
+          <FormControlLabel
+            control={<Switch size="small" checked={dropouts} onChange={(e) => setDropouts(e.target.checked)} />}
+            label="Simulate dropouts"
+          />
+
+          <Divider sx={{ my: 2 }} />
+          <Typography variant="subtitle2" gutterBottom>Properties JSON</Typography>
+          <Box component="pre" sx={{ fontSize: 12, m: 0, whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>
+            {JSON.stringify(properties, null, 2)}
+          </Box>
+        </Box>
+      </Box>
+    </ElementHostProvider>
+  );
+};
+
+interface ResizableCanvasProps {
+  size: { width: number; height: number };
+
+  /** The layout background behind the element (the theme's background color). */
+  background: string;
+  onResize: (size: { width: number; height: number }) => void;
+  children: React.ReactNode;
+}
+
+/** A box the user can resize with the native CSS resize handle. */
+const ResizableCanvas: React.FC<ResizableCanvasProps> = ({ size, background, onResize, children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => {
+      onResize({ width: Math.round(el.clientWidth), height: Math.round(el.clientHeight) });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [onResize]);
+
+  return (
+    <div
+      ref={ref}
+      style={{
+        width: size.width,
+        height: size.height,
+        resize: 'both',
+        overflow: 'hidden',
+        background,
+        outline: '1px dashed rgba(255,255,255,0.3)',
+        // Same containment boundary the host wraps plugins in
+        contain: 'layout paint',
+        isolation: 'isolate',
+      }}
+    >
+      {children}
+    </div>
+  );
+};
+
+/** PluginElementBoundary onError: the placeholder shows the message, the console gets the stack. */
+function logPluginError(error: Error, info: PluginElementErrorInfo): void {
+  console.error(`${info.elementName} ${info.component} threw:`, error, info.componentStack ?? '');
+}
+
+/**
+ * SensorTags the element is currently bound to: sensorTag-kind schema
+ * properties (or a plain `sensorTag` property) plus sensor slot bindings.
+ */
+function collectSensorTags(manifest: ElementPluginManifest, properties: Record<string, unknown>): string[] {
+  const tags = new Set<string>();
+  const keys = manifest.propertySchema
+    ? Object.entries(manifest.propertySchema).filter(([, d]) => d.kind === 'sensorTag').map(([key]) => key)
+    : ['sensorTag'];
+
+  for (const key of keys) {
+    const tag = properties[key];
+    if (typeof tag === 'string' && tag.length > 0) tags.add(tag);
+  }
+  for (const tag of Object.values(getSensorSlotBindings(properties))) tags.add(tag);
+
+  return [...tags];
+}
+
+interface SensorControlsProps {
+  sensorTags: string[];
+  resolvedValues: Record<string, ResolvedSensorValue>;
+  feedModes: Record<string, FeedMode>;
+  onChange: (values: Record<string, ResolvedSensorValue>) => void;
+  onFeedModeChange: (sensorTag: string, mode: FeedMode) => void;
+}
+
+const SensorControls: React.FC<SensorControlsProps> = ({ sensorTags, resolvedValues, feedModes, onChange, onFeedModeChange }) => {
+  if (sensorTags.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Set a SensorTag in the properties panel to drive fake values.
+      </Typography>
+    );
+  }
+
+  const update = (tag: string, patch: Partial<ResolvedSensorValue>) => {
+    const next = { ...resolvedValues[tag], ...patch };
+    onChange({ ...resolvedValues, [tag]: next });
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      {sensorTags.map((tag) => {
+        const current = resolvedValues[tag] ?? {};
+        const mode = feedModes[tag] ?? 'manual';
+        return (
+          <Box key={tag} sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            <Typography variant="caption" sx={{ fontFamily: 'monospace' }}>{tag}</Typography>
+            <TextField
+              select
+              label="Source"
+              size="small"
+              fullWidth
+              value={mode}
+              onChange={(e) => onFeedModeChange(tag, e.target.value as FeedMode)}
+            >
+              <MenuItem value="manual">Manual value</MenuItem>
+              {Object.entries(FEED_PRESETS).map(([kind, preset]) => (
+                <MenuItem key={kind} value={kind}>{preset.label}</MenuItem>
+              ))}
+            </TextField>
+            {mode === 'manual' ? (
+              <TextField
+                label="Value"
+                size="small"
+                fullWidth
+                helperText="Number, true/false, text, or 1, 2, 3 for number[]"
+                defaultValue={formatSensorInput(current.value)}
+                onChange={(e) => update(tag, { value: parseSensorInput(e.target.value) })}
+              />
+            ) : (
+              <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                {current.displayValue ?? formatSensorInput(current.value)}
+              </Typography>
+            )}
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <TextField
+                label="Unit"
+                size="small"
+                value={current.unit ?? ''}
+                onChange={(e) => update(tag, { unit: e.target.value || undefined })}
+              />
+              <TextField
+                label="Label"
+                size="small"
+                value={current.label ?? ''}
+                onChange={(e) => update(tag, { label: e.target.value || undefined })}
+              />
+            </Box>
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
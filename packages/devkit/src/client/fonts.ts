@@ -0,0 +1,52 @@
+// ============================================================================
+// Mock ElementHostFonts for the dev harness
+// ============================================================================
+
+import type { ElementHostFonts } from '@junctionrelay/element-protocol';
+
+const PIXEL_FONTS = ['Tom Thumb', 'Press Start 2P', 'Pixel Operator'] as const;
+
+/**
+ * Font service that loads Google Fonts the way the host does (one shared
+ * stylesheet link per family). Loading never rejects — if the font cannot be
+ * fetched (e.g. offline) the plugin renders with the fallback font.
+ * Pixel fonts ship with the host, so here they are only marked as loaded.
+ */
+export function createDevFonts(): ElementHostFonts {
+  const loaded = new Set<string>();
+  const pending = new Map<string, Promise<void>>();
+
+  return {
+    loadGoogleFont(fontFamily) {
+      if (loaded.has(fontFamily)) return Promise.resolve();
+
+      let promise = pending.get(fontFamily);
+      if (!promise) {
+        const link = document.createElement('link');
+        link.rel = 'stylesheet';
+        link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(fontFamily)}&display=swap`;
+        promise = new Promise<void>((resolve) => {
+          link.onload = () => {
+            document.fonts.load(`16px "${fontFamily}"`).then(() => resolve(), () => resolve());
+          };
+          link.onerror = () => resolve();
+          document.head.appendChild(link);
+        }).then(() => {
+          loaded.add(fontFamily);
+        });
+        pending.set(fontFamily, promise);
+      }
+      return promise;
+    },
+
+    loadPixelFonts() {
+      for (const font of PIXEL_FONTS) loaded.add(font);
+    },
+
+    isFontLoaded: (fontFamily) => loaded.has(fontFamily),
+
+    isPixelFont: (fontFamily) => (PIXEL_FONTS as readonly string[]).includes(fontFamily),
+
+    pixelFonts: PIXEL_FONTS,
+  };
+}
@@ -0,0 +1,30 @@
+// ============================================================================
+// Harness page entry — plays the role of the FrameEngine host
+// ============================================================================
+
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+import * as JsxRuntime from 'react/jsx-runtime';
+import * as Mui from '@mui/material';
+import * as EmotionReact from '@emotion/react';
+import * as EmotionStyled from '@emotion/styled';
+import * as ElementSdk from '@junctionrelay/element-sdk';
+import * as ElementSdkPanels from '@junctionrelay/element-sdk/panels';
+import { createRoot } from 'react-dom/client';
+import { SHARED_GLOBAL } from '../shims.js';
+import { App } from './App.js';
+
+// Same instances the plugin receives through the import map shims.
+// @mui/icons-material is not shipped by the harness.
+(window as unknown as Record<string, unknown>)[SHARED_GLOBAL] = {
+  'react': React,
+  'react-dom': ReactDOM,
+  'react/jsx-runtime': JsxRuntime,
+  '@mui/material': Mui,
+  '@emotion/react': EmotionReact,
+  '@emotion/styled': EmotionStyled,
+  '@junctionrelay/element-sdk': ElementSdk,
+  '@junctionrelay/element-sdk/panels': ElementSdkPanels,
+};
+
+createRoot(document.getElementById('root')!).render(<App />);
@@ -0,0 +1,34 @@
+// ============================================================================
+// Parsing of the harness's fake sensor value fields
+// ============================================================================
+
+import type { ResolvedSensorValue } from '@junctionrelay/element-protocol';
+
+/**
+ * Turn the text typed into a sensor value field into a sensor value:
+ * '' → undefined, 'true'/'false' → boolean, '42' → number,
+ * '1, 2, 3' → number[], anything else → string.
+ */
+export function parseSensorInput(text: string): ResolvedSensorValue['value'] {
+  const trimmed = text.trim();
+  if (trimmed === '') return undefined;
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+
+  const n = Number(trimmed);
+  if (Number.isFinite(n)) return n;
+
+  if (trimmed.includes(',')) {
+    const parts = trimmed.split(',').map(p => Number(p.trim()));
+    if (parts.every(p => Number.isFinite(p))) return parts;
+  }
+
+  return text;
+}
+
+/** Inverse of parseSensorInput() for showing a value in the field. */
+export function formatSensorInput(value: ResolvedSensorValue['value']): string {
+  if (value === undefined) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+}
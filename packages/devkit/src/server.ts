@@ -0,0 +1,208 @@
+// ============================================================================
+// Dev harness HTTP server
+//
+// Serves a single page that plays the FrameEngine host: it loads React, MUI,
+// Emotion and the Element SDK, exposes them through the same import-map
+// scheme the real PluginLoader uses, and dynamically imports the plugin's
+// built entry point.
+// ============================================================================
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { extname, join, resolve, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+import { parsePackageManifest } from '@junctionrelay/element-sdk';
+import { createImportMap, createVendorShim, readExportNames, VENDOR_PATH } from './shims.js';
+
+/** Options for startDevServer(). */
+export interface DevServerOptions {
+  /** Plugin directory (the folder containing the plugin's package.json). */
+  pluginDir: string;
+
+  /** Port to listen on (default 5173, 0 = any free port). */
+  port?: number;
+
+  /** Interface to bind (default '127.0.0.1'). */
+  host?: string;
+}
+
+/** A running dev harness server. */
+export interface DevServer {
+  /** URL of the harness page. */
+  url: string;
+
+  /** Stop the server. */
+  close(): Promise<void>;
+}
+
+/** What the harness page receives from `/__devkit/plugin.json`. */
+export interface DevPluginInfo {
+  name: string;
+  version: string;
+  /** The raw `junctionrelay` field (present even if invalid, so the page can still try to load it). */
+  manifest: Record<string, unknown> | null;
+  /** Manifest validation errors (empty = valid). */
+  errors: string[];
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.html': 'text/html; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+};
+
+/**
+ * Start the dev harness for a plugin directory.
+ * The plugin must be built first (`npm run build`) — reload the page after
+ * rebuilding to pick up changes.
+ */
+export async function startDevServer(options: DevServerOptions): Promise<DevServer> {
+  const pluginDir = resolve(options.pluginDir);
+  const host = options.host ?? '127.0.0.1';
+
+  if (!existsSync(join(pluginDir, 'package.json'))) {
+    throw new Error(`No package.json found in ${pluginDir}`);
+  }
+
+  const clientBundle = await buildClient();
+  const shims = new Map<string, Promise<string>>();
+
+  const server = createServer((req, res) => {
+    handleRequest(req, res).catch((err: unknown) => {
+      send(res, 500, 'text/plain; charset=utf-8', err instanceof Error ? err.stack ?? err.message : String(err));
+    });
+  });
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+
+    if (path === '/' || path === '/index.html') {
+      const info = await readPluginInfo(pluginDir);
+      const title = typeof info.manifest?.displayName === 'string' ? info.manifest.displayName : info.name;
+      return send(res, 200, CONTENT_TYPES['.html'], renderPage(title));
+    }
+
+    if (path === '/__devkit/host.js') {
+      return send(res, 200, CONTENT_TYPES['.js'], clientBundle);
+    }
+
+    if (path === '/__devkit/plugin.json') {
+      return send(res, 200, CONTENT_TYPES['.json'], JSON.stringify(await readPluginInfo(pluginDir)));
+    }
+
+    if (path.startsWith(VENDOR_PATH) && path.endsWith('.js')) {
+      const specifier = path.slice(VENDOR_PATH.length, -'.js'.length);
+      let shim = shims.get(specifier);
+      if (!shim) {
+        // Packages the harness doesn't ship (e.g. @mui/icons-material) get a shim that throws on import
+        shim = readExportNames(specifier)
+          .catch(() => [])
+          .then(names => createVendorShim(specifier, names));
+        shims.set(specifier, shim);
+      }
+      return send(res, 200, CONTENT_TYPES['.js'], await shim);
+    }
+
+    if (path.startsWith('/plugin/')) {
+      const file = resolve(pluginDir, path.slice('/plugin/'.length));
+      if (file !== pluginDir && !file.startsWith(pluginDir + sep)) {
+        return send(res, 403, 'text/plain; charset=utf-8', 'Forbidden');
+      }
+      if (!existsSync(file)) {
+        return send(res, 404, 'text/plain; charset=utf-8', `Not found: ${path} — has the plugin been built?`);
+      }
+      const type = CONTENT_TYPES[extname(file).toLowerCase()] ?? 'application/octet-stream';
+      return send(res, 200, type, await readFile(file));
+    }
+
+    send(res, 404, 'text/plain; charset=utf-8', 'Not found');
+  }
+
+  await new Promise<void>((resolveListen, rejectListen) => {
+    server.once('error', rejectListen);
+    server.listen(options.port ?? 5173, host, () => resolveListen());
+  });
+
+  const address = server.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    url: `http://${host}:${port}/`,
+    close: () => new Promise<void>((resolveClose, rejectClose) => {
+      server.close(err => (err ? rejectClose(err) : resolveClose()));
+    }),
+  };
+}
+
+/** Read and validate the plugin's package.json for the harness page. */
+export async function readPluginInfo(pluginDir: string): Promise<DevPluginInfo> {
+  const pkg = JSON.parse(await readFile(join(pluginDir, 'package.json'), 'utf8')) as Record<string, unknown>;
+  const { errors } = parsePackageManifest(pkg);
+  const raw = pkg.junctionrelay;
+
+  return {
+    name: String(pkg.name ?? ''),
+    version: String(pkg.version ?? ''),
+    manifest: raw !== null && typeof raw === 'object' ? (raw as Record<string, unknown>) : null,
+    errors,
+  };
+}
+
+/** The harness HTML page: import map first, then the host bundle. */
+export function renderPage(title: string): string {
+  const escaped = title.replace(/[&<>"]/g, c => `&#${c.charCodeAt(0)};`);
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escaped} — Element DevKit</title>`,
+    `<script type="importmap">${JSON.stringify(createImportMap())}</script>`,
+    '</head>',
+    '<body style="margin:0">',
+    '<div id="root"></div>',
+    '<script type="module" src="/__devkit/host.js"></script>',
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+/** Bundle the harness page (React, MUI, SDK and the harness UI) into one ESM file. */
+async function buildClient(): Promise<string> {
+  // Compiled output ships main.js; running from source (tsx) uses main.tsx
+  const compiled = fileURLToPath(new URL('./client/main.js', import.meta.url));
+  const entry = existsSync(compiled) ? compiled : fileURLToPath(new URL('./client/main.tsx', import.meta.url));
+
+  const result = await build({
+    entryPoints: [entry],
+    bundle: true,
+    format: 'esm',
+    platform: 'browser',
+    jsx: 'automatic',
+    write: false,
+    logLevel: 'silent',
+    define: { 'process.env.NODE_ENV': '"development"' },
+  });
+  return result.outputFiles[0].text;
+}
+
+function send(res: ServerResponse, status: number, type: string, body: string | Buffer): void {
+  res.writeHead(status, { 'Content-Type': type, 'Cache-Control': 'no-store' });
+  res.end(body);
+}
@@ -0,0 +1,67 @@
+// ============================================================================
+// Import map and vendor shims for the shared (external) packages
+//
+// Mirrors the FrameEngine PluginLoader: the harness page puts each shared
+// package on a window global, and an import map routes the bare specifiers
+// in the plugin bundle to small ESM shims that re-export from that global.
+// ============================================================================
+
+import { EXTERNAL_PACKAGES } from '@junctionrelay/element-protocol';
+
+/** Window global the harness page stores the shared package namespaces on. */
+export const SHARED_GLOBAL = '__JUNCTIONRELAY_SHARED__';
+
+/** URL prefix the vendor shims are served under. */
+export const VENDOR_PATH = '/__devkit/vendor/';
+
+/** Shim file URL for a shared package specifier (e.g. '@mui/material' → '/__devkit/vendor/%40mui%2Fmaterial.js'). */
+export function vendorShimUrl(specifier: string): string {
+  return `${VENDOR_PATH}${encodeURIComponent(specifier)}.js`;
+}
+
+/** W3C import map routing every EXTERNAL_PACKAGES specifier to its vendor shim. */
+export function createImportMap(): { imports: Record<string, string> } {
+  const imports: Record<string, string> = {};
+  for (const specifier of EXTERNAL_PACKAGES) {
+    imports[specifier] = vendorShimUrl(specifier);
+  }
+  return { imports };
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * ESM source for a vendor shim. Re-exports each named export and the
+ * default export from the window global. Names that are not valid
+ * identifiers (or are 'default') are skipped.
+ */
+export function createVendorShim(specifier: string, exportNames: Iterable<string>): string {
+  const names = [...new Set(exportNames)]
+    .filter(name => name !== 'default' && IDENTIFIER.test(name))
+    .sort();
+
+  const lines = [
+    `const mod = window[${JSON.stringify(SHARED_GLOBAL)}]?.[${JSON.stringify(specifier)}];`,
+    `if (!mod) throw new Error(${JSON.stringify(`${specifier} is not provided by the dev harness`)});`,
+    'export default mod.default !== undefined ? mod.default : mod;',
+  ];
+  if (names.length > 0) {
+    lines.push(`export const { ${names.join(', ')} } = mod;`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Enumerate the export names of a shared package as seen from Node.
+ * CommonJS packages expose their named exports on the default export, so
+ * both the namespace and the default object are included.
+ */
+export async function readExportNames(specifier: string): Promise<string[]> {
+  const ns = (await import(specifier)) as Record<string, unknown>;
+  const names = new Set(Object.keys(ns));
+  if (ns.default !== null && typeof ns.default === 'object') {
+    for (const key of Object.keys(ns.default)) names.add(key);
+  }
+  names.delete('default');
+  return [...names];
+}
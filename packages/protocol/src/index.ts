@@ -7,7 +7,19 @@
 // Constants
 // ---------------------------------------------------------------------------
 
-export const PROTOCOL_VERSION = '1.0.0';
+/**
+ * Version of this protocol — the manifest, props and host context contract.
+ * Minor versions only add optional fields and services; a major version
+ * breaks plugins built for the previous one. Plugins declare the versions
+ * they support with the manifest `protocolVersion` range.
+ */
+export const PROTOCOL_VERSION = '1.8.0';
+
+/**
+ * Manifest `protocolVersion` assumed for plugins that do not declare one:
+ * they were built against 1.0.0 and work on any 1.x host.
+ */
+export const DEFAULT_PLUGIN_PROTOCOL_RANGE = '^1.0.0';
 
 /**
  * Regex for validating namespaced plugin identifiers.
@@ -49,6 +61,14 @@ export const ELEMENT_CATEGORIES = [
 
 export type ElementCategory = (typeof ELEMENT_CATEGORIES)[number];
 
+/**
+ * Reserved property key that records which `propertiesVersion` an element's
+ * properties have. Stamped by the SDK's createElementProperties() when an
+ * element is placed and by applyMigrations() after it upgrades them.
+ * Properties without it are treated as version 1.
+ */
+export const PROPERTIES_VERSION_KEY = '_propertiesVersion';
+
 /**
  * Packages that element plugins MUST externalize in their esbuild config.
  * The host app provides these at runtime via the PluginLoader's shared
@@ -87,6 +107,7 @@ export const EXTERNAL_PACKAGES = [
   '@emotion/react',
   '@emotion/styled',
   '@junctionrelay/element-sdk',
+  '@junctionrelay/element-sdk/panels',
 ] as const;
 
 // ---------------------------------------------------------------------------
@@ -115,8 +136,10 @@ export const EXTERNAL_PACKAGES = [
  *
  * 2. **Use host font services for font loading.** Plugins must use
  *    `useElementHost().fonts.loadGoogleFont()` instead of injecting their
- *    own Google Fonts `<link>` tags. The host manages font loading centrally
- *    and deduplicates requests.
+ *    own Google Fonts `<link>` tags, and `useElementHost().assets.loadFont()`
+ *    for font files shipped in their `assets` instead of `@font-face` rules
+ *    or `new FontFace()`. The host manages font loading centrally and
+ *    deduplicates requests.
  *
  * 3. **No broad CSS selectors.** Avoid `*`, `body`, `html`, `div`, or
  *    bare element-type selectors. If using CSS-in-JS, the generated class
@@ -138,7 +161,7 @@ export const EXTERNAL_PACKAGES = [
  */
 export const STYLE_ISOLATION_RULES = [
   'No global style injection (<style> tags, <link> stylesheets, document.body.style)',
-  'Use useElementHost().fonts for font loading — do not inject Google Fonts <link> tags directly',
+  'Use useElementHost().fonts and assets.loadFont() for font loading — do not inject Google Fonts <link> tags or @font-face rules directly',
   'No broad CSS selectors (*, body, html, bare element types)',
   'No !important on inherited properties with broad selectors',
 ] as const;
@@ -166,6 +189,13 @@ export const UI_NAMING_CONVENTIONS = [
   'FrameXchange (one word) — not "Frame Xchange"',
 ] as const;
 
+/**
+ * The compound terms from UI_NAMING_CONVENTIONS in their required spelling.
+ * Tools match them case-insensitively with optional spaces or hyphens between
+ * the words and flag any spelling that differs.
+ */
+export const UI_NAMING_TERMS = ['SensorTag', 'FrameEngine', 'FrameXchange'] as const;
+
 // ---------------------------------------------------------------------------
 // Host Context (shared services the host provides to plugins via React context)
 // ---------------------------------------------------------------------------
@@ -191,16 +221,432 @@ export interface ElementHostFonts {
   pixelFonts: readonly string[];
 }
 
+/**
+ * A single timestamped sensor reading kept by the host's history buffer.
+ */
+export interface SensorSample {
+  /** Milliseconds since the Unix epoch when the value was received. */
+  timestamp: number;
+
+  /** The sensor value at that time. */
+  value: ResolvedSensorValue['value'];
+}
+
+/**
+ * Sensor history services provided by the host.
+ * The host records every resolved SensorTag value once, so sparklines and
+ * rolling averages share a single buffer that survives element remounts.
+ */
+export interface ElementHostSensors {
+  /** Samples for a SensorTag received within the last `windowMs`, oldest first. */
+  getHistory(sensorTag: string, windowMs: number): SensorSample[];
+
+  /**
+   * Called with each new sample for a SensorTag, and with undefined when
+   * the host drops its history. Returns an unsubscribe function.
+   */
+  subscribe(sensorTag: string, callback: (sample: SensorSample | undefined) => void): () => void;
+}
+
+/**
+ * Palette roles of a layout theme. Color properties reference a role as
+ * `theme:<token>` (e.g. 'theme:accent') instead of a fixed CSS color, so
+ * the element follows the layout's palette.
+ * - primary / secondary / accent: brand colors, from strongest to subtlest use
+ * - background: the layout canvas; surface: panels and cards on top of it
+ * - text / textSecondary: body text and de-emphasized text (labels, units)
+ * - success / warning / error: status colors (thresholds, alarms)
+ */
+export const THEME_COLOR_TOKENS = [
+  'primary',
+  'secondary',
+  'accent',
+  'background',
+  'surface',
+  'text',
+  'textSecondary',
+  'success',
+  'warning',
+  'error',
+] as const;
+
+export type ThemeColorToken = (typeof THEME_COLOR_TOKENS)[number];
+
+/** Prefix marking a color property value as a theme token reference. */
+export const THEME_COLOR_PREFIX = 'theme:';
+
+/** Typography defaults of a layout theme. */
+export interface ElementThemeTypography {
+  /** Default font family for text elements (a Google Font or pixel font name). */
+  fontFamily: string;
+
+  /** Font family for fixed-width text (tables, ASCII art). */
+  monospaceFontFamily: string;
+
+  /** Default font size in pixels. */
+  fontSize: number;
+}
+
+/**
+ * The layout's theme, provided by the host. A palette change produces a new
+ * ElementHostContext value, so plugins re-render through React context.
+ */
+export interface ElementHostTheme {
+  /** Whether the palette is meant for a light or a dark background. */
+  mode: 'light' | 'dark';
+
+  /** A CSS color for every THEME_COLOR_TOKENS role. */
+  palette: Record<ThemeColorToken, string>;
+
+  typography: ElementThemeTypography;
+}
+
+/**
+ * Access to the files a plugin ships in its manifest `assets`. Paths are
+ * relative to the plugin folder, as listed in `assets` or inside a listed
+ * folder (e.g. 'assets/logo.png'). The host scopes one instance to each
+ * plugin, so paths never reach another plugin's files.
+ */
+export interface ElementHostAssets {
+  /**
+   * URL to load an asset from (`<img src>`, `fetch()`).
+   * Throws if the path is not one of the plugin's declared assets.
+   */
+  getUrl(relativePath: string): string;
+
+  /**
+   * Load a font file from the plugin's assets and make it available under
+   * `fontFamily`. Resolves when the font is ready; if the file cannot be
+   * loaded the element renders with the fallback font. Rejects if the path
+   * is not one of the plugin's declared assets.
+   */
+  loadFont(fontFamily: string, relativePath: string): Promise<void>;
+}
+
+/**
+ * Storage every host grants each element, in bytes (UTF-8 length of the
+ * keys plus their JSON-encoded values). Hosts may grant more.
+ */
+export const ELEMENT_STORAGE_QUOTA_BYTES = 64 * 1024;
+
+/**
+ * Persistent key-value storage for one element instance, kept outside its
+ * `properties` so it does not end up in the layout or its undo history
+ * (counters, last-known values, min/max since reset). The host scopes one
+ * instance to each element id and plugin. Values must be JSON-serializable.
+ */
+export interface ElementHostStorage {
+  /** Bytes this element may store (at least ELEMENT_STORAGE_QUOTA_BYTES). */
+  readonly quotaBytes: number;
+
+  /** The stored value, or undefined if the key is not set. */
+  get(key: string): Promise<unknown>;
+
+  /**
+   * Store a value. Rejects if it is not JSON-serializable or the element's
+   * quota would be exceeded; the previous value is kept in that case.
+   */
+  set(key: string, value: unknown): Promise<void>;
+
+  /** Remove a key. Resolves even if the key was not set. */
+  delete(key: string): Promise<void>;
+
+  /** Every key this element has stored. */
+  keys(): Promise<string[]>;
+
+  /**
+   * Called with the new value whenever a key is set or deleted (undefined
+   * after delete), so a Renderer and PropertiesPanel stay in sync.
+   * Returns an unsubscribe function.
+   */
+  subscribe(key: string, callback: (value: unknown) => void): () => void;
+}
+
+/** One tick of the host's animation clock. */
+export interface ClockFrame {
+  /** Clock time in milliseconds. Stands still while the clock is paused. */
+  time: number;
+
+  /** Milliseconds of clock time since the previous frame. */
+  delta: number;
+
+  /** Frame counter, starting at 0. */
+  frame: number;
+}
+
+/**
+ * One animation clock shared by every element, so all animations tick
+ * together. The host decides the tick rate and pauses the clock (e.g. for
+ * off-screen elements or low-power displays) or steps it frame by frame
+ * (e.g. for `previewMode` captures). Plugins animate from `time` instead of
+ * their own requestAnimationFrame loops or SMIL timers.
+ */
+export interface ElementHostClock {
+  /** Current clock time in milliseconds. */
+  now(): number;
+
+  /** True while the clock is paused; no frames are delivered. */
+  isPaused(): boolean;
+
+  /** Called on every tick. Returns an unsubscribe function. */
+  subscribe(callback: (frame: ClockFrame) => void): () => void;
+}
+
+/**
+ * A frame capture in progress. While capturing (thumbnails, exported
+ * frames), the host pauses its clock at `time` and waits until no element
+ * holds the capture before taking the picture, so the same layout, values
+ * and time always produce the same frame. Undefined outside captures.
+ */
+export interface ElementHostCapture {
+  /** Clock time in milliseconds the frame is frozen at. */
+  readonly time: number;
+
+  /**
+   * Keep the host from taking the frame until the returned release
+   * function is called (e.g. while a font or image loads). `reason` names
+   * the hold in the host's timeout error. Releasing twice is harmless.
+   */
+  hold(reason: string): () => void;
+}
+
+/**
+ * Optional host services a host can advertise in `capabilities`. Each name
+ * matches the ElementHostContext field that holds the service.
+ */
+export const HOST_CAPABILITIES = ['sensors', 'theme', 'assets', 'storage', 'clock', 'capture'] as const;
+
+export type HostCapability = (typeof HOST_CAPABILITIES)[number];
+
 /**
  * Host context provided to element plugins via React context.
  * Plugins access this via the `useElementHost()` hook from the SDK.
  *
- * Designed for extension — future versions may add theme, assets,
- * navigation, or notification services without breaking existing plugins.
+ * Designed for extension — future versions may add navigation or
+ * notification services without breaking existing plugins.
+ * Services added after 1.0.0 are optional: older hosts do not provide them.
  */
 export interface ElementHostContext {
   /** Font loading services. */
   fonts: ElementHostFonts;
+
+  /** Sensor history services. Undefined on hosts without history support. */
+  sensors?: ElementHostSensors;
+
+  /** The layout's palette, typography and light/dark mode. Undefined on hosts without theme support. */
+  theme?: ElementHostTheme;
+
+  /** The plugin's bundled asset files. Undefined on hosts without asset support. */
+  assets?: ElementHostAssets;
+
+  /** Persistent storage for this element. Undefined on hosts without storage support. */
+  storage?: ElementHostStorage;
+
+  /** The shared animation clock. Undefined on hosts without a clock. */
+  clock?: ElementHostClock;
+
+  /**
+   * The frame capture in progress. Undefined when the host is not
+   * capturing; hosts that capture frames list 'capture' in `capabilities`
+   * all the time.
+   */
+  capture?: ElementHostCapture;
+
+  /**
+   * PROTOCOL_VERSION the host implements (e.g. '1.1.0').
+   * Undefined on 1.0.0 hosts, which predate version negotiation.
+   */
+  hostProtocolVersion?: string;
+
+  /**
+   * Optional services this host provides (HOST_CAPABILITIES names). Typed
+   * as strings so newer capability names pass through older type packages.
+   * Undefined on 1.0.0 hosts — feature-detect with the SDK's
+   * hasHostCapability() instead of reading this directly.
+   */
+  capabilities?: readonly string[];
+}
+
+// ---------------------------------------------------------------------------
+// Property Schema (declarative description of defaultProperties)
+// ---------------------------------------------------------------------------
+
+/**
+ * Property kinds a plugin can declare in its manifest `propertySchema`.
+ * Each kind maps to one control in the SDK's SchemaPropertiesPanel:
+ * - string: free text field
+ * - number: numeric field, or a slider when both min and max are set
+ * - boolean: switch
+ * - color: CSS color picker
+ * - enum: select from a fixed list of options
+ * - sensorTag: SensorTag binding field
+ * - font: font family picker (pixel fonts and Google Fonts)
+ * - displayFormat: sensor value formatting (precision, separators, unit conversion)
+ */
+export const PROPERTY_KINDS = [
+  'string',
+  'number',
+  'boolean',
+  'color',
+  'enum',
+  'sensorTag',
+  'font',
+  'displayFormat',
+] as const;
+
+export type PropertyKind = (typeof PROPERTY_KINDS)[number];
+
+/** Fields shared by every property descriptor. */
+interface PropertyDescriptorBase<K extends PropertyKind, T> {
+  /** Which control to render and which value type to expect. */
+  kind: K;
+
+  /** UI label shown in the properties panel (follow UI_NAMING_CONVENTIONS). */
+  label: string;
+
+  /**
+   * Default value. Optional — defaultProperties is the source of truth.
+   * If both are given they must be equal.
+   */
+  default?: T;
+
+  /** Helper text shown under the control. */
+  helperText?: string;
+}
+
+export interface StringPropertyDescriptor extends PropertyDescriptorBase<'string', string> {
+  /** Render a multi-line text area. */
+  multiline?: boolean;
+
+  /** Placeholder shown when the value is empty. */
+  placeholder?: string;
+}
+
+export interface NumberPropertyDescriptor extends PropertyDescriptorBase<'number', number> {
+  /** Minimum allowed value (inclusive). */
+  min?: number;
+
+  /** Maximum allowed value (inclusive). */
+  max?: number;
+
+  /** Step between allowed values. */
+  step?: number;
+
+  /** Unit suffix shown next to the value (e.g. 'px', 's'). */
+  unit?: string;
+}
+
+export type BooleanPropertyDescriptor = PropertyDescriptorBase<'boolean', boolean>;
+
+export interface ColorPropertyDescriptor extends PropertyDescriptorBase<'color', string> {
+  /**
+   * Allow free-form CSS colors (e.g. 'transparent', 'rgba(...)') instead of
+   * restricting the control to the #RRGGBB color picker.
+   */
+  allowCssColors?: boolean;
+}
+
+/** A single selectable option of an enum property. */
+export interface PropertyEnumOption {
+  value: string | number;
+  label: string;
+}
+
+export interface EnumPropertyDescriptor extends PropertyDescriptorBase<'enum', string | number> {
+  /** The allowed values, in display order. */
+  options: readonly PropertyEnumOption[];
+}
+
+export type SensorTagPropertyDescriptor = PropertyDescriptorBase<'sensorTag', string>;
+
+export interface FontPropertyDescriptor extends PropertyDescriptorBase<'font', string> {
+  /** Restrict the picker to the host's pixel fonts. */
+  pixelOnly?: boolean;
+}
+
+/**
+ * How to display a numeric sensor value. Every field is optional; an empty
+ * object shows the value as the sensor provides it.
+ */
+export interface SensorDisplayFormat {
+  /** Fixed number of decimal places (0–20). */
+  precision?: number;
+
+  /** Group thousands with the locale's separator (1,234,567). */
+  thousandsSeparator?: boolean;
+
+  /** Compact notation (1.2K, 3.4M). */
+  compact?: boolean;
+
+  /**
+   * Unit to convert the value to (e.g. '°F', 'GB'). Ignored when the
+   * sensor's unit cannot be converted to it.
+   */
+  unit?: string;
+
+  /** BCP 47 locale for separators (e.g. 'de-DE'). Default: the host's locale. */
+  locale?: string;
+}
+
+export type DisplayFormatPropertyDescriptor = PropertyDescriptorBase<'displayFormat', SensorDisplayFormat>;
+
+/** Describes one property of an element (discriminated on `kind`). */
+export type PropertyDescriptor =
+  | StringPropertyDescriptor
+  | NumberPropertyDescriptor
+  | BooleanPropertyDescriptor
+  | ColorPropertyDescriptor
+  | EnumPropertyDescriptor
+  | SensorTagPropertyDescriptor
+  | FontPropertyDescriptor
+  | DisplayFormatPropertyDescriptor;
+
+/**
+ * Property schema keyed by property name. Every key must also exist in
+ * `defaultProperties`. Key order is the display order in the panel.
+ */
+export type PropertySchema = Record<string, PropertyDescriptor>;
+
+// ---------------------------------------------------------------------------
+// Sensor Slots (multiple named SensorTag bindings per element)
+// ---------------------------------------------------------------------------
+
+/** Value types a sensor slot can expect (mirrors ResolvedSensorValue.value). */
+export const SENSOR_VALUE_TYPES = ['number', 'string', 'boolean', 'number[]'] as const;
+
+export type SensorValueType = (typeof SENSOR_VALUE_TYPES)[number];
+
+/**
+ * Regex for sensor slot names: lower camelCase identifiers (e.g. 'primary',
+ * 'minValue'). Slot names must not collide with defaultProperties keys.
+ */
+export const SENSOR_SLOT_NAME_PATTERN = /^[a-z][a-zA-Z0-9]*$/;
+
+/**
+ * Property key that holds an element's slot bindings as
+ * `Record<slotName, sensorTag>` (e.g. `{ primary: 'cpu.temp' }`).
+ */
+export const SENSOR_SLOTS_PROPERTY = 'sensorSlots';
+
+/**
+ * A named sensor input declared by a plugin that needs more than one
+ * SensorTag (e.g. dual-gauge comparisons, min/max/current panels).
+ */
+export interface SensorSlotDefinition {
+  /** Slot name, unique per plugin. Must match SENSOR_SLOT_NAME_PATTERN. */
+  name: string;
+
+  /** UI label shown next to the SensorTag field (e.g. 'Primary SensorTag'). */
+  label: string;
+
+  /** The value type the slot expects. Values of other types resolve to undefined. */
+  valueType: SensorValueType;
+
+  /** Whether the element needs this slot bound to render meaningfully. */
+  required?: boolean;
+
+  /** Helper text shown under the SensorTag field. */
+  helperText?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -240,21 +686,63 @@ export interface ElementPluginManifest {
    */
   icon: string;
 
+  /**
+   * Optional single emoji shown alongside (or instead of) the icon in
+   * compact UIs such as menus and the marketplace (e.g. '🍺').
+   */
+  emoji?: string;
+
+  /**
+   * Range of PROTOCOL_VERSIONs the plugin works with, in npm range syntax
+   * (e.g. '^1.1.0', '>=1.0.0 <3'). Hosts refuse to load plugins whose range
+   * excludes their version. Defaults to DEFAULT_PLUGIN_PROTOCOL_RANGE.
+   */
+  protocolVersion?: string;
+
   /** Whether this element accepts sensor data via sensorTag properties. */
   sensorTagCompatible: boolean;
 
+  /**
+   * Named sensor inputs for elements that bind more than one SensorTag.
+   * Bindings are stored in `properties.sensorSlots` (SENSOR_SLOTS_PROPERTY).
+   * Requires sensorTagCompatible: true.
+   */
+  sensorSlots?: readonly SensorSlotDefinition[];
+
   /** Default dimensions when placed on the canvas. */
   defaultSize: { width: number; height: number };
 
   /** Default property values applied when the element is first placed. */
   defaultProperties: Record<string, unknown>;
 
+  /**
+   * Optional declarative description of the properties in defaultProperties.
+   * When present, the host can render the SDK's SchemaPropertiesPanel and
+   * the plugin may omit its own PropertiesPanel export.
+   */
+  propertySchema?: PropertySchema;
+
+  /**
+   * Version of the properties shape (positive integer, defaults to 1).
+   * Increment when renaming or changing the meaning of a property, and
+   * export a `migrate` function that upgrades saved properties one step.
+   */
+  propertiesVersion?: number;
+
   /**
    * Layout modes this element supports.
    * Defaults to ['composite'] if omitted.
    */
   layoutModes?: LayoutMode[];
 
+  /**
+   * Extra files packed with the plugin (images, fonts, data files), as paths
+   * relative to the plugin folder. A directory includes every file in it.
+   * package.json and `entry` are always packed and need not be listed.
+   * Plugins load them at runtime through `useElementHost().assets`.
+   */
+  assets?: string[];
+
   /** Plugin author name (e.g. 'JunctionRelay', 'CatapultCase'). */
   authorName?: string;
 
@@ -262,6 +750,19 @@ export interface ElementPluginManifest {
   authorUrl?: string;
 }
 
+// ---------------------------------------------------------------------------
+// Plugin Package (the .zip dropped into the host's elements directory)
+// ---------------------------------------------------------------------------
+
+/**
+ * File in the package's plugin folder (next to package.json) that maps each
+ * other packed file's path to its lowercase hex SHA-256 hash.
+ */
+export const PLUGIN_CHECKSUMS_FILE = 'checksums.json';
+
+/** Contents of PLUGIN_CHECKSUMS_FILE: relative path → SHA-256 hex digest. */
+export type PluginChecksums = Record<string, string>;
+
 // ---------------------------------------------------------------------------
 // Renderer Props (what every plugin Renderer component receives)
 // ---------------------------------------------------------------------------
@@ -281,6 +782,12 @@ export interface ResolvedSensorValue {
   displayValue?: string;
 }
 
+/**
+ * Units the runtime uses to mark a value's type rather than a measurement
+ * (text sensors, toggles). They are never displayed next to the value.
+ */
+export const META_UNITS = ['text', 'boolean'] as const;
+
 /**
  * Props passed to every element plugin's Renderer component.
  * Mirrors the props that built-in FrameEngine elements receive.
@@ -308,7 +815,11 @@ export interface ElementRendererProps {
   /** Whether to show placeholder values when no live/test data is available. */
   showPlaceholders?: boolean;
 
-  /** Whether the canvas is in preview/capture mode (disables editing). */
+  /**
+   * Whether the canvas is in preview/capture mode (disables editing). To
+   * tell whether a frame is actually being captured, check the host's
+   * `capture` service.
+   */
   previewMode?: boolean;
 }
 
@@ -351,6 +862,16 @@ export interface ElementPropertiesPanelProps {
 // Plugin Exports (what a plugin's entry point must export)
 // ---------------------------------------------------------------------------
 
+/**
+ * Upgrades properties saved at `fromVersion` to `fromVersion + 1`.
+ * Called once per step, so a plugin at version 3 receives properties at
+ * version 1 and then version 2. Must return a new object (not mutate).
+ */
+export type ElementPropertiesMigration = (
+  properties: Record<string, unknown>,
+  fromVersion: number,
+) => Record<string, unknown>;
+
 /**
  * The named exports that a plugin's bundled entry point must provide.
  * The host dynamically imports the bundle and reads these exports.
@@ -359,8 +880,18 @@ export interface ElementPluginExports {
   /** The render component — what appears on the canvas. */
   Renderer: React.ComponentType<ElementRendererProps>;
 
-  /** The properties panel — what appears in the right sidebar. */
-  PropertiesPanel: React.ComponentType<ElementPropertiesPanelProps>;
+  /**
+   * The properties panel — what appears in the right sidebar.
+   * Optional only when the manifest declares a `propertySchema`, in which
+   * case the host renders the SDK's SchemaPropertiesPanel instead.
+   */
+  PropertiesPanel?: React.ComponentType<ElementPropertiesPanelProps>;
+
+  /**
+   * Optional migration for properties saved by older plugin versions.
+   * Required when the manifest `propertiesVersion` is greater than 1.
+   */
+  migrate?: ElementPropertiesMigration;
 }
 
 // ---------------------------------------------------------------------------
@@ -415,6 +946,9 @@ export interface PluginElementDefinition {
   /** The PropertiesPanel component (set after successful dynamic import). */
   PropertiesPanel?: React.ComponentType<ElementPropertiesPanelProps>;
 
+  /** The plugin's `migrate` export, if any (set after successful dynamic import). */
+  migrate?: ElementPropertiesMigration;
+
   /** Error message if the plugin failed to load. */
   error?: string;
 }
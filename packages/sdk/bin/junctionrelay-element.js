@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+
+// Committed launcher so npm can link the bin before the SDK is built
+import '../dist/cli.js';
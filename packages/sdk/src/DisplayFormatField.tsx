@@ -0,0 +1,125 @@
+// ============================================================================
+// Properties panel control for a `displayFormat` property
+// ============================================================================
+
+import { Box, FormControlLabel, ListSubheader, MenuItem, Switch, TextField, Typography } from '@mui/material';
+import type { SensorDisplayFormat } from '@junctionrelay/element-protocol';
+import { UNIT_CONVERSIONS, getConvertibleUnits } from './format.js';
+
+/** Props for DisplayFormatField. */
+export interface DisplayFormatFieldProps {
+  label: string;
+
+  /** The property value (undefined = no formatting). */
+  value: SensorDisplayFormat | undefined;
+
+  onChange: (value: SensorDisplayFormat) => void;
+
+  /** The bound sensor's unit, if known: limits "Convert to" to units it converts to. */
+  sensorUnit?: string;
+
+  helperText?: string;
+}
+
+const AUTO = 'auto';
+const PRECISIONS = [0, 1, 2, 3, 4];
+
+/** 'dataSize' → 'Data Size' */
+const familyLabel = (family: string) =>
+  family.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+/**
+ * Display format control: decimal places, thousands separators, compact
+ * notation, unit conversion and locale. Unset options are removed from the
+ * value rather than stored as defaults.
+ *
+ * @example
+ * ```tsx
+ * <DisplayFormatField label="Value Format" value={properties.displayFormat as SensorDisplayFormat}
+ *   onChange={(v) => update('displayFormat', v)} />
+ * ```
+ */
+export const DisplayFormatField: React.FC<DisplayFormatFieldProps> = ({
+  label,
+  value,
+  onChange,
+  sensorUnit,
+  helperText,
+}) => {
+  const format = value ?? {};
+
+  const set = <K extends keyof SensorDisplayFormat>(key: K, next: SensorDisplayFormat[K] | undefined) => {
+    const updated: SensorDisplayFormat = { ...format, [key]: next };
+    if (next === undefined || next === false || next === '') delete updated[key];
+    onChange(updated);
+  };
+
+  const known = sensorUnit ? getConvertibleUnits(sensorUnit) : [];
+  const families = Object.entries(UNIT_CONVERSIONS).filter(
+    ([, units]) => known.length === 0 || units.some(u => known.includes(u.unit)),
+  );
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Typography variant="caption">{label}</Typography>
+      {helperText && (
+        <Typography variant="caption" color="text.secondary">
+          {helperText}
+        </Typography>
+      )}
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <TextField
+          label="Decimals"
+          size="small"
+          select
+          sx={{ flex: 1 }}
+          value={format.precision ?? AUTO}
+          onChange={(e) => set('precision', e.target.value === AUTO ? undefined : Number(e.target.value))}
+        >
+          <MenuItem value={AUTO}>Auto</MenuItem>
+          {PRECISIONS.map((p) => (
+            <MenuItem key={p} value={p}>{p}</MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          label="Convert To"
+          size="small"
+          select
+          sx={{ flex: 1 }}
+          value={format.unit ?? ''}
+          onChange={(e) => set('unit', e.target.value)}
+        >
+          <MenuItem value="">Sensor unit</MenuItem>
+          {families.flatMap(([family, units]) => [
+            <ListSubheader key={family}>{familyLabel(family)}</ListSubheader>,
+            ...units.map((u) => (
+              <MenuItem key={u.unit} value={u.unit}>{u.unit}</MenuItem>
+            )),
+          ])}
+        </TextField>
+      </Box>
+      <FormControlLabel
+        control={
+          <Switch
+            size="small"
+            checked={format.thousandsSeparator ?? false}
+            onChange={(e) => set('thousandsSeparator', e.target.checked)}
+          />
+        }
+        label="Thousands Separators"
+      />
+      <FormControlLabel
+        control={<Switch size="small" checked={format.compact ?? false} onChange={(e) => set('compact', e.target.checked)} />}
+        label="Compact (1.2K)"
+      />
+      <TextField
+        label="Locale"
+        size="small"
+        placeholder="System"
+        helperText="e.g. de-DE — leave empty for the display's locale"
+        value={format.locale ?? ''}
+        onChange={(e) => set('locale', e.target.value.trim())}
+      />
+    </Box>
+  );
+};
@@ -0,0 +1,137 @@
+// ============================================================================
+// Error boundary for plugin Renderers and PropertiesPanels
+// ============================================================================
+
+import { Component, type ErrorInfo, type ReactNode } from 'react';
+import type { ElementPluginManifest } from '@junctionrelay/element-protocol';
+
+/** Details passed to PluginElementBoundary's onError. */
+export interface PluginElementErrorInfo {
+  elementName: string;
+
+  /** Which plugin component threw. */
+  component: 'Renderer' | 'PropertiesPanel';
+
+  /** React's component stack for the error, if available. */
+  componentStack?: string;
+}
+
+/** Props for PluginElementBoundary. */
+export interface PluginElementBoundaryProps {
+  /** The plugin's manifest — `displayName` is shown in the placeholder. */
+  manifest: Pick<ElementPluginManifest, 'elementName' | 'displayName'>;
+
+  /** Which plugin component is wrapped (default 'Renderer'). */
+  component?: 'Renderer' | 'PropertiesPanel';
+
+  /** Placeholder size in pixels — pass the element's width and height. Default: fill the parent. */
+  width?: number;
+  height?: number;
+
+  /**
+   * The element's properties. After an error, the wrapped component is
+   * rendered again as soon as these change (compared key by key).
+   */
+  properties?: Record<string, unknown>;
+
+  /** Called once per caught error, e.g. to log it or mark the plugin as broken. */
+  onError?: (error: Error, info: PluginElementErrorInfo) => void;
+
+  /** Custom placeholder. `retry` renders the wrapped component again. */
+  fallback?: (error: Error, retry: () => void) => ReactNode;
+
+  children?: ReactNode;
+}
+
+interface PluginElementBoundaryState {
+  error: Error | null;
+  properties: Record<string, unknown> | undefined;
+}
+
+/**
+ * Catches errors thrown while rendering a plugin component, so one broken
+ * plugin cannot unmount the host's canvas or sidebar. Shows a placeholder
+ * at the element's size with the plugin's displayName and the error, and
+ * reports the error through `onError`. Retries when `properties` change.
+ *
+ * Like every React error boundary, it does not catch errors thrown in
+ * event handlers or async code.
+ *
+ * @example
+ * ```tsx
+ * <PluginElementBoundary manifest={definition.manifest} width={el.width} height={el.height}
+ *   properties={el.properties} onError={(error, info) => log(info.elementName, error)}>
+ *   <definition.Renderer {...rendererProps} />
+ * </PluginElementBoundary>
+ * ```
+ */
+export class PluginElementBoundary extends Component<PluginElementBoundaryProps, PluginElementBoundaryState> {
+  state: PluginElementBoundaryState = { error: null, properties: this.props.properties };
+
+  static getDerivedStateFromError(error: unknown): Partial<PluginElementBoundaryState> {
+    return { error: error instanceof Error ? error : new Error(String(error)) };
+  }
+
+  static getDerivedStateFromProps(
+    props: PluginElementBoundaryProps,
+    state: PluginElementBoundaryState,
+  ): Partial<PluginElementBoundaryState> | null {
+    if (props.properties === state.properties) return null;
+    if (state.error && !shallowEqual(props.properties, state.properties)) {
+      return { error: null, properties: props.properties };
+    }
+    return { properties: props.properties };
+  }
+
+  componentDidCatch(error: unknown, info: ErrorInfo): void {
+    this.props.onError?.(error instanceof Error ? error : new Error(String(error)), {
+      elementName: this.props.manifest.elementName,
+      component: this.props.component ?? 'Renderer',
+      componentStack: info.componentStack ?? undefined,
+    });
+  }
+
+  retry = (): void => {
+    this.setState({ error: null });
+  };
+
+  render(): ReactNode {
+    const { error } = this.state;
+    if (!error) return this.props.children;
+    if (this.props.fallback) return this.props.fallback(error, this.retry);
+
+    const { manifest, width, height, component = 'Renderer' } = this.props;
+    return (
+      <div
+        role="alert"
+        title={error.stack ?? error.message}
+        style={{
+          width: width ?? '100%',
+          height: height ?? '100%',
+          boxSizing: 'border-box',
+          overflow: 'hidden',
+          padding: 8,
+          border: '1px dashed #f44336',
+          borderRadius: 4,
+          background: 'rgba(244, 67, 54, 0.08)',
+          color: '#f44336',
+          fontFamily: 'sans-serif',
+          fontSize: 12,
+          lineHeight: 1.4,
+        }}
+      >
+        <div style={{ fontWeight: 600 }}>
+          {manifest.displayName} {component === 'Renderer' ? 'failed to render' : 'properties failed to render'}
+        </div>
+        <div style={{ wordBreak: 'break-word' }}>{error.message}</div>
+      </div>
+    );
+  }
+}
+
+function shallowEqual(a: Record<string, unknown> | undefined, b: Record<string, unknown> | undefined): boolean {
+  if (a === b) return true;
+  if (!a || !b) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(k => Object.is(a[k], b[k]));
+}
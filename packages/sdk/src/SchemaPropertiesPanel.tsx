@@ -0,0 +1,268 @@
+// ============================================================================
+// Properties panel generated from a manifest propertySchema
+// ============================================================================
+
+import { useCallback } from 'react';
+import {
+  Autocomplete,
+  Box,
+  FormControlLabel,
+  MenuItem,
+  Slider,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import {
+  SENSOR_SLOTS_PROPERTY,
+  type ElementPropertiesPanelProps,
+  type FontPropertyDescriptor,
+  type PropertyDescriptor,
+  type PropertySchema,
+  type SensorDisplayFormat,
+  type SensorSlotDefinition,
+} from '@junctionrelay/element-protocol';
+import { useElementHost } from './context.js';
+import { DisplayFormatField } from './DisplayFormatField.js';
+import { getSensorSlotBindings } from './sensorSlots.js';
+import { ThemeColorField } from './ThemeColorField.js';
+
+/** Props for SchemaPropertiesPanel — the standard panel props plus the schema. */
+export interface SchemaPropertiesPanelProps extends ElementPropertiesPanelProps {
+  /** The `propertySchema` from the plugin manifest. */
+  schema: PropertySchema;
+
+  /** The `sensorSlots` from the plugin manifest — rendered as SensorTag fields above the schema. */
+  sensorSlots?: readonly SensorSlotDefinition[];
+}
+
+/**
+ * Properties panel rendered from a manifest `propertySchema`.
+ * Hosts render this for plugins that declare a schema but do not export
+ * their own PropertiesPanel. Plugins can also use it directly.
+ *
+ * @example
+ * ```tsx
+ * <SchemaPropertiesPanel
+ *   schema={manifest.propertySchema}
+ *   selectedElement={selectedElement}
+ *   onUpdateElement={onUpdateElement}
+ *   onDeleteElement={onDeleteElement}
+ * />
+ * ```
+ */
+export const SchemaPropertiesPanel: React.FC<SchemaPropertiesPanelProps> = ({
+  schema,
+  sensorSlots,
+  selectedElement,
+  onUpdateElement,
+}) => {
+  const { id, properties } = selectedElement;
+
+  const update = useCallback(
+    (key: string, value: unknown) => {
+      onUpdateElement(id, { properties: { ...properties, [key]: value } });
+    },
+    [id, properties, onUpdateElement],
+  );
+
+  const bindings = getSensorSlotBindings(properties);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+      {sensorSlots?.map((slot) => (
+        <TextField
+          key={`slot:${slot.name}`}
+          label={slot.label}
+          size="small"
+          fullWidth
+          required={slot.required}
+          helperText={slot.helperText}
+          value={bindings[slot.name] ?? ''}
+          onChange={(e) => update(SENSOR_SLOTS_PROPERTY, { ...bindings, [slot.name]: e.target.value })}
+        />
+      ))}
+      {Object.entries(schema).map(([key, descriptor]) => (
+        <PropertyControl
+          key={key}
+          descriptor={descriptor}
+          value={properties[key] ?? descriptor.default}
+          onChange={(value) => update(key, value)}
+        />
+      ))}
+    </Box>
+  );
+};
+
+interface PropertyControlProps {
+  descriptor: PropertyDescriptor;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+const PropertyControl: React.FC<PropertyControlProps> = ({ descriptor, value, onChange }) => {
+  switch (descriptor.kind) {
+    case 'string':
+      return (
+        <TextField
+          label={descriptor.label}
+          size="small"
+          fullWidth
+          multiline={descriptor.multiline}
+          placeholder={descriptor.placeholder}
+          helperText={descriptor.helperText}
+          value={(value as string) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+
+    case 'sensorTag':
+      return (
+        <TextField
+          label={descriptor.label}
+          size="small"
+          fullWidth
+          helperText={descriptor.helperText}
+          value={(value as string) ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+
+    case 'number': {
+      const { min, max, step, unit = '' } = descriptor;
+      const current = (value as number) ?? min ?? 0;
+
+      // Sliders need both bounds; otherwise fall back to a numeric field
+      if (min !== undefined && max !== undefined) {
+        return (
+          <Box>
+            <Typography variant="caption" gutterBottom>
+              {descriptor.label}: {current}{unit}
+            </Typography>
+            <Slider
+              size="small"
+              min={min}
+              max={max}
+              step={step ?? 1}
+              value={current}
+              onChange={(_, v) => onChange(v as number)}
+            />
+            {descriptor.helperText && (
+              <Typography variant="caption" color="text.secondary">
+                {descriptor.helperText}
+              </Typography>
+            )}
+          </Box>
+        );
+      }
+
+      return (
+        <TextField
+          label={unit ? `${descriptor.label} (${unit})` : descriptor.label}
+          size="small"
+          fullWidth
+          type="number"
+          helperText={descriptor.helperText}
+          value={current}
+          onChange={(e) => {
+            const parsed = Number(e.target.value);
+            if (e.target.value !== '' && Number.isFinite(parsed)) onChange(parsed);
+          }}
+          slotProps={{ htmlInput: { min, max, step } }}
+        />
+      );
+    }
+
+    case 'boolean':
+      return (
+        <FormControlLabel
+          control={
+            <Switch
+              size="small"
+              checked={(value as boolean) ?? false}
+              onChange={(e) => onChange(e.target.checked)}
+            />
+          }
+          label={descriptor.label}
+        />
+      );
+
+    case 'color':
+      return (
+        <ThemeColorField
+          label={descriptor.label}
+          helperText={descriptor.helperText}
+          allowCssColors={descriptor.allowCssColors}
+          value={value as string | undefined}
+          onChange={onChange}
+        />
+      );
+
+    case 'enum':
+      return (
+        <TextField
+          label={descriptor.label}
+          size="small"
+          fullWidth
+          select
+          helperText={descriptor.helperText}
+          value={value ?? ''}
+          onChange={(e) => {
+            // Select values come back as strings — map back to the typed option value
+            const option = descriptor.options.find((o) => String(o.value) === e.target.value);
+            if (option) onChange(option.value);
+          }}
+        >
+          {descriptor.options.map((option) => (
+            <MenuItem key={String(option.value)} value={String(option.value)}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+      );
+
+    case 'font':
+      return <FontControl descriptor={descriptor} value={value} onChange={onChange} />;
+
+    case 'displayFormat':
+      return (
+        <DisplayFormatField
+          label={descriptor.label}
+          helperText={descriptor.helperText}
+          value={value as SensorDisplayFormat | undefined}
+          onChange={onChange}
+        />
+      );
+  }
+};
+
+interface FontControlProps extends PropertyControlProps {
+  descriptor: FontPropertyDescriptor;
+}
+
+const FontControl: React.FC<FontControlProps> = ({ descriptor, value, onChange }) => {
+  const { fonts } = useElementHost();
+  const pixelOnly = descriptor.pixelOnly ?? false;
+
+  return (
+    <Autocomplete
+      size="small"
+      fullWidth
+      freeSolo={!pixelOnly}
+      disableClearable
+      options={[...fonts.pixelFonts]}
+      value={(value as string) ?? ''}
+      onChange={(_, v) => onChange(v ?? '')}
+      onInputChange={(_, v, reason) => {
+        if (!pixelOnly && reason === 'input') onChange(v);
+      }}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={descriptor.label}
+          helperText={descriptor.helperText ?? (pixelOnly ? undefined : 'Pixel font or any Google Font family')}
+        />
+      )}
+    />
+  );
+};
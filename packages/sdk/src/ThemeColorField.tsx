@@ -0,0 +1,106 @@
+// ============================================================================
+// Color field that picks a theme token or a custom color
+// ============================================================================
+
+import { Box, MenuItem, TextField } from '@mui/material';
+import { THEME_COLOR_PREFIX, THEME_COLOR_TOKENS } from '@junctionrelay/element-protocol';
+import { parseThemeColor, resolveThemeColor, useElementTheme } from './theme.js';
+
+/** Props for ThemeColorField. */
+export interface ThemeColorFieldProps {
+  label: string;
+
+  /** The property value: a CSS color or `theme:<token>`. */
+  value: string | undefined;
+
+  onChange: (value: string) => void;
+
+  /** Free-form CSS colors ('transparent', 'rgba(...)') instead of the #RRGGBB picker. */
+  allowCssColors?: boolean;
+
+  helperText?: string;
+}
+
+const CUSTOM = 'custom';
+
+/** 'textSecondary' → 'Text Secondary' */
+const tokenLabel = (token: string) =>
+  token.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+/**
+ * Color property control: a select with the layout theme's palette roles
+ * and a "Custom" entry that shows a color picker (or a CSS color text field
+ * with `allowCssColors`). Switching from a token to Custom starts from the
+ * token's current color.
+ *
+ * @example
+ * ```tsx
+ * <ThemeColorField label="Text Color" value={properties.textColor as string}
+ *   onChange={(v) => update('textColor', v)} />
+ * ```
+ */
+export const ThemeColorField: React.FC<ThemeColorFieldProps> = ({
+  label,
+  value,
+  onChange,
+  allowCssColors,
+  helperText,
+}) => {
+  const theme = useElementTheme();
+  const token = value ? parseThemeColor(value) : undefined;
+  const color = value ?? '';
+
+  const select = (selected: string) => {
+    if (selected !== CUSTOM) {
+      onChange(`${THEME_COLOR_PREFIX}${selected}`);
+    } else if (token) {
+      const resolved = resolveThemeColor(color, theme);
+      // The native picker only accepts #RRGGBB
+      onChange(allowCssColors || /^#[0-9a-f]{6}$/i.test(resolved) ? resolved : '#000000');
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1 }}>
+      <TextField
+        label={label}
+        size="small"
+        select
+        sx={{ flex: 1 }}
+        helperText={token ? helperText : undefined}
+        value={token ?? CUSTOM}
+        onChange={(e) => select(e.target.value)}
+      >
+        <MenuItem value={CUSTOM}>Custom</MenuItem>
+        {THEME_COLOR_TOKENS.map((t) => (
+          <MenuItem key={t} value={t}>
+            <Box
+              component="span"
+              sx={{ display: 'inline-block', width: 12, height: 12, mr: 1, borderRadius: '2px', bgcolor: theme.palette[t] }}
+            />
+            Theme {tokenLabel(t)}
+          </MenuItem>
+        ))}
+      </TextField>
+      {!token &&
+        (allowCssColors ? (
+          <TextField
+            size="small"
+            sx={{ flex: 1 }}
+            helperText={helperText ?? "CSS color or 'transparent'"}
+            value={color}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        ) : (
+          <TextField
+            size="small"
+            sx={{ flex: 1 }}
+            type="color"
+            helperText={helperText}
+            value={color || '#000000'}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        ))}
+    </Box>
+  );
+};
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createElement, type ErrorInfo } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { PluginElementBoundary, type PluginElementBoundaryProps } from '../PluginElementBoundary.js';
+
+// Node has no DOM, so these drive the boundary's lifecycle methods directly
+// the way React does after a child throws.
+
+const MANIFEST = { elementName: 'test.clock', displayName: 'Clock' };
+
+function failedBoundary(props: Partial<PluginElementBoundaryProps>, error: unknown = new Error('boom')) {
+  const boundary = new PluginElementBoundary({ manifest: MANIFEST, ...props });
+  boundary.state = { ...boundary.state, ...PluginElementBoundary.getDerivedStateFromError(error) };
+  return boundary;
+}
+
+describe('PluginElementBoundary', () => {
+  it('renders its children while nothing has thrown', () => {
+    const html = renderToStaticMarkup(createElement(PluginElementBoundary, { manifest: MANIFEST }, createElement('b', null, 'ok')));
+    assert.equal(html, '<b>ok</b>');
+  });
+
+  it('shows a placeholder at the element size with the displayName and error', () => {
+    const html = renderToStaticMarkup(failedBoundary({ width: 240, height: 80 }).render());
+    assert.match(html, /^<div role="alert"/);
+    assert.match(html, /width:240px;height:80px;box-sizing:border-box/);
+    assert.match(html, /Clock failed to render/);
+    assert.match(html, />boom</);
+  });
+
+  it('labels PropertiesPanel failures and fills the parent when no size is given', () => {
+    const html = renderToStaticMarkup(failedBoundary({ component: 'PropertiesPanel' }).render());
+    assert.match(html, /width:100%;height:100%/);
+    assert.match(html, /Clock properties failed to render/);
+  });
+
+  it('wraps thrown non-Error values', () => {
+    const { error } = PluginElementBoundary.getDerivedStateFromError('bad value');
+    assert.ok(error instanceof Error);
+    assert.equal(error.message, 'bad value');
+  });
+
+  it('reports errors through onError with the plugin and component', () => {
+    const reports: unknown[] = [];
+    const boundary = new PluginElementBoundary({
+      manifest: MANIFEST,
+      component: 'PropertiesPanel',
+      onError: (error, info) => reports.push([error.message, info]),
+    });
+    boundary.componentDidCatch(new Error('boom'), { componentStack: '\n    at Panel' } as ErrorInfo);
+    assert.deepEqual(reports, [[
+      'boom',
+      { elementName: 'test.clock', component: 'PropertiesPanel', componentStack: '\n    at Panel' },
+    ]]);
+  });
+
+  it('retries when properties change, but not for an equal copy', () => {
+    const properties = { label: 'A' };
+    const state = failedBoundary({ properties }).state;
+
+    assert.equal(PluginElementBoundary.getDerivedStateFromProps({ manifest: MANIFEST, properties }, state), null);
+    assert.deepEqual(
+      PluginElementBoundary.getDerivedStateFromProps({ manifest: MANIFEST, properties: { label: 'A' } }, state),
+      { properties: { label: 'A' } },
+    );
+    assert.deepEqual(
+      PluginElementBoundary.getDerivedStateFromProps({ manifest: MANIFEST, properties: { label: 'B' } }, state),
+      { error: null, properties: { label: 'B' } },
+    );
+  });
+
+  it('passes the error and a retry callback to a custom fallback', () => {
+    let retry: (() => void) | undefined;
+    const boundary = failedBoundary({
+      fallback: (error, r) => {
+        retry = r;
+        return createElement('i', null, `custom: ${error.message}`);
+      },
+    });
+    assert.equal(renderToStaticMarkup(boundary.render()), '<i>custom: boom</i>');
+    assert.equal(retry, boundary.retry);
+  });
+});
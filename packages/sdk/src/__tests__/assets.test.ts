@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPluginAssets, isDeclaredAsset, type FontFaceLoader } from '../assets.js';
+
+const manifest = { elementName: 'test.gallery', assets: ['assets', './data/lookup.json'] } as const;
+const plugin = { path: '/srv/elements/test.gallery', manifest: { ...manifest, assets: [...manifest.assets] } } as never;
+
+describe('isDeclaredAsset', () => {
+  it('matches listed files and files inside listed folders', () => {
+    assert.equal(isDeclaredAsset(manifest as never, 'assets/logo.png'), true);
+    assert.equal(isDeclaredAsset(manifest as never, './assets/fonts/Pixel.woff2'), true);
+    assert.equal(isDeclaredAsset(manifest as never, 'data/lookup.json'), true);
+    assert.equal(isDeclaredAsset(manifest as never, 'data/other.json'), false);
+    assert.equal(isDeclaredAsset(manifest as never, 'assets-old/logo.png'), false);
+  });
+
+  it('rejects paths that leave the plugin folder', () => {
+    assert.equal(isDeclaredAsset(manifest as never, 'assets/../package.json'), false);
+    assert.equal(isDeclaredAsset(manifest as never, '/assets/logo.png'), false);
+    assert.equal(isDeclaredAsset(manifest as never, 'assets\\logo.png'), false);
+    assert.equal(isDeclaredAsset({}, 'assets/logo.png'), false);
+  });
+});
+
+describe('createPluginAssets', () => {
+  it('resolves URLs against the plugin path by default', () => {
+    const assets = createPluginAssets(plugin);
+    assert.equal(assets.getUrl('assets/logo.png'), 'file:///srv/elements/test.gallery/assets/logo.png');
+    assert.equal(assets.getUrl('assets/my logo#1.png'), 'file:///srv/elements/test.gallery/assets/my%20logo%231.png');
+  });
+
+  it('converts Windows plugin paths to file URLs', () => {
+    const assets = createPluginAssets({ ...(plugin as object), path: 'C:\\elements\\test.gallery' } as never);
+    assert.equal(assets.getUrl('assets/logo.png'), 'file:///C:/elements/test.gallery/assets/logo.png');
+  });
+
+  it('resolves URLs against a base URL', () => {
+    const assets = createPluginAssets(plugin, { baseUrl: '/elements/test.gallery' });
+    assert.equal(assets.getUrl('./data/lookup.json'), '/elements/test.gallery/data/lookup.json');
+  });
+
+  it('throws for undeclared assets', () => {
+    const assets = createPluginAssets(plugin);
+    assert.throws(() => assets.getUrl('dist/index.js'), /'dist\/index\.js' is not a declared asset of test\.gallery/);
+    assert.throws(() => assets.getUrl('../other/secret.txt'), /not a declared asset/);
+  });
+
+  it('loads each font file once and ignores load failures', async () => {
+    const calls: string[] = [];
+    const loadFontFace: FontFaceLoader = async (family, url) => {
+      calls.push(`${family} ${url}`);
+      if (family === 'Broken') throw new Error('404');
+    };
+    const assets = createPluginAssets(plugin, { baseUrl: '/p/', loadFontFace });
+
+    await Promise.all([assets.loadFont('Pixel', 'assets/Pixel.woff2'), assets.loadFont('Pixel', 'assets/Pixel.woff2')]);
+    await assets.loadFont('Broken', 'assets/Broken.woff2');
+    assert.deepEqual(calls, ['Pixel /p/assets/Pixel.woff2', 'Broken /p/assets/Broken.woff2']);
+  });
+
+  it('rejects loadFont() for undeclared assets', async () => {
+    const assets = createPluginAssets(plugin, { loadFontFace: async () => {} });
+    await assert.rejects(assets.loadFont('Pixel', 'fonts/Pixel.woff2'), /not a declared asset/);
+  });
+});
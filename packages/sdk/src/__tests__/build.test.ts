@@ -0,0 +1,145 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { buildPlugin, watchPlugin, type BuildPluginResult } from '../tooling/build.js';
+
+const MANIFEST = {
+  type: 'element',
+  entry: 'dist/index.js',
+  elementName: 'test.build-fixture',
+  displayName: 'Build Fixture',
+  description: 'Fixture for build tests',
+  category: 'Utility',
+  icon: 'Build',
+  sensorTagCompatible: false,
+  defaultSize: { width: 100, height: 100 },
+  defaultProperties: {},
+};
+
+const RENDERER = `
+import { useState } from 'react';
+import { useElementHost } from '@junctionrelay/element-sdk';
+export const Renderer = () => { const [n] = useState(1); useElementHost(); return <div>{n}</div>; };
+`;
+
+let dir: string;
+
+function writePlugin(files: Record<string, string>, manifest: Record<string, unknown> = MANIFEST) {
+  writeFileSync(join(dir, 'package.json'), JSON.stringify({ name: 'fixture', version: '1.0.0', junctionrelay: manifest }));
+  for (const [name, contents] of Object.entries(files)) {
+    mkdirSync(join(dir, name, '..'), { recursive: true });
+    writeFileSync(join(dir, name), contents);
+  }
+}
+
+describe('buildPlugin', () => {
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'jr-build-')); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('bundles a .jsx entry to the manifest entry with shared packages external', async () => {
+    writePlugin({ 'src/index.jsx': RENDERER });
+    const result = await buildPlugin({ pluginDir: dir });
+
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.warnings, []);
+    assert.equal(result.outfile, join(dir, 'dist/index.js'));
+    assert.ok(result.bytes > 0);
+
+    const bundle = readFileSync(result.outfile, 'utf8');
+    assert.match(bundle, /from "react"/);
+    assert.match(bundle, /from "react\/jsx-runtime"/);
+    assert.match(bundle, /from "@junctionrelay\/element-sdk"/);
+    assert.match(bundle, /sourceMappingURL=index\.js\.map/);
+    assert.ok(existsSync(join(dir, 'dist/index.js.map')));
+  });
+
+  it('bundles only the manifest from an imported package.json', async () => {
+    writePlugin({ 'src/index.js': 'import pkg from "../package.json"; export const manifest = pkg.junctionrelay;' });
+    const packageJson = JSON.parse(readFileSync(join(dir, 'package.json'), 'utf8'));
+    writeFileSync(join(dir, 'package.json'), JSON.stringify({
+      ...packageJson,
+      scripts: { build: 'junctionrelay-element build' },
+      devDependencies: { 'secret-internal-tool': '1.0.0' },
+    }));
+
+    const result = await buildPlugin({ pluginDir: dir, sourcemap: false });
+    assert.deepEqual(result.errors, []);
+    const bundle = readFileSync(result.outfile, 'utf8');
+    assert.match(bundle, /test\.build-fixture/);
+    assert.doesNotMatch(bundle, /secret-internal-tool|junctionrelay-element build|"fixture"/);
+  });
+
+  it('prefers src/index.tsx and can skip the sourcemap', async () => {
+    writePlugin({ 'src/index.tsx': 'export const kind: string = "tsx";', 'src/index.jsx': 'export const kind = "jsx";' });
+    const result = await buildPlugin({ pluginDir: dir, sourcemap: false });
+    assert.match(readFileSync(result.outfile, 'utf8'), /"tsx"/);
+    assert.equal(existsSync(join(dir, 'dist/index.js.map')), false);
+  });
+
+  it('accepts an explicit entry', async () => {
+    writePlugin({ 'lib/main.js': 'export const kind = "custom";' });
+    const result = await buildPlugin({ pluginDir: dir, entry: 'lib/main.js' });
+    assert.match(readFileSync(result.outfile, 'utf8'), /"custom"/);
+  });
+
+  it('fails before building when the manifest is invalid', async () => {
+    writePlugin({ 'src/index.jsx': RENDERER }, { ...MANIFEST, category: 'Nope' });
+    await assert.rejects(buildPlugin({ pluginDir: dir }), /Invalid manifest[\s\S]*category/);
+    assert.equal(existsSync(join(dir, 'dist')), false);
+  });
+
+  it('fails when there is no entry file', async () => {
+    writePlugin({});
+    await assert.rejects(buildPlugin({ pluginDir: dir }), /No entry file found.*src\/index\.tsx/);
+  });
+
+  it('returns compile errors with locations', async () => {
+    writePlugin({ 'src/index.jsx': 'export const broken = <div>;' });
+    const result = await buildPlugin({ pluginDir: dir });
+    assert.equal(result.errors.length > 0, true);
+    assert.match(result.errors[0], /src\/index\.jsx:1:\d+: /);
+    assert.equal(result.bytes, 0);
+  });
+
+  it('warns about bundle externals issues', async () => {
+    writePlugin({ 'src/index.jsx': 'import Box from "@mui/material/Box"; export const B = Box;' });
+    const result = await buildPlugin({ pluginDir: dir });
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.warnings.length, 1);
+    assert.match(result.warnings[0], /^unmapped-import @mui\/material\/Box/);
+  });
+});
+
+describe('watchPlugin', () => {
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'jr-watch-')); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('rebuilds when a source file changes', async () => {
+    writePlugin({ 'src/index.js': 'export const v = "one";' });
+    const builds: BuildPluginResult[] = [];
+    let notify = () => {};
+    const watcher = await watchPlugin({ pluginDir: dir }, (result) => {
+      builds.push(result);
+      notify();
+    });
+
+    try {
+      const waitForBuild = (count: number) => new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('timed out waiting for rebuild')), 10_000);
+        notify = () => {
+          if (builds.length >= count) { clearTimeout(timer); resolve(); }
+        };
+        notify();
+      });
+
+      await waitForBuild(1);
+      writeFileSync(join(dir, 'src/index.js'), 'export const v = "two";');
+      await waitForBuild(2);
+      assert.match(readFileSync(join(dir, 'dist/index.js'), 'utf8'), /"two"/);
+    } finally {
+      await watcher.stop();
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { build } from 'esbuild';
+import { EXTERNAL_PACKAGES } from '@junctionrelay/element-protocol';
+import { checkBundleExternals } from '../tooling/bundleExternals.js';
+import { PLUGIN_FIXTURES, buildPluginFixture } from './pluginFixtures.js';
+
+const issueSummary = (source: string, externals?: readonly string[]) =>
+  checkBundleExternals(source, { externals }).issues.map(i => `${i.kind} ${i.specifier}`);
+
+const without = (...names: string[]) => EXTERNAL_PACKAGES.filter(p => !names.includes(p));
+
+describe('checkBundleExternals', () => {
+  for (const name of PLUGIN_FIXTURES) {
+    it(`passes the bundled ${name} plugin`, async () => {
+      const report = checkBundleExternals(await buildPluginFixture(name));
+      assert.deepEqual(report.issues, []);
+      assert.equal(report.valid, true);
+      assert.ok(report.imports.includes('react/jsx-runtime'));
+      assert.ok(report.imports.every(s => (EXTERNAL_PACKAGES as readonly string[]).includes(s)));
+    });
+  }
+
+  it('reports React inlined by a build missing its --external flags', async () => {
+    const source = await buildPluginFixture('junctionrelay.hello-sensor', without('react', 'react/jsx-runtime'));
+    const report = checkBundleExternals(source);
+    assert.equal(report.valid, false);
+    assert.deepEqual(
+      report.issues.map(i => `${i.kind} ${i.specifier}`).sort(),
+      ['inlined-external react', 'inlined-external react/jsx-runtime'],
+    );
+    assert.equal(report.issues[0].fix, `Add --external:${report.issues[0].specifier} to the build command`);
+  });
+
+  it('detects inlined packages in minified bundles', async () => {
+    const result = await build({
+      stdin: { contents: 'export { useState } from "react"; export { jsx } from "react/jsx-runtime";', resolveDir: process.cwd() },
+      bundle: true,
+      format: 'esm',
+      minify: true,
+      legalComments: 'none',
+      define: { 'process.env.NODE_ENV': '"production"' },
+      write: false,
+      logLevel: 'silent',
+    });
+    const source = result.outputFiles[0].text.replace(/node_modules\/[^"]*/g, 'x');
+    assert.deepEqual(issueSummary(source).sort(), ['inlined-external react', 'inlined-external react/jsx-runtime']);
+  });
+
+  it('reports bundled CommonJS code that requires an external', async () => {
+    const result = await build({
+      stdin: { contents: 'import lib from "legacy-lib"; export default lib;', resolveDir: process.cwd() },
+      bundle: true,
+      format: 'esm',
+      external: [...EXTERNAL_PACKAGES],
+      write: false,
+      logLevel: 'silent',
+      plugins: [{
+        name: 'legacy-lib',
+        setup(b) {
+          b.onResolve({ filter: /^legacy-lib$/ }, () => ({ path: 'legacy-lib', namespace: 'virtual' }));
+          b.onLoad({ filter: /.*/, namespace: 'virtual' }, () => ({
+            contents: 'module.exports = require("react").createElement;',
+            loader: 'js',
+          }));
+        },
+      }],
+    });
+    const [issue] = checkBundleExternals(result.outputFiles[0].text).issues;
+    assert.equal(issue.kind, 'dynamic-require');
+    assert.equal(issue.specifier, 'react');
+  });
+
+  it('finds renamed require shims', () => {
+    const source = 'var a=(e=>typeof require<"u"?require:e)(function(e){throw Error(\'Dynamic require of "\'+e+\'" is not supported\')});var b=a("react-dom");';
+    assert.deepEqual(issueSummary(source), ['dynamic-require react-dom']);
+  });
+
+  it('reports bare imports the host import map does not provide', () => {
+    const source = [
+      'import { Box } from "@mui/material/Box";',
+      'import debounce from "lodash/debounce";',
+      'import "./local.js";',
+      'import { useState } from "react";',
+      'export * from "three";',
+      'const m = await import("chart.js");',
+      'import x from "https://cdn.example.com/x.js";',
+    ].join('\n');
+    const report = checkBundleExternals(source);
+    assert.deepEqual(report.imports, ['@mui/material/Box', 'lodash/debounce', 'react', 'three', 'chart.js']);
+    assert.deepEqual(report.issues.map(i => i.specifier), ['@mui/material/Box', 'lodash/debounce', 'three', 'chart.js']);
+    assert.ok(report.issues.every(i => i.kind === 'unmapped-import'));
+    assert.equal(report.issues[0].fix, "Import from '@mui/material' instead of '@mui/material/Box'");
+    assert.match(report.issues[1].fix, /remove --external:lodash\/debounce/);
+  });
+
+  it('reads minified import syntax', () => {
+    const report = checkBundleExternals('import{jsx as e}from"react/jsx-runtime";import*as t from"d3";');
+    assert.deepEqual(report.imports, ['react/jsx-runtime', 'd3']);
+    assert.deepEqual(report.issues.map(i => i.specifier), ['d3']);
+  });
+
+  it('ignores specifiers in comments and strings', () => {
+    const source = '// import x from "lodash"\nconst s = "import y from \'three\'";';
+    assert.deepEqual(checkBundleExternals(source), { valid: true, imports: [], issues: [] });
+  });
+
+  it('reports each issue once at its first occurrence with line/column', () => {
+    const source = 'const a = 1;\nimport x from "lodash";\nimport y from "lodash";';
+    const { issues } = checkBundleExternals(source);
+    assert.equal(issues.length, 1);
+    assert.deepEqual([issues[0].line, issues[0].column], [2, 1]);
+  });
+
+  it('accepts a custom externals list', () => {
+    assert.deepEqual(issueSummary('import x from "preact";', ['preact']), []);
+  });
+});
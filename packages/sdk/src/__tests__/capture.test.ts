@@ -0,0 +1,117 @@
+import '../testingDom.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ElementRendererProps } from '@junctionrelay/element-protocol';
+import { CaptureSession, useCaptureReady } from '../capture.js';
+import { AnimationClock } from '../clock.js';
+import { createMockCaptureHost, createMockHost, mountElement } from '../testing.js';
+
+describe('CaptureSession', () => {
+  it('freezes the clock at the capture time', () => {
+    const clock = new AnimationClock();
+    clock.step(250);
+    const times: number[] = [];
+    clock.subscribe((frame) => times.push(frame.time));
+
+    const capture = new CaptureSession({ time: 1500, clock });
+    assert.equal(capture.time, 1500);
+    assert.equal(clock.isPaused(), true);
+    assert.equal(clock.now(), 1500);
+    assert.deepEqual(times, [1500]);
+  });
+
+  it('is ready when nothing holds it', async () => {
+    await new CaptureSession().whenReady({ timeoutMs: 100 });
+  });
+
+  it('waits until every hold is released', async () => {
+    const capture = new CaptureSession();
+    const releaseA = capture.hold('font Inter');
+    const releaseB = capture.hold('font Inter');
+    const releaseImage = capture.hold('image');
+    assert.deepEqual(capture.pending(), ['font Inter', 'image']);
+
+    let ready = false;
+    const done = capture.whenReady({ timeoutMs: 1000 }).then(() => { ready = true; });
+
+    releaseA();
+    releaseA();
+    releaseImage();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    assert.equal(ready, false);
+    assert.deepEqual(capture.pending(), ['font Inter']);
+
+    releaseB();
+    await done;
+    assert.equal(ready, true);
+  });
+
+  it('rejects with the pending reasons on timeout', async () => {
+    const capture = new CaptureSession();
+    capture.hold('font Orbitron');
+    await assert.rejects(capture.whenReady({ timeoutMs: 20 }), /after 20 ms, waiting for: font Orbitron/);
+  });
+
+  it('catches holds taken right after a release', async () => {
+    const capture = new CaptureSession();
+    const release = capture.hold('first');
+    const done = capture.whenReady({ timeoutMs: 100 });
+    release();
+    // An element re-rendering after the release holds again
+    const second = capture.hold('second');
+    setTimeout(second, 20);
+    await done;
+    assert.deepEqual(capture.pending(), []);
+  });
+});
+
+describe('createMockCaptureHost', () => {
+  it('provides a paused clock and a capture at the given time', () => {
+    const host = createMockCaptureHost(1500);
+    assert.equal(host.capture.time, 1500);
+    assert.equal(host.clock.now(), 1500);
+    assert.equal(host.clock.isPaused(), true);
+    assert.ok(host.capabilities?.includes('capture'));
+  });
+
+  it('moves a clock that has run past the capture time back to it', () => {
+    const clock = new AnimationClock();
+    clock.step(5000);
+    const host = createMockCaptureHost(1500, { clock });
+    assert.equal(host.clock, clock);
+    assert.equal(clock.now(), 1500);
+    assert.equal(clock.isPaused(), true);
+  });
+});
+
+describe('useCaptureReady', () => {
+  const Loader = ({ properties }: ElementRendererProps) => {
+    useCaptureReady(properties.ready as boolean, 'font Inter');
+    return null;
+  };
+
+  it('holds the capture until the element is ready', async () => {
+    const host = createMockCaptureHost(0);
+    const element = await mountElement(Loader, { properties: { ready: false }, host });
+    assert.deepEqual(host.capture.pending(), ['font Inter']);
+    await assert.rejects(host.capture.whenReady({ timeoutMs: 20 }), /waiting for: font Inter/);
+
+    await element.update({ properties: { ready: true } });
+    assert.deepEqual(host.capture.pending(), []);
+    await host.capture.whenReady({ timeoutMs: 100 });
+    await element.unmount();
+  });
+
+  it('releases its hold on unmount', async () => {
+    const host = createMockCaptureHost(0);
+    const element = await mountElement(Loader, { properties: { ready: false }, host });
+    await element.unmount();
+    assert.deepEqual(host.capture.pending(), []);
+  });
+
+  it('does nothing outside captures', async () => {
+    const element = await mountElement(Loader, { properties: { ready: false }, host: createMockHost() });
+    assert.equal(element.html(), '');
+    await element.unmount();
+  });
+});
@@ -0,0 +1,226 @@
+import '../testingDom.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createElement, useState } from 'react';
+import type { ClockFrame } from '@junctionrelay/element-protocol';
+import { AnimationClock, useAnimationFrame, type AnimationFrameOptions } from '../clock.js';
+import { createMockHost, mountElement } from '../testing.js';
+
+/** A scheduler driven by hand: run() fires the pending tick. */
+function manualScheduler() {
+  let pending: (() => void) | undefined;
+  return {
+    scheduler: (tick: () => void) => {
+      pending = tick;
+      return () => { pending = undefined; };
+    },
+    get scheduled() { return pending !== undefined; },
+    run() {
+      const tick = pending;
+      pending = undefined;
+      tick?.();
+    },
+  };
+}
+
+describe('AnimationClock', () => {
+  it('steps time deterministically, even while paused', () => {
+    const clock = new AnimationClock({ paused: true, maxFps: 50 });
+    const frames: ClockFrame[] = [];
+    clock.subscribe((frame) => frames.push(frame));
+
+    clock.step();
+    clock.step(100);
+    assert.deepEqual(frames, [
+      { time: 20, delta: 20, frame: 0 },
+      { time: 120, delta: 100, frame: 1 },
+    ]);
+    assert.equal(clock.now(), 120);
+    assert.equal(clock.isPaused(), true);
+  });
+
+  it('ticks only while running with subscribers', () => {
+    const manual = manualScheduler();
+    const clock = new AnimationClock({ scheduler: manual.scheduler, now: () => 0 });
+    assert.equal(manual.scheduled, false);
+
+    const unsubscribe = clock.subscribe(() => {});
+    assert.equal(manual.scheduled, true);
+
+    clock.pause();
+    assert.equal(manual.scheduled, false);
+    clock.resume();
+    assert.equal(manual.scheduled, true);
+
+    unsubscribe();
+    assert.equal(manual.scheduled, false);
+  });
+
+  it('throttles ticks to maxFps', () => {
+    const manual = manualScheduler();
+    let wall = 1000;
+    const clock = new AnimationClock({ scheduler: manual.scheduler, now: () => wall, maxFps: 30 });
+    const frames: ClockFrame[] = [];
+    clock.subscribe((frame) => frames.push(frame));
+
+    // First tick only sets the starting point; 60 Hz ticks deliver every other one
+    for (let i = 0; i < 5; i++) {
+      manual.run();
+      wall += 1000 / 60;
+    }
+    assert.equal(frames.length, 2);
+    assert.ok(Math.abs(frames[0].delta - 1000 / 30) < 1e-9);
+    assert.ok(Math.abs(clock.now() - 2000 / 30) < 1e-9);
+
+    clock.setMaxFps(60);
+    manual.run();
+    assert.equal(frames.length, 3);
+    assert.throws(() => clock.setMaxFps(0), /positive/);
+  });
+
+  it('does not jump ahead after a pause', () => {
+    const manual = manualScheduler();
+    let wall = 0;
+    const clock = new AnimationClock({ scheduler: manual.scheduler, now: () => wall, maxFps: 10 });
+    clock.subscribe(() => {});
+
+    manual.run();
+    wall += 100;
+    manual.run();
+    assert.equal(clock.now(), 100);
+
+    clock.pause();
+    wall += 60_000;
+    clock.resume();
+    manual.run();
+    wall += 100;
+    manual.run();
+    assert.equal(clock.now(), 200);
+  });
+
+  it('keeps delivering frames when a subscriber throws', () => {
+    const clock = new AnimationClock({ paused: true });
+    let calls = 0;
+    clock.subscribe(() => { throw new Error('broken'); });
+    clock.subscribe(() => { calls++; });
+    clock.step();
+    assert.equal(calls, 1);
+  });
+});
+
+/** Mounts an element that shows the last frame time and records every frame. */
+async function mountRecorder(clock: AnimationClock, options?: AnimationFrameOptions) {
+  const frames: ClockFrame[] = [];
+  const Recorder = () => {
+    const [time, setTime] = useState<number>();
+    useAnimationFrame((frame) => {
+      frames.push(frame);
+      setTime(frame.time);
+    }, options);
+    return createElement('b', null, time);
+  };
+  const element = await mountElement(Recorder, { host: createMockHost({ clock }) });
+  return { element, frames, times: () => frames.map(f => Math.round(f.time)) };
+}
+
+describe('useAnimationFrame', () => {
+  it('throttles the clock to fps', async () => {
+    const manual = manualScheduler();
+    let wall = 0;
+    const clock = new AnimationClock({ scheduler: manual.scheduler, now: () => wall, maxFps: 60 });
+    const { element, frames, times } = await mountRecorder(clock, { fps: 30 });
+
+    await element.act(() => {
+      for (let i = 0; i < 7; i++) {
+        manual.run();
+        wall += 1000 / 60;
+      }
+    });
+    // Clock frames at 17, 33, 50, ... 100 ms; every other one reaches the callback
+    assert.deepEqual(times(), [17, 50, 83]);
+    assert.equal(frames[0].delta, 0);
+    assert.ok(Math.abs(frames[1].delta - 1000 / 30) < 1e-9);
+    assert.deepEqual(frames.map(f => f.frame), [0, 1, 2]);
+    assert.equal(element.html(), `<b>${frames[2].time}</b>`);
+    await element.unmount();
+  });
+
+  it('receives nothing while paused except the frames stepped to', async () => {
+    const manual = manualScheduler();
+    let wall = 0;
+    const clock = new AnimationClock({ scheduler: manual.scheduler, now: () => wall, maxFps: 60 });
+    const { element, times } = await mountRecorder(clock, { fps: 10 });
+
+    await element.act(() => {
+      manual.run();
+      wall += 100;
+      manual.run();
+      clock.pause();
+      wall += 1000;
+      manual.run();
+    });
+    assert.deepEqual(times(), [100]);
+    assert.equal(manual.scheduled, false);
+
+    // Steps shorter than the 100 ms interval still arrive
+    await element.act(() => {
+      clock.step(10);
+      clock.step(10);
+    });
+    assert.deepEqual(times(), [100, 110, 120]);
+    await element.unmount();
+  });
+
+  it('delivers a short seek forward on a paused clock', async () => {
+    const clock = new AnimationClock({ paused: true });
+    const { element, times } = await mountRecorder(clock, { fps: 30 });
+
+    await element.act(() => {
+      clock.seek(1000);
+      clock.seek(1010);
+    });
+    assert.deepEqual(times(), [1000, 1010]);
+    assert.equal(element.html(), '<b>1010</b>');
+    await element.unmount();
+  });
+
+  it('starts over after a seek back', async () => {
+    const manual = manualScheduler();
+    let wall = 0;
+    const clock = new AnimationClock({ scheduler: manual.scheduler, now: () => wall, maxFps: 10 });
+    const { element, frames, times } = await mountRecorder(clock, { fps: 5 });
+
+    await element.act(() => {
+      for (let i = 0; i < 5; i++) {
+        manual.run();
+        wall += 100;
+      }
+    });
+    assert.deepEqual(times(), [100, 300]);
+
+    // The running clock jumps back; the hook follows instead of waiting for 500 ms
+    await element.act(() => {
+      clock.seek(50);
+      manual.run();
+      wall += 100;
+      manual.run();
+    });
+    assert.deepEqual(times(), [100, 300, 50, 250]);
+    assert.equal(frames[2].delta, -250);
+    assert.equal(element.html(), '<b>250</b>');
+    await element.unmount();
+  });
+
+  it('stops when disabled or unmounted', async () => {
+    const clock = new AnimationClock({ paused: true });
+    const disabled = await mountRecorder(clock, { enabled: false });
+    await disabled.element.act(() => { clock.step(); });
+    assert.deepEqual(disabled.frames, []);
+    await disabled.element.unmount();
+
+    const { element, frames } = await mountRecorder(clock);
+    await element.unmount();
+    clock.step();
+    assert.deepEqual(frames, []);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_PLUGIN_PROTOCOL_RANGE, PROTOCOL_VERSION } from '@junctionrelay/element-protocol';
+import { checkProtocolCompatibility, hasHostCapability } from '../compatibility.js';
+import { createMockHost } from '../testing.js';
+
+describe('checkProtocolCompatibility', () => {
+  it('accepts plugins without a range on the current host', () => {
+    assert.deepEqual(checkProtocolCompatibility({}), {
+      compatible: true,
+      range: DEFAULT_PLUGIN_PROTOCOL_RANGE,
+      hostProtocolVersion: PROTOCOL_VERSION,
+    });
+  });
+
+  it('checks the manifest range against the host version', () => {
+    assert.equal(checkProtocolCompatibility({ protocolVersion: '^1.1.0' }, '1.4.2').compatible, true);
+    assert.equal(checkProtocolCompatibility({ protocolVersion: '^1.1.0' }, '2.0.0').compatible, false);
+
+    const result = checkProtocolCompatibility({ protocolVersion: '^1.2.0' }, '1.1.0');
+    assert.equal(result.compatible, false);
+    assert.equal(result.message, 'Plugin requires protocol ^1.2.0, but the host implements 1.1.0');
+  });
+
+  it('reports invalid ranges and host versions instead of throwing', () => {
+    assert.match(checkProtocolCompatibility({ protocolVersion: 'latest' }).message ?? '', /not a valid version range/);
+    assert.match(checkProtocolCompatibility({}, 'one').message ?? '', /not a valid semantic version/);
+  });
+});
+
+describe('hasHostCapability', () => {
+  it('uses the capabilities list when the host advertises one', () => {
+    const host = createMockHost();
+    assert.equal(host.hostProtocolVersion, PROTOCOL_VERSION);
+    assert.deepEqual(host.capabilities, ['sensors', 'theme', 'storage', 'clock']);
+    assert.equal(hasHostCapability(host, 'sensors'), true);
+    assert.equal(hasHostCapability({ ...host, capabilities: [] }, 'sensors'), false);
+  });
+
+  it('falls back to the service field on hosts without a capabilities list', () => {
+    const { fonts, sensors } = createMockHost();
+    assert.equal(hasHostCapability({ fonts, sensors }, 'sensors'), true);
+    assert.equal(hasHostCapability({ fonts }, 'sensors'), false);
+  });
+});
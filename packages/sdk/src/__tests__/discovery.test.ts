@@ -0,0 +1,131 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { discoverElementPlugins, discoverElementPlugin } from '../discovery.js';
+
+const MANIFEST = {
+  type: 'element',
+  entry: 'dist/index.js',
+  elementName: 'test.clock',
+  displayName: 'Clock',
+  description: 'Fixture for discovery tests',
+  category: 'Utility',
+  icon: 'Schedule',
+  sensorTagCompatible: false,
+  defaultSize: { width: 100, height: 100 },
+  defaultProperties: {},
+};
+
+let dir: string;
+
+function addPlugin(folder: string, packageJson: unknown, files: string[] = ['dist/index.js']) {
+  mkdirSync(join(dir, folder), { recursive: true });
+  writeFileSync(
+    join(dir, folder, 'package.json'),
+    typeof packageJson === 'string' ? packageJson : JSON.stringify(packageJson),
+  );
+  for (const file of files) {
+    mkdirSync(join(dir, folder, file, '..'), { recursive: true });
+    writeFileSync(join(dir, folder, file), 'export {};');
+  }
+}
+
+const pkg = (elementName: string, extra: Record<string, unknown> = {}) => ({
+  name: `@test/element-${elementName.split('.')[1]}`,
+  version: '1.2.3',
+  junctionrelay: { ...MANIFEST, elementName, ...extra },
+});
+
+describe('discoverElementPlugins', () => {
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'jr-discovery-')); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('discovers valid plugins sorted by folder with absolute entries', async () => {
+    addPlugin('test.timer', pkg('test.timer'));
+    addPlugin('test.clock', pkg('test.clock', { entry: './build/main.js' }), ['build/main.js']);
+
+    const { plugins, errors } = await discoverElementPlugins(dir);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(plugins, [
+      {
+        name: '@test/element-clock',
+        version: '1.2.3',
+        path: join(dir, 'test.clock'),
+        entry: join(dir, 'test.clock/build/main.js'),
+        manifest: { ...MANIFEST, elementName: 'test.clock', entry: './build/main.js' },
+      },
+      {
+        name: '@test/element-timer',
+        version: '1.2.3',
+        path: join(dir, 'test.timer'),
+        entry: join(dir, 'test.timer/dist/index.js'),
+        manifest: { ...MANIFEST, elementName: 'test.timer' },
+      },
+    ]);
+  });
+
+  it('reports per-folder errors and keeps the valid plugins', async () => {
+    mkdirSync(join(dir, 'a-no-package'));
+    addPlugin('b-bad-json', '{ nope');
+    addPlugin('c-invalid', pkg('test.invalid', { category: 'Nope' }));
+    addPlugin('d-unbuilt', pkg('test.unbuilt'), []);
+    addPlugin('e-no-version', { ...pkg('test.versionless'), version: undefined });
+    addPlugin('test.clock', pkg('test.clock'));
+
+    const { plugins, errors } = await discoverElementPlugins(dir);
+    assert.deepEqual(plugins.map(p => p.manifest.elementName), ['test.clock']);
+    assert.deepEqual(errors.map(e => e.path), ['a-no-package', 'b-bad-json', 'c-invalid', 'd-unbuilt', 'e-no-version'].map(f => join(dir, f)));
+    assert.deepEqual(errors[0].errors, ['No package.json found']);
+    assert.match(errors[1].errors[0], /^package\.json is not valid JSON/);
+    assert.match(errors[2].errors[0], /^category must be one of/);
+    assert.deepEqual(errors[3].errors, ["Entry 'dist/index.js' not found"]);
+    assert.deepEqual(errors[4].errors, ['package.json version must be a non-empty string']);
+  });
+
+  it('rejects every package that declares a duplicate elementName', async () => {
+    addPlugin('clock-v1', pkg('test.clock'));
+    addPlugin('clock-v2', { ...pkg('test.clock'), name: '@other/clock' });
+    addPlugin('test.timer', pkg('test.timer'));
+
+    const { plugins, errors } = await discoverElementPlugins(dir);
+    assert.deepEqual(plugins.map(p => p.manifest.elementName), ['test.timer']);
+    assert.deepEqual(errors, [
+      {
+        path: join(dir, 'clock-v1'),
+        errors: [`elementName 'test.clock' is also declared by @other/clock (${join(dir, 'clock-v2')})`],
+      },
+      {
+        path: join(dir, 'clock-v2'),
+        errors: [`elementName 'test.clock' is also declared by @test/element-clock (${join(dir, 'clock-v1')})`],
+      },
+    ]);
+  });
+
+  it('ignores files and hidden folders', async () => {
+    writeFileSync(join(dir, 'test.pending.zip'), 'zip');
+    mkdirSync(join(dir, '.cache'));
+    addPlugin('test.clock', pkg('test.clock'));
+
+    const { plugins, errors } = await discoverElementPlugins(dir);
+    assert.equal(plugins.length, 1);
+    assert.deepEqual(errors, []);
+  });
+
+  it('throws when the elements directory does not exist', async () => {
+    await assert.rejects(discoverElementPlugins(join(dir, 'missing')), /ENOENT/);
+  });
+});
+
+describe('discoverElementPlugin', () => {
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'jr-discovery-')); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('discovers a single folder', async () => {
+    addPlugin('clock', pkg('test.clock'));
+    const result = await discoverElementPlugin(join(dir, 'clock'));
+    assert.equal(result.plugin?.entry, join(dir, 'clock/dist/index.js'));
+    assert.deepEqual(result.errors, []);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+
+/** Packages an SDK entry imports, following its own modules. */
+async function packageImports(entry: string): Promise<string[]> {
+  const result = await build({
+    entryPoints: [fileURLToPath(new URL(`../${entry}`, import.meta.url))],
+    bundle: true,
+    packages: 'external',
+    platform: 'node',
+    format: 'esm',
+    write: false,
+    metafile: true,
+    logLevel: 'silent',
+  });
+  const imports = Object.values(result.metafile.inputs).flatMap(input => input.imports);
+  return [...new Set(imports.filter(i => i.external).map(i => i.path))].sort();
+}
+
+describe('SDK entries', () => {
+  it('keeps MUI and Emotion out of the root entry', async () => {
+    const imports = await packageImports('index.ts');
+    assert.deepEqual(imports.filter(i => i.startsWith('@mui/') || i.startsWith('@emotion/')), []);
+  });
+
+  it('exports the MUI panel controls from panels', async () => {
+    assert.ok((await packageImports('panels.ts')).includes('@mui/material'));
+    const panels = await import('../panels.js');
+    assert.deepEqual(Object.keys(panels).sort(), ['DisplayFormatField', 'SchemaPropertiesPanel', 'ThemeColorField']);
+  });
+});
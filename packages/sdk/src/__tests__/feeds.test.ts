@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockFeed } from '../feeds.js';
+
+describe('createMockFeed', () => {
+  it('oscillates a sine channel between min and max', () => {
+    const feed = createMockFeed({ 'cpu.temp': { kind: 'sine', min: 40, max: 80, periodMs: 4000 } });
+    assert.equal(feed.sample(0)['cpu.temp'].value, 60);
+    assert.equal(feed.sample(1000)['cpu.temp'].value, 80);
+    assert.equal(feed.sample(3000)['cpu.temp'].value, 40);
+  });
+
+  it('formats unit, label and displayValue', () => {
+    const feed = createMockFeed({
+      'cpu.temp': { kind: 'sine', min: 40, max: 80, periodMs: 4000, unit: '°C', label: 'CPU', precision: 2 },
+    });
+    assert.deepEqual(feed.sample(0)['cpu.temp'], { value: 60, unit: '°C', label: 'CPU', displayValue: '60.00' });
+  });
+
+  it('is deterministic for the same seed and time', () => {
+    const definition = {
+      'fan.rpm': { kind: 'randomWalk', start: 1200, stepSize: 50 },
+      'audio.fft': { kind: 'spectrum', bands: 8 },
+    } as const;
+    const a = createMockFeed(definition, { seed: 7 });
+    const b = createMockFeed(definition, { seed: 7 });
+    for (const t of [0, 2500, 10_000, 500]) {
+      assert.deepEqual(a.sample(t), b.sample(t));
+    }
+  });
+
+  it('produces different streams for different seeds', () => {
+    const definition = { 'fan.rpm': { kind: 'randomWalk', start: 0, stepSize: 10 } } as const;
+    const a = createMockFeed(definition, { seed: 1 }).sample(20_000);
+    const b = createMockFeed(definition, { seed: 2 }).sample(20_000);
+    assert.notEqual(a['fan.rpm'].value, b['fan.rpm'].value);
+  });
+
+  it('gives the same random walk value whether sampled in order or out of order', () => {
+    const definition = { 'fan.rpm': { kind: 'randomWalk', start: 100, stepSize: 5 } } as const;
+    const sequential = createMockFeed(definition);
+    for (let t = 0; t <= 30_000; t += 250) sequential.sample(t);
+    const expected = sequential.sample(30_000);
+
+    const jumping = createMockFeed(definition);
+    jumping.sample(50_000);
+    assert.deepEqual(jumping.sample(30_000), expected);
+  });
+
+  it('keeps a random walk within its bounds', () => {
+    const feed = createMockFeed({ level: { kind: 'randomWalk', start: 0, stepSize: 10, min: 0, max: 20, intervalMs: 100 } });
+    for (let t = 0; t < 20_000; t += 100) {
+      const value = feed.sample(t).level.value as number;
+      assert.ok(value >= 0 && value <= 20, `out of bounds at ${t}: ${value}`);
+    }
+  });
+
+  it('cycles step and text channels', () => {
+    const feed = createMockFeed({
+      gear: { kind: 'steps', values: [1, 2, 3], intervalMs: 1000 },
+      status: { kind: 'text', values: ['Idle', 'Busy'], intervalMs: 500 },
+    });
+    assert.deepEqual([0, 1000, 2000, 3000].map(t => feed.sample(t).gear.value), [1, 2, 3, 1]);
+    assert.deepEqual([0, 500, 1000].map(t => feed.sample(t).status.value), ['Idle', 'Busy', 'Idle']);
+    assert.equal(feed.sample(500).status.displayValue, 'Busy');
+  });
+
+  it('flips toggle channels', () => {
+    const feed = createMockFeed({ fan: { kind: 'toggle', initial: true, intervalMs: 1000 } });
+    assert.deepEqual([0, 999, 1000, 2000].map(t => feed.sample(t).fan.value), [true, true, false, true]);
+  });
+
+  it('produces number[] spectra within range without a displayValue', () => {
+    const feed = createMockFeed({ 'audio.fft': { kind: 'spectrum', bands: 12, min: 0, max: 1 } });
+    const sample = feed.sample(1234)['audio.fft'];
+    assert.ok(Array.isArray(sample.value));
+    assert.equal(sample.value.length, 12);
+    assert.ok(sample.value.every(v => v >= 0 && v <= 1));
+    assert.equal(sample.displayValue, undefined);
+  });
+
+  it('drops sensors out of the output', () => {
+    const feed = createMockFeed({ 'fan.rpm': { kind: 'sine', dropout: { probability: 0.5, intervalMs: 100 } } });
+    let present = 0;
+    for (let t = 0; t < 10_000; t += 100) {
+      if (feed.sample(t)['fan.rpm']) present++;
+    }
+    assert.ok(present > 20 && present < 80, `present in ${present} of 100 windows`);
+  });
+
+  it('never drops a channel with probability 0 and always drops with probability 1', () => {
+    const feed = createMockFeed({
+      kept: { kind: 'toggle', dropout: { probability: 0 } },
+      gone: { kind: 'toggle', dropout: { probability: 1 } },
+    });
+    for (let t = 0; t < 5000; t += 250) {
+      assert.ok('kept' in feed.sample(t));
+      assert.ok(!('gone' in feed.sample(t)));
+    }
+  });
+
+  it('rejects invalid channel definitions', () => {
+    assert.throws(() => createMockFeed({ gear: { kind: 'steps', values: [] } }), /gear.*values/);
+    assert.throws(() => createMockFeed({ x: { kind: 'sine', periodMs: 0 } }), /periodMs/);
+    assert.throws(() => createMockFeed({ x: { kind: 'noise' } as never }), /unknown kind 'noise'/);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertUnit, formatSensorValue, getConvertibleUnits, isMetaUnit } from '../format.js';
+
+describe('convertUnit', () => {
+  it('converts within a family', () => {
+    assert.equal(convertUnit(100, '°C', '°F'), 212);
+    assert.ok(Math.abs(convertUnit(32, '°F', 'K')! - 273.15) < 1e-9);
+    assert.equal(convertUnit(1.5e9, 'B', 'GB'), 1.5);
+    assert.equal(convertUnit(1, 'GiB', 'MiB'), 1024);
+    assert.equal(convertUnit(100, 'Mbit/s', 'MB/s'), 12.5);
+    assert.equal(convertUnit(5, 'RPM', 'RPM'), 5);
+  });
+
+  it('returns undefined across families and for unknown units', () => {
+    assert.equal(convertUnit(1, 'GB', '°F'), undefined);
+    assert.equal(convertUnit(1, 'RPM', 'Hz'), undefined);
+  });
+
+  it('lists the units a value converts to', () => {
+    assert.deepEqual(getConvertibleUnits('°F'), ['°C', '°F', 'K']);
+    assert.deepEqual(getConvertibleUnits('RPM'), []);
+  });
+});
+
+describe('formatSensorValue', () => {
+  it('uses the sensor value and unit without a format', () => {
+    assert.deepEqual(formatSensorValue({ value: 42.5, unit: '°C' }), { value: '42.5', unit: '°C', text: '42.5 °C' });
+    assert.equal(formatSensorValue({ value: 42, displayValue: '42.0', unit: '°C' }).text, '42.0 °C');
+    assert.deepEqual(formatSensorValue(undefined), { value: '', unit: '', text: '' });
+    assert.equal(formatSensorValue({ unit: '°C' }).text, '');
+  });
+
+  it('never shows meta units', () => {
+    assert.ok(isMetaUnit('text') && isMetaUnit('boolean') && !isMetaUnit('°C'));
+    assert.equal(formatSensorValue({ value: 'Gaming', unit: 'text' }).text, 'Gaming');
+    assert.equal(formatSensorValue({ value: true, unit: 'boolean' }).text, 'true');
+  });
+
+  it('rounds, groups and abbreviates numbers', () => {
+    const sensor = { value: 1234567.891, unit: 'RPM' };
+    assert.equal(formatSensorValue(sensor, { precision: 1 }).value, '1234567.9');
+    assert.equal(formatSensorValue(sensor, { precision: 0, thousandsSeparator: true, locale: 'en-US' }).value, '1,234,568');
+    assert.equal(formatSensorValue(sensor, { precision: 2, thousandsSeparator: true, locale: 'de-DE' }).value, '1.234.567,89');
+    assert.equal(formatSensorValue(sensor, { compact: true, locale: 'en-US' }).text, '1.2M RPM');
+  });
+
+  it('converts units when the sensor unit converts', () => {
+    assert.deepEqual(formatSensorValue({ value: 21.456, unit: '°C' }, { unit: '°F', precision: 1 }), {
+      value: '70.6',
+      unit: '°F',
+      text: '70.6 °F',
+    });
+    // Two decimals by default, instead of the host's stale displayValue
+    assert.equal(formatSensorValue({ value: 2.5e9, displayValue: '2500000000', unit: 'B' }, { unit: 'GiB' }).text, '2.33 GiB');
+    assert.equal(formatSensorValue({ value: 42, unit: 'RPM' }, { unit: '°F' }).text, '42 RPM');
+  });
+
+  it('formats every entry of a number array', () => {
+    assert.equal(formatSensorValue({ value: [0.25, 1] }, { precision: 1 }).value, '0.3, 1.0');
+  });
+
+  it('falls back to plain output for an invalid locale', () => {
+    assert.equal(formatSensorValue({ value: 1.5 }, { locale: 'not a locale!' }).value, '1.5');
+  });
+});
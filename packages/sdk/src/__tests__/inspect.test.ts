@@ -0,0 +1,160 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { inspectPluginZip } from '../tooling/inspect.js';
+import { packPlugin } from '../tooling/pack.js';
+import { createZip, type ZipEntry } from '../tooling/zip.js';
+
+const MANIFEST = {
+  type: 'element',
+  entry: 'dist/index.js',
+  elementName: 'test.inspect-fixture',
+  displayName: 'Inspect Fixture',
+  description: 'Fixture for inspect tests',
+  category: 'Utility',
+  icon: 'Search',
+  sensorTagCompatible: false,
+  defaultSize: { width: 100, height: 100 },
+  defaultProperties: {},
+};
+
+const PACKAGE = { name: '@test/element-inspect-fixture', version: '2.1.0', junctionrelay: MANIFEST };
+
+function zipOf(files: Record<string, string | object>): Buffer {
+  const entries: ZipEntry[] = Object.entries(files).map(([name, data]) => ({
+    name,
+    data: Buffer.from(typeof data === 'string' ? data : JSON.stringify(data)),
+  }));
+  return createZip(entries);
+}
+
+const VALID_FILES = {
+  'test.inspect-fixture/package.json': PACKAGE,
+  'test.inspect-fixture/dist/index.js': 'export {};',
+};
+
+let dir: string;
+
+describe('inspectPluginZip', () => {
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'jr-inspect-')); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('accepts a packed plugin and reports what discovery produces', async () => {
+    writeFileSync(join(dir, 'package.json'), JSON.stringify(PACKAGE));
+    mkdirSync(join(dir, 'dist'));
+    writeFileSync(join(dir, 'dist/index.js'), 'export {};');
+    const { outfile } = await packPlugin({ pluginDir: dir });
+
+    const report = await inspectPluginZip(outfile);
+    assert.deepEqual(report.errors, []);
+    assert.deepEqual(report.warnings, []);
+    assert.equal(report.valid, true);
+    assert.equal(report.folder, 'test.inspect-fixture');
+    assert.equal(report.install.status, 'installed');
+    assert.equal(report.discovered?.name, '@test/element-inspect-fixture');
+    assert.equal(report.discovered?.version, '2.1.0');
+    assert.equal(report.discovered?.path, join(report.install.elementsDir, 'test.inspect-fixture'));
+    assert.equal(report.discovered?.entry, join(report.install.elementsDir, 'test.inspect-fixture/dist/index.js'));
+    assert.equal(report.discovered?.manifest.elementName, 'test.inspect-fixture');
+
+    // The temporary elements directory is cleaned up
+    assert.equal(existsSync(report.install.elementsDir), false);
+  });
+
+  it('warns when there is no checksums.json', async () => {
+    const report = await inspectPluginZip(zipOf(VALID_FILES));
+    assert.equal(report.valid, true);
+    assert.match(report.warnings[0], /No checksums\.json/);
+  });
+
+  it('requires the top-level folder to match elementName', async () => {
+    const report = await inspectPluginZip(zipOf({
+      'hello-sensor/package.json': PACKAGE,
+      'hello-sensor/dist/index.js': 'export {};',
+    }));
+    assert.equal(report.valid, false);
+    assert.match(report.errors[0], /'hello-sensor' must match elementName 'test\.inspect-fixture'/);
+  });
+
+  it('rejects files outside a single top-level folder', async () => {
+    const loose = await inspectPluginZip(zipOf({ 'package.json': PACKAGE, 'dist/index.js': '' }));
+    assert.match(loose.errors[0], /found at the top level: package\.json/);
+    assert.equal(loose.install.status, 'refused');
+
+    const two = await inspectPluginZip(zipOf({ ...VALID_FILES, 'other/readme.txt': '' }));
+    assert.match(two.errors[0], /exactly one top-level folder, found: test\.inspect-fixture, other/);
+  });
+
+  it('refuses to extract path traversal entries', async () => {
+    const report = await inspectPluginZip(
+      zipOf({ ...VALID_FILES, 'test.inspect-fixture/../../evil.js': 'x', '/etc/cron.d/job': 'x' }),
+      { elementsDir: join(dir, 'elements') },
+    );
+    assert.deepEqual(report.errors.slice(0, 2), [
+      "Entry 'test.inspect-fixture/../../evil.js' would be extracted outside the plugin folder",
+      "Entry '/etc/cron.d/job' would be extracted outside the plugin folder",
+    ]);
+    assert.equal(report.install.status, 'refused');
+    assert.equal(existsSync(join(dir, 'elements')), false);
+  });
+
+  it('reports an invalid manifest and a missing entry', async () => {
+    const invalid = await inspectPluginZip(zipOf({
+      'test.inspect-fixture/package.json': { ...PACKAGE, junctionrelay: { ...MANIFEST, icon: '' } },
+      'test.inspect-fixture/dist/index.js': '',
+    }));
+    assert.equal(invalid.manifest, null);
+    assert.match(invalid.errors[0], /^Manifest: icon/);
+
+    const noEntry = await inspectPluginZip(zipOf({ 'test.inspect-fixture/package.json': PACKAGE }));
+    assert.equal(noEntry.valid, false);
+    assert.equal(noEntry.errors[0], "Entry 'dist/index.js' is missing from the zip");
+    assert.equal(noEntry.discovered, null);
+  });
+
+  it('verifies checksums', async () => {
+    const report = await inspectPluginZip(zipOf({
+      ...VALID_FILES,
+      'test.inspect-fixture/checksums.json': { 'package.json': '0'.repeat(64), 'dist/missing.js': '0'.repeat(64) },
+    }));
+    assert.deepEqual(report.errors, [
+      "Checksum mismatch for 'package.json'",
+      "checksums.json lists 'dist/missing.js', which is missing from the zip",
+    ]);
+    assert.deepEqual(report.warnings, ["'dist/index.js' is not listed in checksums.json"]);
+  });
+
+  it('installs into a given elements directory and skips a folder that already exists', async () => {
+    const elementsDir = join(dir, 'elements');
+    const zip = zipOf(VALID_FILES);
+
+    const first = await inspectPluginZip(zip, { elementsDir });
+    assert.equal(first.install.status, 'installed');
+    assert.equal(readFileSync(join(elementsDir, 'test.inspect-fixture/dist/index.js'), 'utf8'), 'export {};');
+
+    const second = await inspectPluginZip(zip, { elementsDir });
+    assert.equal(second.install.status, 'skipped');
+    assert.equal(second.install.path, null);
+    assert.equal(second.install.existingPath, join(elementsDir, 'test.inspect-fixture'));
+    assert.equal(second.valid, false);
+    assert.match(second.errors[0], /already exists/);
+  });
+
+  it('does not discover the folder a skipped install leaves in place', async () => {
+    const elementsDir = join(dir, 'elements-broken');
+    mkdirSync(join(elementsDir, 'test.inspect-fixture'), { recursive: true });
+    writeFileSync(join(elementsDir, 'test.inspect-fixture/package.json'), '{ "name": "something-else" }');
+
+    const report = await inspectPluginZip(zipOf(VALID_FILES), { elementsDir });
+    assert.equal(report.install.status, 'skipped');
+    assert.equal(report.discovered, null);
+    assert.equal(report.errors.length, 1);
+    assert.match(report.errors[0], /already exists/);
+  });
+
+  it('throws for a file that is not a zip', async () => {
+    await assert.rejects(inspectPluginZip(Buffer.from('not a zip at all, just some text')), /end of central directory/);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { lintManifest, isMuiIconName } from '../lint.js';
+
+const VALID_MANIFEST = {
+  type: 'element',
+  entry: 'dist/index.js',
+  elementName: 'junctionrelay.stock-ticker',
+  displayName: 'Stock Ticker',
+  description: 'Real-time stock price display for a SensorTag',
+  category: 'Data',
+  icon: 'TrendingUp',
+  emoji: '📈',
+  sensorTagCompatible: true,
+  defaultSize: { width: 300, height: 80 },
+  defaultProperties: { sensorTag: '' },
+};
+
+const ruleIds = (messages: { ruleId: string }[]) => messages.map(m => m.ruleId);
+
+describe('lintManifest', () => {
+  it('accepts a clean manifest with no warnings', () => {
+    const result = lintManifest(VALID_MANIFEST);
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it('reports validateManifest errors under manifest-schema', () => {
+    const result = lintManifest({ ...VALID_MANIFEST, category: 'Nope' });
+    assert.equal(result.valid, false);
+    assert.deepEqual(ruleIds(result.errors), ['manifest-schema']);
+    assert.ok(result.errors[0].message.includes('category'));
+  });
+
+  it('rejects unknown icons and suggests the closest name', () => {
+    const cases: [string, string][] = [
+      ['TrendingUpIcon', 'TrendingUp'],
+      ['sportsbar', 'SportsBar'],
+      ['Sensers', 'Sensors'],
+    ];
+    for (const [icon, suggestion] of cases) {
+      const result = lintManifest({ ...VALID_MANIFEST, icon });
+      assert.deepEqual(ruleIds(result.errors), ['icon-exists'], icon);
+      assert.equal(result.errors[0].path, 'icon');
+      assert.equal(result.errors[0].fix, `Use '${suggestion}'`);
+    }
+  });
+
+  it('points at the icon catalogue when nothing is close', () => {
+    const result = lintManifest({ ...VALID_MANIFEST, icon: 'Zzzzqqqqxxxx' });
+    assert.match(result.errors[0].fix ?? '', /material-icons/);
+  });
+
+  it('knows icon variants and standalone brand icons', () => {
+    for (const name of ['Sensors', 'SensorsOutlined', 'SportsBarTwoTone', 'GitHub', 'InsertChartOutlinedRounded']) {
+      assert.ok(isMuiIconName(name), name);
+    }
+    assert.equal(isMuiIconName('GitHubOutlined'), false);
+    assert.equal(isMuiIconName('SensorsIcon'), false);
+  });
+
+  it('rejects non-positive defaultSize', () => {
+    const result = lintManifest({ ...VALID_MANIFEST, defaultSize: { width: 0, height: -10 } });
+    assert.deepEqual(ruleIds(result.errors), ['default-size-positive', 'default-size-positive']);
+    assert.deepEqual(result.errors.map(e => e.path), ['defaultSize.width', 'defaultSize.height']);
+  });
+
+  it('warns about fractional and out-of-range defaultSize', () => {
+    const result = lintManifest({ ...VALID_MANIFEST, defaultSize: { width: 120.5, height: 5000 } });
+    assert.equal(result.valid, true);
+    assert.deepEqual(ruleIds(result.warnings), ['default-size-integer', 'default-size-range']);
+    assert.equal(result.warnings[0].fix, 'Use 121');
+    assert.match(result.warnings[1].fix ?? '', /1920px/);
+  });
+
+  it('rejects a non-string emoji and warns about multiple or non-emoji characters', () => {
+    assert.deepEqual(ruleIds(lintManifest({ ...VALID_MANIFEST, emoji: 42 }).errors), ['manifest-schema']);
+
+    const multiple = lintManifest({ ...VALID_MANIFEST, emoji: '🍺🍺' });
+    assert.deepEqual(ruleIds(multiple.warnings), ['emoji-single']);
+    assert.equal(multiple.warnings[0].fix, "Use '🍺'");
+
+    assert.deepEqual(ruleIds(lintManifest({ ...VALID_MANIFEST, emoji: 'B' }).warnings), ['emoji-single']);
+  });
+
+  it('accepts multi-codepoint emoji that render as one', () => {
+    for (const emoji of ['👋🏽', '🇳🇱', '👩‍💻', '1️⃣', '❤️']) {
+      assert.deepEqual(lintManifest({ ...VALID_MANIFEST, emoji }).warnings, [], emoji);
+    }
+  });
+
+  it('warns about UI naming convention violations with a corrected string', () => {
+    const result = lintManifest({
+      ...VALID_MANIFEST,
+      displayName: 'Frame Engine Clock',
+      description: 'Bind a sensor tag',
+      propertySchema: { sensorTag: { kind: 'sensorTag', label: 'Sensor-Tag' } },
+      sensorSlots: [{ name: 'primary', label: 'Primary', valueType: 'number', helperText: 'Any Sensortag' }],
+    });
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.warnings.map(w => w.path), [
+      'displayName',
+      'description',
+      'propertySchema.sensorTag.label',
+      'sensorSlots[0].helperText',
+    ]);
+    assert.ok(result.warnings.every(w => w.ruleId === 'naming-conventions'));
+    assert.equal(result.warnings[0].fix, `Write 'FrameEngine' as one word: "FrameEngine Clock"`);
+    assert.equal(result.warnings[1].fix, `Write 'SensorTag' as one word: "Bind a SensorTag"`);
+  });
+
+  it('does not flag words that merely start with a term', () => {
+    const result = lintManifest({ ...VALID_MANIFEST, description: 'Sensor tags and frame engines' });
+    assert.deepEqual(result.warnings, []);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PROPERTIES_VERSION_KEY } from '@junctionrelay/element-protocol';
+import { applyMigrations, createElementProperties } from '../migrations.js';
+
+// v1 → v2: showBubbles renamed to bubbles
+// v2 → v3: fillLevel changed from 0–1 fraction to 0–100 percent
+const migrate = (properties: Record<string, unknown>, fromVersion: number) => {
+  switch (fromVersion) {
+    case 1: {
+      const { showBubbles, ...rest } = properties;
+      return { ...rest, bubbles: showBubbles };
+    }
+    case 2:
+      return { ...properties, fillLevel: (properties.fillLevel as number) * 100 };
+    default:
+      throw new Error(`unknown version ${fromVersion}`);
+  }
+};
+
+const V1_PROPERTIES = { showBubbles: false, fillLevel: 0.5 };
+
+describe('applyMigrations', () => {
+  it('chains multiple steps from unversioned properties', () => {
+    const result = applyMigrations({ propertiesVersion: 3 }, migrate, V1_PROPERTIES);
+    assert.deepEqual(result.properties, { bubbles: false, fillLevel: 50, [PROPERTIES_VERSION_KEY]: 3 });
+    assert.equal(result.fromVersion, 1);
+    assert.equal(result.toVersion, 3);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it('starts from the stamped version', () => {
+    const result = applyMigrations(
+      { propertiesVersion: 3 },
+      migrate,
+      { bubbles: true, fillLevel: 0.25, [PROPERTIES_VERSION_KEY]: 2 },
+    );
+    assert.deepEqual(result.properties, { bubbles: true, fillLevel: 25, [PROPERTIES_VERSION_KEY]: 3 });
+    assert.equal(result.fromVersion, 2);
+  });
+
+  it('calls migrate once per step in order', () => {
+    const calls: number[] = [];
+    applyMigrations({ propertiesVersion: 4 }, (p, v) => { calls.push(v); return p; }, {});
+    assert.deepEqual(calls, [1, 2, 3]);
+  });
+
+  it('returns the same object when already current', () => {
+    const properties = { bubbles: true, [PROPERTIES_VERSION_KEY]: 3 };
+    const result = applyMigrations({ propertiesVersion: 3 }, migrate, properties);
+    assert.equal(result.properties, properties);
+  });
+
+  it('leaves a freshly placed element at the current version unchanged', () => {
+    const manifest = { propertiesVersion: 2, defaultProperties: { showBubbles: true, fillLevel: 50 } };
+    const properties = createElementProperties(manifest);
+    assert.deepEqual(properties, { showBubbles: true, fillLevel: 50, [PROPERTIES_VERSION_KEY]: 2 });
+    assert.notEqual(properties, manifest.defaultProperties);
+
+    const result = applyMigrations(manifest, migrate, properties);
+    assert.equal(result.properties, properties);
+    assert.equal(result.fromVersion, 2);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it('treats a missing propertiesVersion as version 1', () => {
+    const result = applyMigrations({}, undefined, V1_PROPERTIES);
+    assert.equal(result.properties, V1_PROPERTIES);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it('does not mutate the input', () => {
+    const input = { ...V1_PROPERTIES };
+    applyMigrations({ propertiesVersion: 3 }, migrate, input);
+    assert.deepEqual(input, V1_PROPERTIES);
+  });
+
+  it('warns when migrate is missing', () => {
+    const result = applyMigrations({ propertiesVersion: 2 }, undefined, V1_PROPERTIES);
+    assert.equal(result.properties, V1_PROPERTIES);
+    assert.equal(result.toVersion, 1);
+    assert.ok(result.warnings[0].includes('no migrate function'));
+  });
+
+  it('leaves properties from a newer plugin version untouched', () => {
+    const properties = { [PROPERTIES_VERSION_KEY]: 5 };
+    const result = applyMigrations({ propertiesVersion: 3 }, migrate, properties);
+    assert.equal(result.properties, properties);
+    assert.ok(result.warnings[0].includes('newer than the installed plugin'));
+  });
+
+  it('stops at the last successful step when a migration throws', () => {
+    const result = applyMigrations({ propertiesVersion: 4 }, migrate, V1_PROPERTIES);
+    assert.equal(result.toVersion, 3);
+    assert.equal(result.properties[PROPERTIES_VERSION_KEY], 3);
+    assert.ok(result.warnings[0].includes('migration from version 3 failed: unknown version 3'));
+  });
+
+  it('rejects a migration that returns a non-object', () => {
+    const result = applyMigrations({ propertiesVersion: 2 }, () => null as never, V1_PROPERTIES);
+    assert.equal(result.properties, V1_PROPERTIES);
+    assert.ok(result.warnings[0].includes('did not return a properties object'));
+  });
+
+  it('assumes version 1 for an invalid stamp', () => {
+    const result = applyMigrations({ propertiesVersion: 2 }, migrate, { showBubbles: true, [PROPERTIES_VERSION_KEY]: 'x' });
+    assert.equal(result.fromVersion, 1);
+    assert.equal(result.properties.bubbles, true);
+    assert.ok(result.warnings[0].includes('assuming 1'));
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { packPlugin } from '../tooling/pack.js';
+import { readZip } from '../tooling/zip.js';
+
+const MANIFEST = {
+  type: 'element',
+  entry: 'dist/index.js',
+  elementName: 'test.pack-fixture',
+  displayName: 'Pack Fixture',
+  description: 'Fixture for pack tests',
+  category: 'Utility',
+  icon: 'Archive',
+  sensorTagCompatible: false,
+  defaultSize: { width: 100, height: 100 },
+  defaultProperties: {},
+};
+
+let dir: string;
+
+function writePlugin(files: Record<string, string>, manifest: Record<string, unknown> = MANIFEST) {
+  writeFileSync(join(dir, 'package.json'), JSON.stringify({ name: 'fixture', version: '1.0.0', junctionrelay: manifest }));
+  for (const [name, contents] of Object.entries(files)) {
+    mkdirSync(join(dir, name, '..'), { recursive: true });
+    writeFileSync(join(dir, name), contents);
+  }
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+
+describe('packPlugin', () => {
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), 'jr-pack-')); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('zips package.json and the entry under the elementName folder with checksums', async () => {
+    writePlugin({ 'dist/index.js': 'export const Renderer = () => null;', 'dist/index.js.map': '{}' });
+    const result = await packPlugin({ pluginDir: dir });
+
+    assert.equal(result.outfile, join(dir, 'test.pack-fixture.zip'));
+    const entries = readZip(readFileSync(result.outfile));
+    assert.deepEqual(entries.map(e => e.name), [
+      'test.pack-fixture/package.json',
+      'test.pack-fixture/dist/index.js',
+      'test.pack-fixture/checksums.json',
+    ]);
+
+    const checksums = JSON.parse(entries[2].data.toString('utf8'));
+    assert.deepEqual(checksums, {
+      'package.json': sha256(readFileSync(join(dir, 'package.json'))),
+      'dist/index.js': sha256('export const Renderer = () => null;'),
+    });
+    assert.deepEqual(result.files.map(f => f.path), ['package.json', 'dist/index.js']);
+  });
+
+  it('packs a custom entry and declared assets, expanding folders in sorted order', async () => {
+    writePlugin(
+      {
+        'build/plugin.js': 'export {};',
+        'assets/b.png': 'png',
+        'assets/fonts/a.woff2': 'woff2',
+        'data/lookup.json': '{}',
+        'notes.txt': 'not packed',
+      },
+      { ...MANIFEST, entry: 'build/plugin.js', assets: ['data/lookup.json', './assets'] },
+    );
+    const result = await packPlugin({ pluginDir: dir });
+    assert.deepEqual(result.files.map(f => f.path), [
+      'package.json',
+      'build/plugin.js',
+      'assets/b.png',
+      'assets/fonts/a.woff2',
+      'data/lookup.json',
+    ]);
+    assert.equal(result.files[3].sha256, sha256('woff2'));
+  });
+
+  it('produces byte-identical zips from identical inputs', async () => {
+    writePlugin({ 'dist/index.js': 'export {};', 'assets/logo.svg': '<svg/>' }, { ...MANIFEST, assets: ['assets'] });
+    const first = readFileSync((await packPlugin({ pluginDir: dir, outfile: 'first.zip' })).outfile);
+
+    const later = new Date('2030-06-01T12:00:00Z');
+    utimesSync(join(dir, 'dist/index.js'), later, later);
+    utimesSync(join(dir, 'assets/logo.svg'), later, later);
+    const second = readFileSync((await packPlugin({ pluginDir: dir, outfile: 'second.zip' })).outfile);
+
+    assert.ok(first.equals(second));
+  });
+
+  it('fails when the manifest is invalid', async () => {
+    writePlugin({ 'dist/index.js': '' }, { ...MANIFEST, assets: ['../outside.txt'] });
+    await assert.rejects(packPlugin({ pluginDir: dir }), /Invalid manifest[\s\S]*assets\[0\]/);
+  });
+
+  it('fails when the entry has not been built', async () => {
+    writePlugin({});
+    await assert.rejects(packPlugin({ pluginDir: dir }), /Entry 'dist\/index\.js' not found/);
+  });
+
+  it('fails when an asset folder links outside the plugin folder', async () => {
+    const outside = mkdtempSync(join(tmpdir(), 'jr-outside-'));
+    try {
+      writeFileSync(join(outside, 'secret.txt'), 'secret');
+      writePlugin({ 'dist/index.js': '', 'assets/logo.svg': '<svg/>' }, { ...MANIFEST, assets: ['assets'] });
+      symlinkSync(join(outside, 'secret.txt'), join(dir, 'assets/secret.txt'));
+      await assert.rejects(packPlugin({ pluginDir: dir }), /assets\/secret\.txt links outside the plugin folder/);
+
+      rmSync(join(dir, 'assets/secret.txt'));
+      symlinkSync(outside, join(dir, 'assets/more'), 'dir');
+      await assert.rejects(packPlugin({ pluginDir: dir }), /assets\/more links outside the plugin folder/);
+    } finally {
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('packs symlinks that stay inside the plugin folder', async () => {
+    writePlugin({ 'dist/index.js': '', 'shared/logo.svg': '<svg/>', 'assets/.keep': '' }, { ...MANIFEST, assets: ['assets'] });
+    symlinkSync(join(dir, 'shared/logo.svg'), join(dir, 'assets/logo.svg'));
+    const result = await packPlugin({ pluginDir: dir });
+    assert.deepEqual(result.files.map(f => f.path), ['package.json', 'dist/index.js', 'assets/.keep', 'assets/logo.svg']);
+  });
+
+  it('fails when a declared asset is missing', async () => {
+    writePlugin({ 'dist/index.js': '' }, { ...MANIFEST, assets: ['fonts'] });
+    await assert.rejects(packPlugin({ pluginDir: dir }), /Asset 'fonts' not found/);
+  });
+});
@@ -0,0 +1,27 @@
+// Builds the repo's bundled plugins in memory, the same way their build scripts do
+import { fileURLToPath } from 'node:url';
+import { build } from 'esbuild';
+import { EXTERNAL_PACKAGES } from '@junctionrelay/element-protocol';
+
+export const PLUGIN_FIXTURES = [
+  'junctionrelay.hello-sensor',
+  'junctionrelay.beer-glass',
+  'junctionrelay.ascii-art',
+] as const;
+
+export async function buildPluginFixture(
+  name: (typeof PLUGIN_FIXTURES)[number],
+  external: readonly string[] = EXTERNAL_PACKAGES,
+): Promise<string> {
+  const result = await build({
+    entryPoints: [fileURLToPath(new URL(`../../../../plugins/${name}/src/index.tsx`, import.meta.url))],
+    bundle: true,
+    platform: 'browser',
+    format: 'esm',
+    jsx: 'automatic',
+    external: [...external],
+    write: false,
+    logLevel: 'silent',
+  });
+  return result.outputFiles[0].text;
+}
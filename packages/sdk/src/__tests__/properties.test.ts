@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveProperties } from '../properties.js';
+
+const MANIFEST = {
+  defaultProperties: {
+    sensorTag: '',
+    label: 'Hello',
+    fontSize: 24,
+    textColor: '#FFFFFF',
+    align: 'left',
+    showLabel: true,
+  },
+  propertySchema: {
+    sensorTag: { kind: 'sensorTag', label: 'SensorTag' },
+    label: { kind: 'string', label: 'Label' },
+    fontSize: { kind: 'number', label: 'Font Size', min: 8, max: 120 },
+    textColor: { kind: 'color', label: 'Text Color' },
+    align: {
+      kind: 'enum',
+      label: 'Align',
+      options: [{ value: 'left', label: 'Left' }, { value: 'right', label: 'Right' }],
+    },
+    showLabel: { kind: 'boolean', label: 'Show Label' },
+  },
+} as const;
+
+describe('resolveProperties', () => {
+  it('returns valid properties unchanged without warnings', () => {
+    const input = { ...MANIFEST.defaultProperties, label: 'CPU', fontSize: 48 };
+    const result = resolveProperties(MANIFEST, input);
+    assert.deepEqual(result.properties, input);
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it('fills missing keys from defaultProperties', () => {
+    const result = resolveProperties(MANIFEST, { sensorTag: 'cpu.temp' });
+    assert.equal(result.properties.sensorTag, 'cpu.temp');
+    assert.equal(result.properties.textColor, '#FFFFFF');
+    assert.equal(result.properties.fontSize, 24);
+    assert.ok(result.warnings.some(w => w.startsWith('textColor: missing')));
+  });
+
+  it('treats null and undefined input as empty', () => {
+    assert.deepEqual(resolveProperties(MANIFEST, null).properties, MANIFEST.defaultProperties);
+    assert.deepEqual(resolveProperties(MANIFEST, undefined).properties, MANIFEST.defaultProperties);
+  });
+
+  it('coerces numeric strings to numbers', () => {
+    const result = resolveProperties(MANIFEST, { ...MANIFEST.defaultProperties, fontSize: '36' });
+    assert.equal(result.properties.fontSize, 36);
+    assert.ok(result.warnings[0].includes('coerced'));
+  });
+
+  it('clamps numbers to the declared range', () => {
+    const result = resolveProperties(MANIFEST, { ...MANIFEST.defaultProperties, fontSize: 500 });
+    assert.equal(result.properties.fontSize, 120);
+    assert.equal(result.warnings.length, 1);
+  });
+
+  it('rejects non-numeric strings for numbers', () => {
+    const result = resolveProperties(MANIFEST, { ...MANIFEST.defaultProperties, fontSize: 'big' });
+    assert.equal(result.properties.fontSize, 24);
+    assert.ok(result.warnings[0].includes('not a valid number'));
+  });
+
+  it('coerces boolean-like values', () => {
+    const fromString = resolveProperties(MANIFEST, { ...MANIFEST.defaultProperties, showLabel: 'false' });
+    assert.equal(fromString.properties.showLabel, false);
+    const fromNumber = resolveProperties(MANIFEST, { ...MANIFEST.defaultProperties, showLabel: 1 });
+    assert.equal(fromNumber.properties.showLabel, true);
+    const rejected = resolveProperties(MANIFEST, { ...MANIFEST.defaultProperties, showLabel: 'maybe' });
+    assert.equal(rejected.properties.showLabel, true);
+  });
+
+  it('coerces numbers to strings for string kinds', () => {
+    const result = resolveProperties(MANIFEST, { ...MANIFEST.defaultProperties, label: 42 });
+    assert.equal(result.properties.label, '42');
+  });
+
+  it('rejects objects for string kinds', () => {
+    const result = resolveProperties(MANIFEST, { ...MANIFEST.defaultProperties, textColor: { r: 255 } });
+    assert.equal(result.properties.textColor, '#FFFFFF');
+  });
+
+  it('rejects enum values outside the options', () => {
+    const result = resolveProperties(MANIFEST, { ...MANIFEST.defaultProperties, align: 'center' });
+    assert.equal(result.properties.align, 'left');
+    assert.ok(result.warnings[0].includes('not a valid enum'));
+  });
+
+  it('matches enum values across string and number', () => {
+    const manifest = {
+      defaultProperties: { columns: 2 },
+      propertySchema: {
+        columns: { kind: 'enum', label: 'Columns', options: [{ value: 1, label: 'One' }, { value: 2, label: 'Two' }] },
+      },
+    } as const;
+    const result = resolveProperties(manifest, { columns: '1' });
+    assert.equal(result.properties.columns, 1);
+  });
+
+  it('infers kinds from defaults when there is no schema', () => {
+    const manifest = { defaultProperties: { size: 10, visible: true, name: 'x', extra: { a: 1 } } };
+    const result = resolveProperties(manifest, { size: '12', visible: 'true', name: 5, extra: 'anything' });
+    assert.deepEqual(result.properties, { size: 12, visible: true, name: '5', extra: 'anything' });
+    assert.equal(result.warnings.length, 3);
+  });
+
+  it('passes through keys that are not in defaultProperties', () => {
+    const result = resolveProperties(MANIFEST, { ...MANIFEST.defaultProperties, fontFamily: 'Tom Thumb' });
+    assert.equal((result.properties as Record<string, unknown>).fontFamily, 'Tom Thumb');
+    assert.deepEqual(result.warnings, []);
+  });
+
+  it('does not mutate the input', () => {
+    const input = { fontSize: '36' };
+    resolveProperties(MANIFEST, input);
+    assert.deepEqual(input, { fontSize: '36' });
+  });
+});
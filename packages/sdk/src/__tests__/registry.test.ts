@@ -0,0 +1,210 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DiscoveredElementPlugin, ElementPluginManifest } from '@junctionrelay/element-protocol';
+import { PluginRegistry, type PluginModuleLoader, type PluginRegistryEvent } from '../registry.js';
+
+const MANIFEST: ElementPluginManifest = {
+  type: 'element',
+  entry: 'dist/index.js',
+  elementName: 'test.clock',
+  displayName: 'Clock',
+  description: 'Fixture for registry tests',
+  category: 'Utility',
+  icon: 'Schedule',
+  sensorTagCompatible: false,
+  defaultSize: { width: 100, height: 100 },
+  defaultProperties: {},
+};
+
+function plugin(elementName: string, manifest: Partial<ElementPluginManifest> = {}): DiscoveredElementPlugin {
+  return {
+    name: `@test/${elementName}`,
+    version: '1.0.0',
+    path: `/elements/${elementName}`,
+    entry: `/elements/${elementName}/dist/index.js`,
+    manifest: { ...MANIFEST, elementName, ...manifest },
+  };
+}
+
+const Renderer = () => null;
+const PropertiesPanel = () => null;
+
+/** A loader that serves fixed modules by elementName and counts imports. */
+function fakeLoader(modules: Record<string, unknown>) {
+  const calls: string[] = [];
+  const loader: PluginModuleLoader = async (p) => {
+    calls.push(p.manifest.elementName);
+    const module = modules[p.manifest.elementName];
+    if (module instanceof Error) throw module;
+    return module;
+  };
+  return { loader, calls };
+}
+
+describe('PluginRegistry', () => {
+  it('registers discovered plugins as not loaded', () => {
+    const registry = new PluginRegistry({ loader: fakeLoader({}).loader });
+    registry.registerAll([plugin('test.clock'), plugin('test.timer')]);
+
+    assert.deepEqual(registry.getAll().map(d => d.manifest.elementName), ['test.clock', 'test.timer']);
+    assert.deepEqual(registry.get('test.clock'), {
+      manifest: plugin('test.clock').manifest,
+      name: '@test/test.clock',
+      version: '1.0.0',
+      loaded: false,
+    });
+    assert.equal(registry.has('test.nope'), false);
+  });
+
+  it('loads a bundle lazily, once, and exposes its exports', async () => {
+    const migrate = (p: Record<string, unknown>) => p;
+    const { loader, calls } = fakeLoader({ 'test.clock': { Renderer, PropertiesPanel, migrate } });
+    const registry = new PluginRegistry({ loader });
+    registry.register(plugin('test.clock'));
+    assert.deepEqual(calls, []);
+
+    const [a, b] = await Promise.all([registry.load('test.clock'), registry.load('test.clock')]);
+    await registry.load('test.clock');
+
+    assert.deepEqual(calls, ['test.clock']);
+    assert.equal(a, b);
+    assert.equal(a.loaded, true);
+    assert.equal(a.error, undefined);
+    assert.equal(a.Renderer, Renderer);
+    assert.equal(a.PropertiesPanel, PropertiesPanel);
+    assert.equal(a.migrate, migrate);
+    assert.equal(registry.get('test.clock'), a);
+  });
+
+  it('accepts memo/forwardRef component objects', async () => {
+    const memo = { $$typeof: Symbol.for('react.memo'), type: Renderer };
+    const registry = new PluginRegistry({ loader: fakeLoader({ 'test.clock': { Renderer: memo, PropertiesPanel } }).loader });
+    registry.register(plugin('test.clock'));
+    assert.equal((await registry.load('test.clock')).loaded, true);
+  });
+
+  it('records a loader that throws without rejecting', async () => {
+    const registry = new PluginRegistry({
+      loader: fakeLoader({ 'test.clock': new Error('SyntaxError: Unexpected token') }).loader,
+    });
+    registry.register(plugin('test.clock'));
+
+    const definition = await registry.load('test.clock');
+    assert.equal(definition.loaded, false);
+    assert.equal(definition.error, 'SyntaxError: Unexpected token');
+    assert.equal(definition.Renderer, undefined);
+  });
+
+  it('requires Renderer and PropertiesPanel exports', async () => {
+    const registry = new PluginRegistry({
+      loader: fakeLoader({ 'test.clock': { default: Renderer }, 'test.timer': { Renderer, PropertiesPanel: 'panel' } }).loader,
+    });
+    registry.registerAll([plugin('test.clock'), plugin('test.timer')]);
+
+    const [clock, timer] = await registry.loadAll();
+    assert.equal(
+      clock.error,
+      'Invalid plugin exports: Renderer is not exported as a component; PropertiesPanel is not exported (required unless the manifest declares a propertySchema)',
+    );
+    assert.equal(timer.error, 'Invalid plugin exports: PropertiesPanel is exported but is not a component');
+  });
+
+  it('allows a missing PropertiesPanel when the manifest declares a propertySchema', async () => {
+    const registry = new PluginRegistry({ loader: fakeLoader({ 'test.clock': { Renderer } }).loader });
+    registry.register(plugin('test.clock', { propertySchema: {} }));
+    const definition = await registry.load('test.clock');
+    assert.equal(definition.loaded, true);
+    assert.equal(definition.PropertiesPanel, undefined);
+  });
+
+  it('requires migrate when propertiesVersion is above 1', async () => {
+    const registry = new PluginRegistry({ loader: fakeLoader({ 'test.clock': { Renderer, PropertiesPanel } }).loader });
+    registry.register(plugin('test.clock', { propertiesVersion: 2 }));
+    assert.match((await registry.load('test.clock')).error ?? '', /migrate is not exported \(required for propertiesVersion 2\)/);
+  });
+
+  it('isolates failures: one broken plugin does not affect the others', async () => {
+    const registry = new PluginRegistry({
+      loader: fakeLoader({ 'test.clock': new Error('boom'), 'test.timer': { Renderer, PropertiesPanel } }).loader,
+    });
+    registry.registerAll([plugin('test.clock'), plugin('test.timer')]);
+    const results = await registry.loadAll();
+    assert.deepEqual(results.map(d => [d.loaded, d.error]), [[false, 'boom'], [true, undefined]]);
+  });
+
+  it('keeps a failure until reload()', async () => {
+    const modules: Record<string, unknown> = { 'test.clock': new Error('not yet') };
+    const { loader, calls } = fakeLoader(modules);
+    const registry = new PluginRegistry({ loader });
+    registry.register(plugin('test.clock'));
+
+    await registry.load('test.clock');
+    modules['test.clock'] = { Renderer, PropertiesPanel };
+    assert.equal((await registry.load('test.clock')).error, 'not yet');
+    assert.equal(calls.length, 1);
+
+    const reloaded = await registry.reload('test.clock');
+    assert.equal(reloaded.loaded, true);
+    assert.equal(reloaded.error, undefined);
+    assert.equal(calls.length, 2);
+  });
+
+  it('refuses plugins whose protocolVersion range excludes the host', async () => {
+    const { loader, calls } = fakeLoader({ 'test.clock': { Renderer, PropertiesPanel }, 'test.timer': { Renderer, PropertiesPanel } });
+    const registry = new PluginRegistry({ loader, hostProtocolVersion: '1.1.0' });
+    registry.registerAll([plugin('test.clock', { protocolVersion: '^1.2.0' }), plugin('test.timer', { protocolVersion: '^1.0.0' })]);
+
+    const [clock, timer] = await registry.loadAll();
+    assert.equal(clock.loaded, false);
+    assert.equal(clock.error, 'Plugin requires protocol ^1.2.0, but the host implements 1.1.0');
+    assert.equal(timer.loaded, true);
+    assert.deepEqual(calls, ['test.timer']);
+  });
+
+  it('rejects load() for an unregistered elementName', async () => {
+    const registry = new PluginRegistry({ loader: fakeLoader({}).loader });
+    await assert.rejects(registry.load('test.nope'), /Plugin 'test\.nope' is not registered/);
+    await assert.rejects(registry.reload('test.nope'), /not registered/);
+  });
+
+  it('emits change events with a new definition for each change', async () => {
+    const registry = new PluginRegistry({
+      loader: fakeLoader({ 'test.clock': { Renderer, PropertiesPanel }, 'test.timer': new Error('boom') }).loader,
+    });
+    const events: PluginRegistryEvent[] = [];
+    const unsubscribe = registry.subscribe(e => events.push(e));
+    registry.subscribe(() => { throw new Error('listener bug'); });
+
+    const registered = registry.register(plugin('test.clock'));
+    registry.register(plugin('test.timer'));
+    await registry.loadAll();
+    registry.unregister('test.timer');
+    unsubscribe();
+    registry.unregister('test.clock');
+
+    assert.deepEqual(events.map(e => `${e.type}:${e.elementName}`), [
+      'registered:test.clock',
+      'registered:test.timer',
+      'loading:test.clock',
+      'loading:test.timer',
+      'loaded:test.clock',
+      'failed:test.timer',
+      'unregistered:test.timer',
+    ]);
+    assert.notEqual(events[4].definition, registered);
+    assert.equal(registered.loaded, false);
+  });
+
+  it('ignores an import that finishes after the plugin was unregistered', async () => {
+    let resolve!: (module: unknown) => void;
+    const registry = new PluginRegistry({ loader: () => new Promise(r => { resolve = r; }) });
+    registry.register(plugin('test.clock'));
+
+    const loading = registry.load('test.clock');
+    registry.unregister('test.clock');
+    resolve({ Renderer, PropertiesPanel });
+    await loading;
+
+    assert.equal(registry.has('test.clock'), false);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ElementPluginManifest, PluginElementDefinition, RequiredPlugin } from '@junctionrelay/element-protocol';
+import { checkRequiredPlugins, collectRequiredPlugins } from '../requiredPlugins.js';
+
+const MANIFEST: ElementPluginManifest = {
+  type: 'element',
+  entry: 'dist/index.js',
+  elementName: 'junctionrelay.beer-glass',
+  displayName: 'Beer Glass',
+  description: 'Fixture',
+  category: 'Visualization',
+  icon: 'SportsBar',
+  sensorTagCompatible: true,
+  defaultSize: { width: 100, height: 170 },
+  defaultProperties: {},
+  authorName: 'JunctionRelay',
+};
+
+function installed(...plugins: [elementName: string, version: string, authorName?: string][]) {
+  return new Map<string, PluginElementDefinition>(plugins.map(([elementName, version, authorName]) => [
+    elementName,
+    {
+      manifest: { ...MANIFEST, elementName, authorName },
+      name: `@junctionrelay/element-${elementName.split('.')[1]}`,
+      version,
+      loaded: true,
+    },
+  ]));
+}
+
+const required = (elementName: string, minVersion: string): RequiredPlugin => ({
+  type: 'element',
+  elementName,
+  name: `@junctionrelay/element-${elementName.split('.')[1]}`,
+  minVersion,
+  author: 'JunctionRelay',
+});
+
+describe('collectRequiredPlugins', () => {
+  it('lists each plugin used by the layout once, skipping native types', () => {
+    const result = collectRequiredPlugins(
+      [
+        { type: 'sensor' },
+        { type: 'junctionrelay.beer-glass' },
+        { type: 'text' },
+        { type: 'junctionrelay.ascii-art' },
+        { type: 'junctionrelay.beer-glass' },
+      ],
+      installed(['junctionrelay.beer-glass', '1.2.0', 'JunctionRelay'], ['junctionrelay.ascii-art', '2.0.0-beta.1']),
+    );
+    assert.deepEqual(result, {
+      requiredPlugins: [
+        {
+          type: 'element',
+          elementName: 'junctionrelay.ascii-art',
+          name: '@junctionrelay/element-ascii-art',
+          minVersion: '2.0.0-beta.1',
+          author: '',
+        },
+        {
+          type: 'element',
+          elementName: 'junctionrelay.beer-glass',
+          name: '@junctionrelay/element-beer-glass',
+          minVersion: '1.2.0',
+          author: 'JunctionRelay',
+        },
+      ],
+      unregistered: [],
+    });
+  });
+
+  it('reports plugin elements that are not installed', () => {
+    const result = collectRequiredPlugins([{ type: 'acme.clock' }, { type: 'gauge' }], installed());
+    assert.deepEqual(result, { requiredPlugins: [], unregistered: ['acme.clock'] });
+  });
+});
+
+describe('checkRequiredPlugins', () => {
+  it('is satisfied by installed plugins at or above minVersion', () => {
+    const result = checkRequiredPlugins(
+      [required('junctionrelay.beer-glass', '1.2.0'), required('junctionrelay.ascii-art', '1.0.0-rc.1')],
+      installed(['junctionrelay.beer-glass', '1.10.0'], ['junctionrelay.ascii-art', '1.0.0']),
+    );
+    assert.deepEqual(result, { satisfied: true, issues: [] });
+  });
+
+  it('reports missing and outdated plugins', () => {
+    const result = checkRequiredPlugins(
+      [required('junctionrelay.beer-glass', '1.2.0'), required('acme.stock-ticker', '3.0.0')],
+      installed(['junctionrelay.beer-glass', '1.1.9']),
+    );
+    assert.equal(result.satisfied, false);
+    assert.deepEqual(result.issues.map(i => [i.kind, i.elementName, i.installedVersion]), [
+      ['outdated', 'junctionrelay.beer-glass', '1.1.9'],
+      ['missing', 'acme.stock-ticker', undefined],
+    ]);
+    assert.equal(
+      result.issues[0].message,
+      '@junctionrelay/element-beer-glass (junctionrelay.beer-glass) 1.1.9 is installed, but the layout needs 1.2.0 or later',
+    );
+    assert.match(result.issues[1].message, /is not installed — install version 3\.0\.0 or later/);
+  });
+
+  it('reports entries it cannot check as unknown instead of throwing', () => {
+    const result = checkRequiredPlugins(
+      [
+        required('junctionrelay.beer-glass', 'latest'),
+        required('junctionrelay.ascii-art', '1.0.0'),
+        { ...required('sensor', '1.0.0') },
+        null as unknown as RequiredPlugin,
+      ],
+      installed(['junctionrelay.beer-glass', '1.0.0'], ['junctionrelay.ascii-art', 'dev']),
+    );
+    assert.deepEqual(result.issues.map(i => [i.kind, i.elementName]), [
+      ['unknown', 'junctionrelay.beer-glass'],
+      ['unknown', 'junctionrelay.ascii-art'],
+      ['unknown', 'sensor'],
+      ['unknown', 'undefined'],
+    ]);
+    assert.match(result.issues[0].message, /'latest', which is not a valid semantic version/);
+    assert.match(result.issues[1].message, /installed at version 'dev'/);
+  });
+});
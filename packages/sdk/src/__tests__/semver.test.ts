@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareVersions, isValidVersion, isValidVersionRange, parseVersion, satisfiesVersionRange } from '../semver.js';
+
+describe('parseVersion', () => {
+  it('parses releases, prereleases and build metadata', () => {
+    assert.deepEqual(parseVersion('1.2.3'), { major: 1, minor: 2, patch: 3, prerelease: [] });
+    assert.deepEqual(parseVersion('v2.0.0-beta.11+sha.abc'), { major: 2, minor: 0, patch: 0, prerelease: ['beta', 11] });
+  });
+
+  it('rejects non-semver strings', () => {
+    for (const v of ['1.2', '1.2.3.4', '01.2.3', '1.2.3-', 'latest', '^1.2.3', '']) {
+      assert.equal(isValidVersion(v), false, v);
+    }
+  });
+});
+
+describe('compareVersions', () => {
+  it('orders versions by semver precedence', () => {
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.0.1',
+      '1.2.0',
+      '1.10.0',
+      '2.0.0',
+    ];
+    for (let i = 0; i < ordered.length - 1; i++) {
+      assert.equal(compareVersions(ordered[i], ordered[i + 1]), -1, `${ordered[i]} < ${ordered[i + 1]}`);
+      assert.equal(compareVersions(ordered[i + 1], ordered[i]), 1, `${ordered[i + 1]} > ${ordered[i]}`);
+    }
+  });
+
+  it('ignores build metadata and a leading v', () => {
+    assert.equal(compareVersions('1.0.0+build.1', 'v1.0.0'), 0);
+  });
+
+  it('throws for invalid versions', () => {
+    assert.throws(() => compareVersions('1.0', '1.0.0'), /Invalid semantic version '1\.0'/);
+  });
+});
+
+describe('satisfiesVersionRange', () => {
+  const cases: [range: string, inRange: string[], outOfRange: string[]][] = [
+    ['^1.1.0', ['1.1.0', '1.9.3'], ['1.0.9', '2.0.0', '2.0.0-beta']],
+    ['^0.2.3', ['0.2.3', '0.2.9'], ['0.3.0', '0.2.2']],
+    ['^0.0.3', ['0.0.3'], ['0.0.4']],
+    ['~1.2.0', ['1.2.0', '1.2.9'], ['1.3.0', '1.1.9']],
+    ['1.x', ['1.0.0', '1.99.0'], ['2.0.0', '0.9.0']],
+    ['1.2', ['1.2.0', '1.2.7'], ['1.3.0']],
+    ['*', ['0.0.1', '5.0.0'], []],
+    ['', ['1.0.0'], []],
+    ['>=1.0.0 <3', ['1.0.0', '2.9.9'], ['3.0.0', '0.9.9']],
+    ['>= 1.1', ['1.1.0'], ['1.0.9']],
+    ['>1.1', ['1.2.0'], ['1.1.9']],
+    ['<=1.1', ['1.1.9'], ['1.2.0']],
+    ['1.0.0 - 1.4', ['1.0.0', '1.4.9'], ['1.5.0']],
+    ['1.0.0', ['1.0.0', 'v1.0.0+build'], ['1.0.1']],
+    ['^1.0.0 || ^3.0.0', ['1.5.0', '3.1.0'], ['2.0.0']],
+    ['>=1.0.0-beta.2', ['1.0.0-beta.2', '1.0.0-rc.1', '1.0.0'], ['1.0.0-beta.1']],
+  ];
+
+  for (const [range, inRange, outOfRange] of cases) {
+    it(`handles '${range}'`, () => {
+      for (const v of inRange) assert.equal(satisfiesVersionRange(v, range), true, `${v} in ${range}`);
+      for (const v of outOfRange) assert.equal(satisfiesVersionRange(v, range), false, `${v} not in ${range}`);
+    });
+  }
+
+  it('validates ranges', () => {
+    for (const range of ['^1.0.0', '>=1 <2 || 3.x', '1.0.0 - 2']) assert.equal(isValidVersionRange(range), true, range);
+    for (const range of ['latest', '^', '>=1.0.0 <two', '1.0.0 -', '=>1.0.0']) assert.equal(isValidVersionRange(range), false, range);
+    assert.throws(() => satisfiesVersionRange('1.0.0', 'latest'), /Invalid version range 'latest'/);
+  });
+});
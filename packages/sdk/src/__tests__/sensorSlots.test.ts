@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getSensorSlotBindings, getSensorValueType, resolveSensorSlots } from '../sensorSlots.js';
+
+const MANIFEST = {
+  sensorSlots: [
+    { name: 'primary', label: 'Primary SensorTag', valueType: 'number', required: true },
+    { name: 'secondary', label: 'Secondary SensorTag', valueType: 'number' },
+    { name: 'caption', label: 'Caption SensorTag', valueType: 'string' },
+    { name: 'spectrum', label: 'Spectrum SensorTag', valueType: 'number[]' },
+  ],
+} as const;
+
+const RESOLVED = {
+  'cpu.temp': { value: 61, unit: '°C', label: 'CPU' },
+  'gpu.temp': { value: 72, unit: '°C', label: 'GPU' },
+  'host.name': { value: 'rig-01', unit: 'text' },
+  'audio.fft': { value: [0.1, 0.5, 0.9] },
+};
+
+describe('resolveSensorSlots', () => {
+  it('maps bound slots to resolved values', () => {
+    const slots = resolveSensorSlots(
+      MANIFEST,
+      { sensorSlots: { primary: 'cpu.temp', secondary: 'gpu.temp', caption: 'host.name', spectrum: 'audio.fft' } },
+      RESOLVED,
+    );
+    assert.equal(slots.primary, RESOLVED['cpu.temp']);
+    assert.equal(slots.secondary, RESOLVED['gpu.temp']);
+    assert.equal(slots.caption, RESOLVED['host.name']);
+    assert.equal(slots.spectrum, RESOLVED['audio.fft']);
+  });
+
+  it('returns undefined for unbound slots and missing values', () => {
+    const slots = resolveSensorSlots(MANIFEST, { sensorSlots: { primary: 'fan.rpm' } }, RESOLVED);
+    assert.equal(slots.primary, undefined);
+    assert.equal(slots.secondary, undefined);
+    assert.deepEqual(Object.keys(slots), ['primary', 'secondary', 'caption', 'spectrum']);
+  });
+
+  it('returns undefined when the value type does not match the slot', () => {
+    const slots = resolveSensorSlots(MANIFEST, { sensorSlots: { primary: 'host.name', caption: 'cpu.temp' } }, RESOLVED);
+    assert.equal(slots.primary, undefined);
+    assert.equal(slots.caption, undefined);
+  });
+
+  it('ignores bindings for undeclared slots', () => {
+    const slots = resolveSensorSlots(MANIFEST, { sensorSlots: { other: 'cpu.temp' } }, RESOLVED);
+    assert.equal('other' in slots, false);
+  });
+
+  it('returns an empty map for manifests without slots', () => {
+    assert.deepEqual(resolveSensorSlots({}, { sensorSlots: { primary: 'cpu.temp' } }, RESOLVED), {});
+  });
+});
+
+describe('getSensorSlotBindings', () => {
+  it('drops empty and non-string bindings', () => {
+    assert.deepEqual(
+      getSensorSlotBindings({ sensorSlots: { primary: 'cpu.temp', secondary: '', threshold: 5 } }),
+      { primary: 'cpu.temp' },
+    );
+  });
+
+  it('returns an empty map when sensorSlots is missing or malformed', () => {
+    assert.deepEqual(getSensorSlotBindings({}), {});
+    assert.deepEqual(getSensorSlotBindings({ sensorSlots: ['cpu.temp'] }), {});
+  });
+});
+
+describe('getSensorValueType', () => {
+  it('classifies each supported value type', () => {
+    assert.equal(getSensorValueType(1), 'number');
+    assert.equal(getSensorValueType('a'), 'string');
+    assert.equal(getSensorValueType(false), 'boolean');
+    assert.equal(getSensorValueType([1, 2]), 'number[]');
+    assert.equal(getSensorValueType(undefined), undefined);
+  });
+});
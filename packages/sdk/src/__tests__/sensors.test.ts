@@ -0,0 +1,164 @@
+import '../testingDom.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createElement } from 'react';
+import { InMemorySensorHistory, downsampleSamples, useSensorHistory } from '../sensors.js';
+import { createMockHost, mountElement } from '../testing.js';
+
+function createClock(start = 1_000_000) {
+  let t = start;
+  return {
+    now: () => t,
+    advance: (ms: number) => { t += ms; },
+  };
+}
+
+describe('InMemorySensorHistory', () => {
+  it('returns samples within the window, oldest first', () => {
+    const clock = createClock();
+    const history = new InMemorySensorHistory({ now: clock.now });
+    for (let i = 0; i < 5; i++) {
+      history.record('cpu.temp', 50 + i);
+      clock.advance(1000);
+    }
+    const samples = history.getHistory('cpu.temp', 3000);
+    assert.deepEqual(samples.map(s => s.value), [52, 53, 54]);
+    assert.ok(samples[0].timestamp < samples[2].timestamp);
+  });
+
+  it('returns an empty array for unknown SensorTags', () => {
+    const history = new InMemorySensorHistory();
+    assert.deepEqual(history.getHistory('nope', 60_000), []);
+  });
+
+  it('drops samples older than the retention period', () => {
+    const clock = createClock();
+    const history = new InMemorySensorHistory({ now: clock.now, retentionMs: 5000 });
+    history.record('cpu.temp', 1);
+    clock.advance(6000);
+    history.record('cpu.temp', 2);
+    assert.deepEqual(history.getHistory('cpu.temp', 60_000).map(s => s.value), [2]);
+  });
+
+  it('caps the number of samples per SensorTag', () => {
+    const clock = createClock();
+    const history = new InMemorySensorHistory({ now: clock.now, maxSamplesPerTag: 3 });
+    for (let i = 0; i < 10; i++) {
+      history.record('fan.rpm', i);
+      clock.advance(10);
+    }
+    assert.deepEqual(history.getHistory('fan.rpm', 60_000).map(s => s.value), [7, 8, 9]);
+  });
+
+  it('keeps late samples in timestamp order', () => {
+    const clock = createClock();
+    const history = new InMemorySensorHistory({ now: clock.now });
+    history.record('x', 'b', clock.now() - 100);
+    history.record('x', 'c', clock.now());
+    history.record('x', 'a', clock.now() - 200);
+    assert.deepEqual(history.getHistory('x', 1000).map(s => s.value), ['a', 'b', 'c']);
+  });
+
+  it('records every value in a resolvedValues map', () => {
+    const history = new InMemorySensorHistory();
+    history.recordAll({
+      'cpu.temp': { value: 61, unit: '°C' },
+      'audio.fft': { value: [1, 2, 3] },
+      'empty': { unit: 'text' },
+    });
+    assert.equal(history.getHistory('cpu.temp', 1000).length, 1);
+    assert.deepEqual(history.getHistory('audio.fft', 1000)[0].value, [1, 2, 3]);
+    assert.equal(history.getHistory('empty', 1000).length, 0);
+  });
+
+  it('notifies subscribers until they unsubscribe', () => {
+    const history = new InMemorySensorHistory();
+    const received: unknown[] = [];
+    const unsubscribe = history.subscribe('cpu.temp', s => received.push(s?.value));
+    history.record('cpu.temp', 1);
+    history.record('gpu.temp', 99);
+    unsubscribe();
+    history.record('cpu.temp', 2);
+    assert.deepEqual(received, [1]);
+  });
+
+  it('clears one SensorTag or all of them', () => {
+    const history = new InMemorySensorHistory();
+    history.record('a', 1);
+    history.record('b', 2);
+    history.clear('a');
+    assert.equal(history.getHistory('a', 1000).length, 0);
+    assert.equal(history.getHistory('b', 1000).length, 1);
+    history.clear();
+    assert.equal(history.getHistory('b', 1000).length, 0);
+  });
+
+  it('notifies the subscribers of cleared SensorTags', () => {
+    const history = new InMemorySensorHistory();
+    const received: string[] = [];
+    for (const tag of ['a', 'b', 'c']) history.subscribe(tag, s => received.push(`${tag}:${s?.value}`));
+    history.record('a', 1);
+    history.record('b', 2);
+
+    history.clear('a');
+    history.clear('c');
+    assert.deepEqual(received, ['a:1', 'b:2', 'a:undefined']);
+    history.clear();
+    assert.deepEqual(received, ['a:1', 'b:2', 'a:undefined', 'b:undefined']);
+  });
+});
+
+describe('downsampleSamples', () => {
+  const samples = Array.from({ length: 11 }, (_, i) => ({ timestamp: i, value: i }));
+
+  it('returns the input when already small enough', () => {
+    assert.equal(downsampleSamples(samples, 20), samples);
+  });
+
+  it('keeps evenly spaced samples including both ends', () => {
+    assert.deepEqual(downsampleSamples(samples, 3).map(s => s.value), [0, 5, 10]);
+    assert.deepEqual(downsampleSamples(samples, 6).map(s => s.value), [0, 2, 4, 6, 8, 10]);
+  });
+
+  it('keeps only the newest sample for a limit of 1', () => {
+    assert.deepEqual(downsampleSamples(samples, 1).map(s => s.value), [10]);
+  });
+});
+
+describe('useSensorHistory', () => {
+  const Values = () => createElement('b', null, useSensorHistory('cpu.temp', { windowMs: 10_000 }).map(s => s.value).join(','));
+
+  it('drops samples that leave the window while the sensor is quiet', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout'] });
+    const clock = createClock();
+    const sensors = new InMemorySensorHistory({ now: clock.now });
+    sensors.record('cpu.temp', 1);
+    clock.advance(5000);
+    sensors.record('cpu.temp', 2);
+
+    const element = await mountElement(Values, { host: createMockHost({ sensors }) });
+    assert.equal(element.html(), '<b>1,2</b>');
+
+    clock.advance(5001);
+    await element.act(() => t.mock.timers.tick(1000));
+    assert.equal(element.html(), '<b>2</b>');
+
+    clock.advance(5000);
+    await element.act(() => t.mock.timers.tick(1000));
+    assert.equal(element.html(), '<b></b>');
+    await element.unmount();
+  });
+
+  it('empties when the history is cleared', async () => {
+    const sensors = new InMemorySensorHistory();
+    sensors.record('cpu.temp', 1);
+    const element = await mountElement(Values, { host: createMockHost({ sensors }) });
+    assert.equal(element.html(), '<b>1</b>');
+
+    await element.act(() => sensors.record('cpu.temp', 2));
+    assert.equal(element.html(), '<b>1,2</b>');
+    await element.act(() => sensors.clear());
+    assert.equal(element.html(), '<b></b>');
+    await element.unmount();
+  });
+});
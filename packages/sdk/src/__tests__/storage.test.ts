@@ -0,0 +1,137 @@
+import { describe, it, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { ElementHostProvider } from '../context.js';
+import { JsonFileElementStorage } from '../jsonFileStorage.js';
+import { InMemoryElementStorage, usePersistentState } from '../storage.js';
+import { createMockHost } from '../testing.js';
+
+describe('InMemoryElementStorage', () => {
+  it('stores JSON copies per key', async () => {
+    const storage = new InMemoryElementStorage().forElement('test.counter', 'a');
+    const value = { count: 1, history: [1] };
+    await storage.set('state', value);
+    value.history.push(2);
+
+    const stored = await storage.get('state');
+    assert.deepEqual(stored, { count: 1, history: [1] });
+    assert.notEqual(stored, await storage.get('state'));
+    assert.equal(await storage.get('missing'), undefined);
+    assert.deepEqual(await storage.keys(), ['state']);
+
+    await storage.delete('state');
+    await storage.delete('state');
+    assert.deepEqual(await storage.keys(), []);
+  });
+
+  it('scopes storage by plugin and element id', async () => {
+    const store = new InMemoryElementStorage();
+    await store.forElement('test.counter', 'a').set('count', 1);
+    await store.forElement('test.counter', 'b').set('count', 2);
+    await store.forElement('test.other', 'a').set('count', 3);
+
+    assert.equal(await store.forElement('test.counter', 'a').get('count'), 1);
+    assert.deepEqual(store.snapshot(), {
+      'test.counter/a': { count: 1 },
+      'test.counter/b': { count: 2 },
+      'test.other/a': { count: 3 },
+    });
+
+    await store.deleteElement('test.counter', 'a');
+    assert.equal(await store.forElement('test.counter', 'a').get('count'), undefined);
+    assert.equal(await store.forElement('test.counter', 'b').get('count'), 2);
+  });
+
+  it('rejects values that are not JSON-serializable', async () => {
+    const storage = new InMemoryElementStorage().forElement('test.counter', 'a');
+    await assert.rejects(storage.set('fn', () => 1), /'fn': value is not JSON-serializable/);
+    await assert.rejects(storage.set('nothing', undefined), /not JSON-serializable/);
+  });
+
+  it('enforces the quota per element and keeps the previous value', async () => {
+    const store = new InMemoryElementStorage({ quotaBytes: 20 });
+    const storage = store.forElement('test.counter', 'a');
+    assert.equal(storage.quotaBytes, 20);
+
+    await storage.set('text', 'short');
+    await assert.rejects(storage.set('text', 'x'.repeat(20)), /exceeds the 20-byte quota of test\.counter\/a/);
+    assert.equal(await storage.get('text'), 'short');
+
+    // Another element has its own quota
+    await store.forElement('test.counter', 'b').set('text', 'x'.repeat(10));
+  });
+
+  it('counts multi-byte characters by their UTF-8 length', async () => {
+    // 'k' + '"é"' = 1 + 4 bytes
+    const storage = new InMemoryElementStorage({ quotaBytes: 5 }).forElement('test.counter', 'a');
+    await storage.set('k', 'é');
+    await assert.rejects(storage.set('k', 'éé'), /quota/);
+  });
+
+  it('notifies subscribers of the same element and key', async () => {
+    const store = new InMemoryElementStorage();
+    const panel = store.forElement('test.counter', 'a');
+    const renderer = store.forElement('test.counter', 'a');
+    const seen: unknown[] = [];
+    const unsubscribe = renderer.subscribe('max', value => seen.push(value));
+    store.forElement('test.counter', 'b').subscribe('max', () => assert.fail('other element notified'));
+
+    await panel.set('max', 42);
+    await panel.delete('max');
+    unsubscribe();
+    await panel.set('max', 7);
+    assert.deepEqual(seen, [42, undefined]);
+  });
+
+  it('starts from a snapshot', async () => {
+    const store = new InMemoryElementStorage({}, { 'test.counter/a': { count: 5 } });
+    assert.equal(await store.forElement('test.counter', 'a').get('count'), 5);
+  });
+});
+
+describe('JsonFileElementStorage', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'jr-storage-'));
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('persists every change and reloads it', async () => {
+    const file = join(dir, 'nested', 'storage.json');
+    const store = await JsonFileElementStorage.open(file);
+    const storage = store.forElement('test.counter', 'a');
+    await storage.set('count', 1);
+    await Promise.all([storage.set('count', 2), storage.set('label', 'x')]);
+    await storage.delete('label');
+
+    assert.deepEqual(JSON.parse(readFileSync(file, 'utf8')), { 'test.counter/a': { count: 2 } });
+    const reopened = await JsonFileElementStorage.open(file);
+    assert.equal(await reopened.forElement('test.counter', 'a').get('count'), 2);
+  });
+
+  it('rejects files that are not a storage snapshot', async () => {
+    const file = join(dir, 'bad.json');
+    writeFileSync(file, '{ nope');
+    await assert.rejects(JsonFileElementStorage.open(file), /is not valid JSON/);
+    writeFileSync(file, '{"test.counter/a": 5}');
+    await assert.rejects(JsonFileElementStorage.open(file), /must map each element to an object/);
+  });
+});
+
+describe('usePersistentState', () => {
+  const Counter = () => {
+    const [count, , { loaded }] = usePersistentState('count', 0);
+    return createElement('span', null, `${count} ${loaded}`);
+  };
+  const render = (host: ReturnType<typeof createMockHost>) =>
+    renderToStaticMarkup(createElement(ElementHostProvider, { value: host }, createElement(Counter)));
+
+  it('renders the initial value until the stored value loads', () => {
+    assert.equal(render(createMockHost()), '<span>0 false</span>');
+  });
+
+  it('is loaded immediately on hosts without storage', () => {
+    assert.equal(render(createMockHost({ storage: undefined })), '<span>0 true</span>');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { STYLE_ISOLATION_RULES } from '@junctionrelay/element-protocol';
+import { checkStyleIsolation } from '../tooling/styleIsolation.js';
+import { PLUGIN_FIXTURES, buildPluginFixture } from './pluginFixtures.js';
+
+const ruleIds = (source: string) => checkStyleIsolation(source).map(v => v.ruleId);
+
+describe('checkStyleIsolation', () => {
+  for (const name of PLUGIN_FIXTURES) {
+    it(`passes the bundled ${name} plugin`, async () => {
+      assert.deepEqual(checkStyleIsolation(await buildPluginFixture(name)), []);
+    });
+  }
+
+  it('flags <style> elements created through the DOM, JSX and HTML', () => {
+    assert.deepEqual(ruleIds(`const s = document.createElement("style");`), ['no-style-element']);
+    assert.deepEqual(ruleIds(`return jsx('style', { children: css });`), ['no-style-element']);
+    assert.deepEqual(ruleIds('el.innerHTML = `<style>.a{}</style>`;'), ['no-style-element']);
+  });
+
+  it('flags stylesheet links', () => {
+    assert.deepEqual(ruleIds(`const l = document.createElement("link"); l.rel = "stylesheet";`), ['no-stylesheet-link']);
+    assert.deepEqual(ruleIds(`link.setAttribute("rel", 'stylesheet');`), ['no-stylesheet-link']);
+    assert.deepEqual(ruleIds(`jsx("link", { rel: "stylesheet", href: u })`), ['no-stylesheet-link']);
+    assert.deepEqual(ruleIds(`head.insertAdjacentHTML("beforeend", '<link rel="stylesheet" href="x.css">')`), ['no-stylesheet-link']);
+  });
+
+  it('flags writes to document.body.style', () => {
+    assert.deepEqual(ruleIds(`document.body.style.background = "black";`), ['no-body-style']);
+    assert.deepEqual(ruleIds(`document.documentElement.style.setProperty("--x", "1");`), ['no-body-style']);
+  });
+
+  it('flags Google Fonts URLs', () => {
+    const violations = checkStyleIsolation(`const url = "https://fonts.googleapis.com/css2?family=Inter";`);
+    assert.deepEqual(violations.map(v => v.ruleId), ['no-google-fonts-url']);
+    assert.equal(violations[0].rule, STYLE_ISOLATION_RULES[1]);
+    assert.match(violations[0].message, /loadGoogleFont/);
+  });
+
+  it('flags fonts registered without the host', () => {
+    assert.deepEqual(ruleIds(`const f = new FontFace("Pixel", "url(x.woff2)");`), ['no-font-face']);
+    assert.deepEqual(ruleIds(`document.fonts.add(face);`), ['no-font-face']);
+    assert.deepEqual(ruleIds('const css = `@font-face { font-family: Pixel; src: url(x.woff2) }`;'), ['no-font-face']);
+  });
+
+  it('flags global Emotion and MUI styles', () => {
+    assert.deepEqual(ruleIds(`import { Global as G, css } from "@emotion/react";`), ['no-global-styles']);
+    assert.deepEqual(ruleIds(`import { Box, GlobalStyles } from "@mui/material";`), ['no-global-styles']);
+    assert.deepEqual(ruleIds(`import GS from "@mui/material/GlobalStyles";`), ['no-global-styles']);
+    assert.deepEqual(ruleIds(`injectGlobal\`body { margin: 0 }\`;`), ['no-global-styles', 'no-broad-selectors']);
+  });
+
+  it('flags broad selectors and !important on inherited properties', () => {
+    assert.deepEqual(ruleIds('const css = `* { box-sizing: border-box }`;'), ['no-broad-selectors']);
+    assert.deepEqual(ruleIds('const css = `div { color: red !important; }`;'), ['no-important-inherited']);
+    assert.deepEqual(ruleIds('const css = `body { font-family: x !important }`;'), ['no-broad-selectors', 'no-important-inherited']);
+    assert.deepEqual(ruleIds(`const styles = { body: { fontSize: "12px !important" } };`), ['no-important-inherited']);
+  });
+
+  it('allows scoped selectors and non-inherited !important', () => {
+    assert.deepEqual(ruleIds('const css = `.my-plugin-root { color: red !important }`;'), []);
+    assert.deepEqual(ruleIds('const css = `div { width: 10px !important }`;'), []);
+    assert.deepEqual(ruleIds(`const style = { color: "red !important" };`), []);
+  });
+
+  it('ignores comments and unrelated strings', () => {
+    const source = [
+      '// document.createElement("style")',
+      '/* see https://fonts.googleapis.com */',
+      'const label = "document.body.style";',
+      'const re = /createElement\\("style"\\)/;',
+      'const ratio = a / b / c;',
+    ].join('\n');
+    assert.deepEqual(checkStyleIsolation(source), []);
+  });
+
+  it('reports offsets, line/column and snippets', () => {
+    const source = 'const a = 1;\n  document.body.style.color = "red";';
+    const [violation] = checkStyleIsolation(source);
+    assert.equal(violation.offset, source.indexOf('document'));
+    assert.equal(violation.line, 2);
+    assert.equal(violation.column, 3);
+    assert.equal(violation.snippet, 'document.body.style');
+    assert.equal(violation.rule, STYLE_ISOLATION_RULES[0]);
+  });
+
+  it('reads strings inside template substitutions', () => {
+    assert.deepEqual(ruleIds('const x = `a ${createElement("style")} b`;'), ['no-style-element']);
+  });
+});
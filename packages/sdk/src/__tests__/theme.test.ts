@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import type { ElementHostTheme, ElementPluginManifest } from '@junctionrelay/element-protocol';
+import { ElementHostProvider } from '../context.js';
+import { createMockHost } from '../testing.js';
+import {
+  DEFAULT_ELEMENT_THEME,
+  parseThemeColor,
+  resolveThemeColor,
+  resolveThemeColors,
+  useElementTheme,
+} from '../theme.js';
+
+const LIGHT: ElementHostTheme = {
+  ...DEFAULT_ELEMENT_THEME,
+  mode: 'light',
+  palette: { ...DEFAULT_ELEMENT_THEME.palette, accent: '#D97706', text: '#111827' },
+};
+
+describe('parseThemeColor', () => {
+  it('returns the token of known theme references only', () => {
+    assert.equal(parseThemeColor('theme:accent'), 'accent');
+    assert.equal(parseThemeColor('theme:textSecondary'), 'textSecondary');
+    assert.equal(parseThemeColor('theme:purple'), undefined);
+    assert.equal(parseThemeColor('#F59E0B'), undefined);
+  });
+});
+
+describe('resolveThemeColor', () => {
+  it('looks tokens up in the palette and passes CSS colors through', () => {
+    assert.equal(resolveThemeColor('theme:accent', LIGHT), '#D97706');
+    assert.equal(resolveThemeColor('rgba(0,0,0,0.5)', LIGHT), 'rgba(0,0,0,0.5)');
+    assert.equal(resolveThemeColor('transparent', LIGHT), 'transparent');
+  });
+
+  it('uses the default theme without one and the fallback for unknown tokens', () => {
+    assert.equal(resolveThemeColor('theme:text'), DEFAULT_ELEMENT_THEME.palette.text);
+    assert.equal(resolveThemeColor('theme:purple', LIGHT), 'currentColor');
+    assert.equal(resolveThemeColor('theme:purple', LIGHT, '#000'), '#000');
+  });
+});
+
+describe('resolveThemeColors', () => {
+  it('resolves only color properties when the manifest has a schema', () => {
+    const manifest: Pick<ElementPluginManifest, 'propertySchema'> = {
+      propertySchema: {
+        textColor: { kind: 'color', label: 'Text Color' },
+        label: { kind: 'string', label: 'Label' },
+      },
+    };
+    const props = { textColor: 'theme:text', label: 'theme:text', fontSize: 12 };
+    assert.deepEqual(resolveThemeColors(manifest, props, LIGHT), { textColor: '#111827', label: 'theme:text', fontSize: 12 });
+    assert.equal(props.textColor, 'theme:text');
+  });
+
+  it('resolves every theme reference without a schema', () => {
+    assert.deepEqual(resolveThemeColors({}, { a: 'theme:accent', b: '#fff' }, LIGHT), { a: '#D97706', b: '#fff' });
+  });
+});
+
+describe('useElementTheme', () => {
+  const Probe = () => createElement('span', null, useElementTheme().mode);
+  const render = (host: ReturnType<typeof createMockHost>) =>
+    renderToStaticMarkup(createElement(ElementHostProvider, { value: host }, createElement(Probe)));
+
+  it("returns the host's theme, or the default on hosts without one", () => {
+    assert.equal(render(createMockHost({ theme: LIGHT })), '<span>light</span>');
+    assert.equal(render(createMockHost({ theme: undefined })), '<span>dark</span>');
+  });
+});
@@ -126,6 +126,51 @@ describe('validateManifest', () => {
     assert.equal(result.valid, false);
     assert.ok(result.errors.length >= 8);
   });
+
+  it('accepts an optional emoji and rejects non-string values', () => {
+    assert.equal(validateManifest({ ...VALID_MANIFEST, emoji: '📈' }).valid, true);
+    const result = validateManifest({ ...VALID_MANIFEST, emoji: 42 });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors[0].includes('emoji'));
+  });
+
+  it('accepts theme token references for color properties and rejects unknown tokens', () => {
+    const manifest = (textColor: string) => ({
+      ...VALID_MANIFEST,
+      defaultProperties: { textColor },
+      propertySchema: { textColor: { kind: 'color', label: 'Text Color' } },
+    });
+    assert.equal(validateManifest(manifest('theme:accent')).valid, true);
+    assert.equal(validateManifest(manifest('#FFFFFF')).valid, true);
+    assert.equal(validateManifest(manifest('theme:purple')).valid, false);
+  });
+
+  it('accepts an optional protocolVersion range and rejects invalid ones', () => {
+    for (const protocolVersion of ['^1.1.0', '>=1.0.0 <2.0.0', '1.x || 2.x']) {
+      assert.equal(validateManifest({ ...VALID_MANIFEST, protocolVersion }).valid, true, protocolVersion);
+    }
+    for (const protocolVersion of ['latest', '^1.a', 1]) {
+      const result = validateManifest({ ...VALID_MANIFEST, protocolVersion });
+      assert.equal(result.valid, false, String(protocolVersion));
+      assert.ok(result.errors[0].includes('protocolVersion'));
+    }
+  });
+
+  it('accepts relative asset paths and rejects paths outside the plugin folder', () => {
+    assert.equal(validateManifest({ ...VALID_MANIFEST, assets: ['assets', 'data/lookup.json'] }).valid, true);
+
+    const result = validateManifest({ ...VALID_MANIFEST, assets: ['../secret.txt', '/etc/passwd', 'C:\\fonts\\a.ttf', 7] });
+    assert.deepEqual(result.errors.map(e => e.slice(0, 9)), ['assets[0]', 'assets[1]', 'assets[2]', 'assets[3]']);
+
+    assert.equal(validateManifest({ ...VALID_MANIFEST, assets: 'assets' }).valid, false);
+    assert.equal(validateManifest({ ...VALID_MANIFEST, entry: '../dist/index.js' }).valid, false);
+  });
+
+  it('rejects asset paths that name the whole plugin folder', () => {
+    const result = validateManifest({ ...VALID_MANIFEST, assets: ['.', './', './.', 'assets/..'] });
+    assert.deepEqual(result.errors.map(e => e.slice(0, 9)), ['assets[0]', 'assets[1]', 'assets[2]', 'assets[3]']);
+    assert.equal(validateManifest({ ...VALID_MANIFEST, entry: './' }).valid, false);
+  });
 });
 
 describe('parsePackageManifest', () => {
@@ -158,3 +203,222 @@ describe('parsePackageManifest', () => {
     assert.ok(result.errors.length > 0);
   });
 });
+
+describe('validateManifest propertySchema', () => {
+  const WITH_SCHEMA = {
+    ...VALID_MANIFEST,
+    propertySchema: {
+      sensorTag: { kind: 'sensorTag', label: 'SensorTag' },
+      symbol: { kind: 'string', label: 'Symbol', default: 'AAPL' },
+      showSparkline: { kind: 'boolean', label: 'Show Sparkline' },
+    },
+  };
+
+  it('accepts a schema that matches defaultProperties', () => {
+    const result = validateManifest(WITH_SCHEMA);
+    assert.deepEqual(result.errors, []);
+  });
+
+  it('accepts every property kind', () => {
+    const result = validateManifest({
+      ...VALID_MANIFEST,
+      defaultProperties: {
+        label: 'Hi',
+        fontSize: 24,
+        visible: true,
+        color: '#FFFFFF',
+        align: 'left',
+        sensorTag: '',
+        fontFamily: 'Tom Thumb',
+        format: { precision: 1, unit: '°F' },
+      },
+      propertySchema: {
+        label: { kind: 'string', label: 'Label' },
+        fontSize: { kind: 'number', label: 'Font Size', min: 8, max: 120, unit: 'px' },
+        visible: { kind: 'boolean', label: 'Visible' },
+        color: { kind: 'color', label: 'Color' },
+        align: {
+          kind: 'enum',
+          label: 'Align',
+          options: [{ value: 'left', label: 'Left' }, { value: 'right', label: 'Right' }],
+        },
+        sensorTag: { kind: 'sensorTag', label: 'SensorTag' },
+        fontFamily: { kind: 'font', label: 'Font', pixelOnly: true },
+        format: { kind: 'displayFormat', label: 'Format', default: { precision: 1, unit: '°F' } },
+      },
+    });
+    assert.deepEqual(result.errors, []);
+  });
+
+  it('rejects a non-object schema', () => {
+    const result = validateManifest({ ...VALID_MANIFEST, propertySchema: [] });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('propertySchema must be an object')));
+  });
+
+  it('rejects unknown kinds', () => {
+    const result = validateManifest({
+      ...WITH_SCHEMA,
+      propertySchema: { symbol: { kind: 'date', label: 'Symbol' } },
+    });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('propertySchema.symbol.kind')));
+  });
+
+  it('rejects a missing label', () => {
+    const result = validateManifest({
+      ...WITH_SCHEMA,
+      propertySchema: { symbol: { kind: 'string' } },
+    });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('propertySchema.symbol.label')));
+  });
+
+  it('rejects inverted number ranges', () => {
+    const result = validateManifest({
+      ...VALID_MANIFEST,
+      defaultProperties: { size: 10 },
+      propertySchema: { size: { kind: 'number', label: 'Size', min: 50, max: 5 } },
+    });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('min must be less than or equal to max')));
+  });
+
+  it('rejects enum without options', () => {
+    const result = validateManifest({
+      ...VALID_MANIFEST,
+      defaultProperties: { align: 'left' },
+      propertySchema: { align: { kind: 'enum', label: 'Align', options: [] } },
+    });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('options must be a non-empty array')));
+  });
+
+  it('rejects schema keys missing from defaultProperties', () => {
+    const result = validateManifest({
+      ...WITH_SCHEMA,
+      propertySchema: { ...WITH_SCHEMA.propertySchema, color: { kind: 'color', label: 'Color' } },
+    });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('propertySchema.color has no matching key')));
+  });
+
+  it('rejects defaultProperties values of the wrong kind', () => {
+    const result = validateManifest({
+      ...WITH_SCHEMA,
+      defaultProperties: { ...VALID_MANIFEST.defaultProperties, showSparkline: 'yes' },
+    });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('defaultProperties.showSparkline')));
+  });
+
+  it('rejects defaultProperties values outside the number range', () => {
+    const result = validateManifest({
+      ...VALID_MANIFEST,
+      defaultProperties: { size: 500 },
+      propertySchema: { size: { kind: 'number', label: 'Size', min: 0, max: 100 } },
+    });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('defaultProperties.size')));
+  });
+
+  it('rejects malformed displayFormat values', () => {
+    const schema = { format: { kind: 'displayFormat', label: 'Format' } };
+    for (const format of ['0.0', { precision: -1 }, { precision: 1.5 }, { compact: 'yes' }, { unit: 5 }]) {
+      const result = validateManifest({ ...VALID_MANIFEST, defaultProperties: { format }, propertySchema: schema });
+      assert.equal(result.valid, false, JSON.stringify(format));
+      assert.ok(result.errors.some(e => e.includes('defaultProperties.format')));
+    }
+  });
+
+  it('rejects a schema default that disagrees with defaultProperties', () => {
+    const result = validateManifest({
+      ...WITH_SCHEMA,
+      propertySchema: { ...WITH_SCHEMA.propertySchema, symbol: { kind: 'string', label: 'Symbol', default: 'MSFT' } },
+    });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('propertySchema.symbol.default does not match')));
+  });
+});
+
+describe('validateManifest propertiesVersion', () => {
+  it('accepts a positive integer', () => {
+    assert.equal(validateManifest({ ...VALID_MANIFEST, propertiesVersion: 3 }).valid, true);
+  });
+
+  it('rejects zero, fractions and strings', () => {
+    for (const propertiesVersion of [0, 1.5, '2']) {
+      const result = validateManifest({ ...VALID_MANIFEST, propertiesVersion });
+      assert.equal(result.valid, false);
+      assert.ok(result.errors.some(e => e.includes('propertiesVersion')));
+    }
+  });
+
+  it('rejects the reserved version key in defaultProperties', () => {
+    const result = validateManifest({
+      ...VALID_MANIFEST,
+      defaultProperties: { ...VALID_MANIFEST.defaultProperties, _propertiesVersion: 1 },
+    });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('reserved key')));
+  });
+});
+
+describe('validateManifest sensorSlots', () => {
+  const SLOTS = [
+    { name: 'primary', label: 'Primary SensorTag', valueType: 'number', required: true },
+    { name: 'threshold', label: 'Threshold SensorTag', valueType: 'number' },
+  ];
+
+  it('accepts valid slots', () => {
+    const result = validateManifest({ ...VALID_MANIFEST, sensorSlots: SLOTS });
+    assert.deepEqual(result.errors, []);
+  });
+
+  it('rejects slot names that collide with defaultProperties keys', () => {
+    const result = validateManifest({
+      ...VALID_MANIFEST,
+      sensorSlots: [...SLOTS, { name: 'symbol', label: 'Symbol', valueType: 'string' }],
+    });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes("'symbol' collides with a defaultProperties key")));
+  });
+
+  it('rejects defaultProperties that set the slot bindings', () => {
+    const result = validateManifest({
+      ...VALID_MANIFEST,
+      defaultProperties: { ...VALID_MANIFEST.defaultProperties, sensorSlots: { primary: 'cpu.temp' } },
+      sensorSlots: SLOTS,
+    });
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, ["defaultProperties must not contain the reserved key 'sensorSlots'"]);
+  });
+
+  it('rejects duplicate slot names', () => {
+    const result = validateManifest({ ...VALID_MANIFEST, sensorSlots: [...SLOTS, SLOTS[0]] });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('declared more than once')));
+  });
+
+  it('rejects invalid names and value types', () => {
+    const result = validateManifest({
+      ...VALID_MANIFEST,
+      sensorSlots: [{ name: 'Primary-Slot', label: 'Primary', valueType: 'float' }],
+    });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('sensorSlots[0].name')));
+    assert.ok(result.errors.some(e => e.includes('sensorSlots[0].valueType')));
+  });
+
+  it('requires sensorTagCompatible', () => {
+    const result = validateManifest({ ...VALID_MANIFEST, sensorTagCompatible: false, sensorSlots: SLOTS });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('requires sensorTagCompatible')));
+  });
+
+  it('rejects a non-array', () => {
+    const result = validateManifest({ ...VALID_MANIFEST, sensorSlots: { primary: 'number' } });
+    assert.equal(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('sensorSlots must be an array')));
+  });
+});
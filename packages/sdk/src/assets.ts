@@ -0,0 +1,127 @@
+// ============================================================================
+// Plugin assets: reference ElementHostAssets scoped to one plugin folder
+// ============================================================================
+
+import type {
+  DiscoveredElementPlugin,
+  ElementHostAssets,
+  ElementPluginManifest,
+} from '@junctionrelay/element-protocol';
+
+/** Loads a font file into the document under a family name. */
+export type FontFaceLoader = (fontFamily: string, url: string) => Promise<void>;
+
+/** Options for createPluginAssets(). */
+export interface PluginAssetsOptions {
+  /**
+   * URL of the plugin folder (e.g. '/elements/junctionrelay.beer-glass/').
+   * Default: the `file://` URL of `plugin.path`, for hosts that load
+   * plugins from disk.
+   */
+  baseUrl?: string;
+
+  /** Font loader (default: the browser's FontFace API). */
+  loadFontFace?: FontFaceLoader;
+}
+
+/**
+ * Split a path into its segments, dropping '.' and empty ones.
+ * Returns null for paths that leave the plugin folder.
+ */
+function normalizeAssetPath(path: string): string | null {
+  if (path.startsWith('/') || path.includes('\\') || /^[a-z]:/i.test(path)) return null;
+  const segments = path.split('/').filter(s => s !== '' && s !== '.');
+  if (segments.length === 0 || segments.includes('..')) return null;
+  return segments.join('/');
+}
+
+/**
+ * Returns true if `relativePath` is listed in the manifest's `assets` or
+ * lies inside a listed folder.
+ */
+export function isDeclaredAsset(
+  manifest: Pick<ElementPluginManifest, 'assets'>,
+  relativePath: string,
+): boolean {
+  const path = normalizeAssetPath(relativePath);
+  if (path === null) return false;
+  return (manifest.assets ?? []).some(asset => {
+    const declared = normalizeAssetPath(asset);
+    return declared !== null && (path === declared || path.startsWith(`${declared}/`));
+  });
+}
+
+/** Percent-encode a path for a URL, keeping its slashes (and a drive letter's colon). */
+function encodePath(path: string): string {
+  return encodeURI(path).replace(/[?#]/g, c => encodeURIComponent(c));
+}
+
+/** The `file://` URL of a folder, with a trailing slash. */
+function folderFileUrl(path: string): string {
+  let url = path.replace(/\\/g, '/');
+  if (!url.startsWith('/')) url = `/${url}`;
+  if (!url.endsWith('/')) url += '/';
+  return `file://${encodePath(url)}`;
+}
+
+const defaultLoadFontFace: FontFaceLoader = async (fontFamily, url) => {
+  // Nothing to register outside a browser (e.g. server-side rendering)
+  if (typeof FontFace === 'undefined' || typeof document === 'undefined') return;
+  const face = await new FontFace(fontFamily, `url(${JSON.stringify(url)})`).load();
+  document.fonts.add(face);
+};
+
+/**
+ * Reference ElementHostAssets for one plugin: URLs resolve against the
+ * plugin folder, and only paths declared in the manifest `assets` are
+ * served. loadFont() registers each family/file pair once; a font that
+ * fails to load resolves anyway so the element falls back to another font.
+ *
+ * Hosts give each plugin its own instance by wrapping the element in a
+ * nested ElementHostProvider.
+ *
+ * @example
+ * ```tsx
+ * const assets = createPluginAssets(plugin, { baseUrl: `/elements/${plugin.manifest.elementName}/` });
+ * <ElementHostProvider value={{ ...host, assets }}>
+ *   <Renderer {...rendererProps} />
+ * </ElementHostProvider>
+ * ```
+ */
+export function createPluginAssets(
+  plugin: Pick<DiscoveredElementPlugin, 'path' | 'manifest'>,
+  options: PluginAssetsOptions = {},
+): ElementHostAssets {
+  const baseUrl = options.baseUrl ?? folderFileUrl(plugin.path);
+  const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  const loadFontFace = options.loadFontFace ?? defaultLoadFontFace;
+  const fonts = new Map<string, Promise<void>>();
+
+  const getUrl = (relativePath: string): string => {
+    if (!isDeclaredAsset(plugin.manifest, relativePath)) {
+      throw new Error(`'${relativePath}' is not a declared asset of ${plugin.manifest.elementName}`);
+    }
+    return base + encodePath(normalizeAssetPath(relativePath)!);
+  };
+
+  return {
+    getUrl,
+
+    loadFont(fontFamily, relativePath) {
+      let url: string;
+      try {
+        url = getUrl(relativePath);
+      } catch (err) {
+        return Promise.reject(err);
+      }
+
+      const key = `${fontFamily}\n${url}`;
+      let promise = fonts.get(key);
+      if (!promise) {
+        promise = loadFontFace(fontFamily, url).catch(() => {});
+        fonts.set(key, promise);
+      }
+      return promise;
+    },
+  };
+}
@@ -0,0 +1,129 @@
+// ============================================================================
+// Frame capture: reference ElementHostCapture and useCaptureReady() hook
+// ============================================================================
+
+import { useEffect } from 'react';
+import type { ElementHostCapture } from '@junctionrelay/element-protocol';
+import type { AnimationClock } from './clock.js';
+import { useElementHost } from './context.js';
+
+/** Options for CaptureSession. */
+export interface CaptureSessionOptions {
+  /** Clock time in milliseconds to freeze the frame at (default 0). */
+  time?: number;
+
+  /** The host's clock; it is paused and moved to `time`. */
+  clock?: AnimationClock;
+}
+
+/** Options for CaptureSession.whenReady(). */
+export interface CaptureReadyOptions {
+  /** Give up after this many milliseconds (default 5000). */
+  timeoutMs?: number;
+}
+
+/** Let React commit and run effects (which may add holds) before checking. */
+const settle = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Reference ElementHostCapture for one captured frame. The host renders
+ * the layout with `capture` set, then awaits whenReady() before taking the
+ * picture. Holds are counted per reason, so two elements waiting for the
+ * same font both have to release.
+ *
+ * @example
+ * ```tsx
+ * const capture = new CaptureSession({ time: 1500, clock });
+ * root.render(<ElementHostProvider value={{ ...host, capture }}>{layout}</ElementHostProvider>);
+ * await capture.whenReady();
+ * const png = await screenshot();
+ * ```
+ */
+export class CaptureSession implements ElementHostCapture {
+  readonly time: number;
+  private readonly holds = new Map<string, number>();
+  private readonly waiters = new Set<() => void>();
+
+  constructor(options: CaptureSessionOptions = {}) {
+    this.time = options.time ?? 0;
+    if (options.clock) {
+      options.clock.pause();
+      options.clock.seek(this.time);
+    }
+  }
+
+  hold(reason: string): () => void {
+    this.holds.set(reason, (this.holds.get(reason) ?? 0) + 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const count = this.holds.get(reason)! - 1;
+      if (count > 0) this.holds.set(reason, count);
+      else this.holds.delete(reason);
+      if (this.holds.size === 0) for (const wake of [...this.waiters]) wake();
+    };
+  }
+
+  /** Reasons of the holds not yet released, e.g. for a progress display. */
+  pending(): string[] {
+    return [...this.holds.keys()];
+  }
+
+  /**
+   * Resolves once the elements have rendered and no element holds the
+   * capture. Rejects after `timeoutMs` with the reasons still pending.
+   */
+  async whenReady({ timeoutMs = 5000 }: CaptureReadyOptions = {}): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      await settle();
+      if (this.holds.size === 0) {
+        // Releasing a hold can re-render an element that holds again
+        await settle();
+        if (this.holds.size === 0) return;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0 || !(await this.released(remaining))) {
+        throw new Error(`Capture not ready after ${timeoutMs} ms, waiting for: ${this.pending().join(', ')}`);
+      }
+    }
+  }
+
+  /** Resolves true when the last hold is released, false after `ms`. */
+  private released(ms: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.waiters.delete(wake);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.waiters.delete(wake);
+        resolve(false);
+      }, ms);
+      this.waiters.add(wake);
+    });
+  }
+}
+
+/**
+ * Hook that holds the host's frame capture while `ready` is false, so the
+ * frame is not taken before the element has finished (a font, image or
+ * stored value is loading). Does nothing outside captures. `reason` shows
+ * up in the host's error if the element never gets ready.
+ *
+ * @example
+ * ```tsx
+ * const [fontReady, setFontReady] = useState(() => fonts.isFontLoaded(fontFamily));
+ * useCaptureReady(fontReady, `font ${fontFamily}`);
+ * ```
+ */
+export function useCaptureReady(ready: boolean, reason = 'element'): void {
+  const { capture } = useElementHost();
+  useEffect(() => {
+    if (!capture || ready) return;
+    return capture.hold(reason);
+  }, [capture, ready, reason]);
+}
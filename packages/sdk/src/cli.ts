@@ -0,0 +1,141 @@
+// ============================================================================
+// junctionrelay-element <command> [pluginDir | zip] [options]
+// ============================================================================
+
+import { parseArgs } from 'node:util';
+import { isAbsolute, relative } from 'node:path';
+import { buildPlugin, watchPlugin, type BuildPluginResult } from './tooling/build.js';
+import { inspectPluginZip } from './tooling/inspect.js';
+import { packPlugin } from './tooling/pack.js';
+
+const USAGE = `Usage: junctionrelay-element <command> [pluginDir | zip] [options]
+
+Commands:
+  build    Validate the manifest and bundle the plugin to its entry (dist/index.js)
+  pack     Validate the manifest and zip the built plugin with its assets and checksums
+  inspect  Check a plugin zip and simulate the host's install and discovery (offline)
+
+Build options:
+  --entry <file>     Source entry (default: src/index.tsx, .jsx, .ts or .js)
+  --watch, -w        Rebuild when source files change
+  --minify           Minify the bundle
+  --no-sourcemap     Don't write dist/index.js.map
+
+Pack options:
+  --out <file>       Output zip (default: <elementName>.zip)
+
+Inspect options:
+  --elements-dir <dir>  Install into this elements directory (default: a temporary one)`;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    entry: { type: 'string' },
+    out: { type: 'string' },
+    'elements-dir': { type: 'string' },
+    watch: { type: 'boolean', short: 'w', default: false },
+    minify: { type: 'boolean', default: false },
+    'no-sourcemap': { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+});
+
+const [command, pluginDir = process.cwd()] = positionals;
+
+if (values.help || !command) {
+  console.log(USAGE);
+  process.exit(values.help ? 0 : 1);
+}
+
+try {
+  switch (command) {
+    case 'build':
+      await runBuild();
+      break;
+    case 'pack':
+      await runPack();
+      break;
+    case 'inspect':
+      await runInspect();
+      break;
+    default:
+      console.error(`ERROR: Unknown command '${command}'\n\n${USAGE}`);
+      process.exit(1);
+  }
+} catch (err) {
+  console.error(`ERROR: ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(1);
+}
+
+async function runBuild(): Promise<void> {
+  const options = {
+    pluginDir,
+    entry: values.entry,
+    minify: values.minify,
+    sourcemap: !values['no-sourcemap'],
+  };
+
+  if (!values.watch) {
+    const result = await buildPlugin(options);
+    report(result);
+    if (result.errors.length > 0) process.exit(1);
+    return;
+  }
+
+  await watchPlugin(options, report);
+  console.log('Watching for changes. Press Ctrl+C to stop.');
+}
+
+async function runPack(): Promise<void> {
+  const result = await packPlugin({ pluginDir, outfile: values.out });
+  const outfile = displayPath(result.outfile);
+  for (const file of result.files) {
+    console.log(`  ${file.path} (${(file.bytes / 1024).toFixed(1)} KB)`);
+  }
+  console.log(`Packed ${result.manifest.elementName} → ${outfile} (${result.files.length} files, ${(result.bytes / 1024).toFixed(1)} KB)`);
+}
+
+async function runInspect(): Promise<void> {
+  const zip = positionals[1];
+  if (!zip) {
+    console.error(`ERROR: inspect needs a zip file\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  const result = await inspectPluginZip(zip, { elementsDir: values['elements-dir'] });
+  for (const file of result.files) console.log(`  ${file}`);
+  for (const warning of result.warnings) console.warn(`WARNING: ${warning}`);
+  for (const error of result.errors) console.error(`ERROR: ${error}`);
+
+  const { path, existingPath } = result.install;
+  const where = path ? ` → ${path}` : existingPath ? ` (the host keeps ${existingPath})` : '';
+  console.log(`Install: ${result.install.status}${where}${values['elements-dir'] ? '' : ' (temporary elements directory, removed)'}`);
+  if (result.discovered) {
+    const { name, version, path, entry, manifest } = result.discovered;
+    console.log(`Discovered: ${JSON.stringify({ name, version, path, entry, elementName: manifest.elementName }, null, 2)}`);
+  }
+
+  if (!result.valid) {
+    console.error(`${displayPath(zip)} is not installable`);
+    process.exit(1);
+  }
+  console.log(`${displayPath(zip)} is installable`);
+}
+
+function report(result: BuildPluginResult): void {
+  for (const warning of result.warnings) console.warn(`WARNING: ${warning}`);
+  for (const error of result.errors) console.error(`ERROR: ${error}`);
+
+  const outfile = displayPath(result.outfile);
+  if (result.errors.length > 0) {
+    console.error(`Build failed for ${result.manifest.elementName}`);
+  } else {
+    console.log(`Built ${result.manifest.elementName} → ${outfile} (${(result.bytes / 1024).toFixed(1)} KB) in ${result.durationMs}ms`);
+  }
+}
+
+/** A path relative to the working directory, or absolute if it lies outside it. */
+function displayPath(path: string): string {
+  const rel = relative(process.cwd(), path);
+  return rel && !rel.startsWith('..') && !isAbsolute(rel) ? rel : path;
+}
@@ -0,0 +1,228 @@
+// ============================================================================
+// Animation clock: reference shared clock and useAnimationFrame() hook
+// ============================================================================
+
+import { useEffect, useRef } from 'react';
+import type { ClockFrame, ElementHostClock } from '@junctionrelay/element-protocol';
+import { useElementHost } from './context.js';
+
+/** Schedules one tick and returns a function that cancels it. */
+export type ClockScheduler = (tick: () => void) => () => void;
+
+/** Options for AnimationClock. */
+export interface AnimationClockOptions {
+  /** Maximum frames per second (default 60). */
+  maxFps?: number;
+
+  /** Start paused, e.g. to step the clock by hand (default false). */
+  paused?: boolean;
+
+  /** Tick scheduler (default requestAnimationFrame, or a timer outside browsers). */
+  scheduler?: ClockScheduler;
+
+  /** Wall clock in milliseconds (default performance.now). */
+  now?: () => number;
+}
+
+const defaultScheduler: ClockScheduler = (tick) => {
+  if (typeof requestAnimationFrame !== 'undefined') {
+    const id = requestAnimationFrame(() => tick());
+    return () => cancelAnimationFrame(id);
+  }
+  const timer = setTimeout(tick, 1000 / 60);
+  return () => clearTimeout(timer);
+};
+
+/**
+ * Reference ElementHostClock. Ticks on requestAnimationFrame, delivers at
+ * most `maxFps` frames per second, and only schedules ticks while it is
+ * running and has subscribers. Clock time stands still while paused and
+ * does not jump on resume(). step() advances it by a fixed amount, for
+ * deterministic frame captures.
+ *
+ * @example
+ * ```ts
+ * const clock = new AnimationClock({ maxFps: 30 });
+ * <ElementHostProvider value={{ ...host, clock }}>...</ElementHostProvider>
+ *
+ * // Capture: freeze the animations, then render frame by frame
+ * clock.pause();
+ * for (let i = 0; i < 30; i++) { clock.step(); await captureFrame(); }
+ * clock.resume();
+ * ```
+ */
+export class AnimationClock implements ElementHostClock {
+  private maxFps: number;
+  private paused: boolean;
+  private readonly scheduler: ClockScheduler;
+  private readonly wallClock: () => number;
+  private readonly subscribers = new Set<(frame: ClockFrame) => void>();
+
+  private time = 0;
+  private frame = 0;
+  private lastWall: number | undefined;
+  private cancel: (() => void) | undefined;
+
+  constructor(options: AnimationClockOptions = {}) {
+    this.maxFps = options.maxFps ?? 60;
+    this.paused = options.paused ?? false;
+    this.scheduler = options.scheduler ?? defaultScheduler;
+    this.wallClock = options.now ?? (() => performance.now());
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  subscribe(callback: (frame: ClockFrame) => void): () => void {
+    this.subscribers.add(callback);
+    this.schedule();
+    return () => {
+      this.subscribers.delete(callback);
+      if (this.subscribers.size === 0) this.unschedule();
+    };
+  }
+
+  /** Stop delivering frames; clock time stands still until resume(). */
+  pause(): void {
+    this.paused = true;
+    this.unschedule();
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.schedule();
+  }
+
+  /** Limit the frame rate, e.g. on low-power displays. */
+  setMaxFps(fps: number): void {
+    if (!(fps > 0)) throw new Error(`maxFps must be a positive number, got ${fps}`);
+    this.maxFps = fps;
+  }
+
+  getMaxFps(): number {
+    return this.maxFps;
+  }
+
+  /**
+   * Advance clock time by `deltaMs` (default one frame at maxFps) and
+   * deliver that frame right away. Works while paused.
+   */
+  step(deltaMs = 1000 / this.maxFps): ClockFrame {
+    return this.emit(deltaMs);
+  }
+
+  /**
+   * Jump to clock time `time` and deliver that frame right away (its delta
+   * is negative when jumping back). Works while paused.
+   */
+  seek(time: number): ClockFrame {
+    return this.emit(time - this.time);
+  }
+
+  private schedule(): void {
+    if (this.paused || this.cancel || this.subscribers.size === 0) return;
+    this.cancel = this.scheduler(() => {
+      this.cancel = undefined;
+      this.tick();
+      this.schedule();
+    });
+  }
+
+  private unschedule(): void {
+    this.cancel?.();
+    this.cancel = undefined;
+    // The next tick after a pause starts a fresh interval instead of catching up
+    this.lastWall = undefined;
+  }
+
+  private tick(): void {
+    const wall = this.wallClock();
+    if (this.lastWall === undefined) {
+      this.lastWall = wall;
+      return;
+    }
+    const elapsed = wall - this.lastWall;
+    // Allow 1 ms of scheduler jitter so 60 Hz ticks are not dropped at maxFps 60
+    if (elapsed < 1000 / this.maxFps - 1) return;
+    this.lastWall = wall;
+    this.emit(elapsed);
+  }
+
+  private emit(delta: number): ClockFrame {
+    this.time += delta;
+    const frame: ClockFrame = { time: this.time, delta, frame: this.frame++ };
+    for (const callback of [...this.subscribers]) {
+      try {
+        callback(frame);
+      } catch {
+        // A broken element must not stop the others' animations
+      }
+    }
+    return frame;
+  }
+}
+
+/** Options for useAnimationFrame(). */
+export interface AnimationFrameOptions {
+  /** Call the callback at most this often (default: every clock tick). */
+  fps?: number;
+
+  /** Set to false to stop the callback (default true). */
+  enabled?: boolean;
+}
+
+/**
+ * Hook that calls `callback` on the host's shared animation clock, at most
+ * `fps` times per second. `delta` is the clock time since the previous
+ * call (0 on the first, negative after a seek back). While the host pauses
+ * the clock only the frames it steps or seeks to arrive, each one
+ * regardless of `fps`. On hosts without a clock it falls back to
+ * requestAnimationFrame.
+ *
+ * @example
+ * ```tsx
+ * const [angle, setAngle] = useState(0);
+ * useAnimationFrame(({ delta }) => setAngle(a => (a + delta * 0.09) % 360), { fps: 30 });
+ * ```
+ */
+export function useAnimationFrame(
+  callback: (frame: ClockFrame) => void,
+  { fps, enabled = true }: AnimationFrameOptions = {},
+): void {
+  const { clock } = useElementHost();
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const interval = fps ? 1000 / fps : 0;
+    let last: number | undefined;
+    let count = 0;
+
+    const onTick = (time: number, manual: boolean) => {
+      // Frames stepped or sought to on a paused clock always count, and a
+      // seek back starts a new interval; otherwise the same 1 ms jitter
+      // allowance as AnimationClock
+      if (last !== undefined && !manual && time >= last && time - last < interval - 1) return;
+      const delta = last === undefined ? 0 : time - last;
+      last = time;
+      callbackRef.current({ time, delta, frame: count++ });
+    };
+
+    if (clock) return clock.subscribe((frame) => onTick(frame.time, clock.isPaused()));
+
+    // Hosts without a clock: each element runs its own loop, as before
+    if (typeof requestAnimationFrame === 'undefined') return;
+    let id = requestAnimationFrame(function loop(time) {
+      onTick(time, false);
+      id = requestAnimationFrame(loop);
+    });
+    return () => cancelAnimationFrame(id);
+  }, [clock, fps, enabled]);
+}
@@ -0,0 +1,76 @@
+// ============================================================================
+// Protocol version negotiation and host capability detection
+// ============================================================================
+
+import {
+  DEFAULT_PLUGIN_PROTOCOL_RANGE,
+  PROTOCOL_VERSION,
+  type ElementHostContext,
+  type ElementPluginManifest,
+  type HostCapability,
+} from '@junctionrelay/element-protocol';
+import { isValidVersion, isValidVersionRange, satisfiesVersionRange } from './semver.js';
+
+/** Result of checkProtocolCompatibility(). */
+export interface ProtocolCompatibility {
+  compatible: boolean;
+
+  /** The range that was checked (the manifest's, or DEFAULT_PLUGIN_PROTOCOL_RANGE). */
+  range: string;
+
+  hostProtocolVersion: string;
+
+  /** Why the plugin is incompatible (undefined when compatible). */
+  message?: string;
+}
+
+/**
+ * Check a plugin's manifest `protocolVersion` range against the host's
+ * PROTOCOL_VERSION. Plugins without a range are treated as targeting
+ * DEFAULT_PLUGIN_PROTOCOL_RANGE. Never throws — an invalid range or host
+ * version makes the plugin incompatible.
+ *
+ * @example
+ * ```ts
+ * const { compatible, message } = checkProtocolCompatibility(plugin.manifest);
+ * if (!compatible) console.warn(`Skipping ${plugin.manifest.elementName}: ${message}`);
+ * ```
+ */
+export function checkProtocolCompatibility(
+  manifest: Pick<ElementPluginManifest, 'protocolVersion'>,
+  hostProtocolVersion: string = PROTOCOL_VERSION,
+): ProtocolCompatibility {
+  const range = manifest.protocolVersion ?? DEFAULT_PLUGIN_PROTOCOL_RANGE;
+  const result = { range, hostProtocolVersion };
+
+  if (!isValidVersion(hostProtocolVersion)) {
+    return { ...result, compatible: false, message: `Host protocol version '${hostProtocolVersion}' is not a valid semantic version` };
+  }
+  if (!isValidVersionRange(range)) {
+    return { ...result, compatible: false, message: `protocolVersion '${range}' is not a valid version range` };
+  }
+  if (!satisfiesVersionRange(hostProtocolVersion, range)) {
+    return {
+      ...result,
+      compatible: false,
+      message: `Plugin requires protocol ${range}, but the host implements ${hostProtocolVersion}`,
+    };
+  }
+  return { ...result, compatible: true };
+}
+
+/**
+ * Returns true if the host provides an optional service. Uses the host's
+ * `capabilities` list when it has one; 1.0.0 hosts predate the list, so
+ * for them the service field itself is checked.
+ *
+ * @example
+ * ```tsx
+ * const host = useElementHost();
+ * if (hasHostCapability(host, 'sensors')) host.sensors!.getHistory(tag, 60_000);
+ * ```
+ */
+export function hasHostCapability(host: ElementHostContext, capability: HostCapability): boolean {
+  if (host.capabilities) return host.capabilities.includes(capability);
+  return host[capability] !== undefined;
+}
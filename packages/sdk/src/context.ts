@@ -3,7 +3,8 @@
 // ============================================================================
 
 import { createContext, useContext } from 'react';
-import type { ElementHostContext } from '@junctionrelay/element-protocol';
+import type { ElementHostContext, HostCapability } from '@junctionrelay/element-protocol';
+import { hasHostCapability } from './compatibility.js';
 
 /**
  * React context that the host populates with shared services.
@@ -46,3 +47,16 @@ export function useElementHost(): ElementHostContext {
   }
   return ctx;
 }
+
+/**
+ * Hook that returns true if the host provides an optional service, so a
+ * plugin can fall back gracefully on older hosts.
+ *
+ * @example
+ * ```tsx
+ * const hasHistory = useHostCapability('sensors');
+ * ```
+ */
+export function useHostCapability(capability: HostCapability): boolean {
+  return hasHostCapability(useElementHost(), capability);
+}
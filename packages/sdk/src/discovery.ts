@@ -0,0 +1,150 @@
+// ============================================================================
+// @junctionrelay/element-sdk/discovery
+// Reference plugin discovery: elements directory → DiscoveredElementPlugin[]
+// (Node only — not for use in Renderers)
+// ============================================================================
+
+import { existsSync } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import type { DiscoveredElementPlugin } from '@junctionrelay/element-protocol';
+import { parsePackageManifest } from './validation.js';
+
+/** A plugin folder that discovery rejected. */
+export interface DiscoveryError {
+  /** Absolute path of the plugin folder. */
+  path: string;
+
+  errors: string[];
+}
+
+/** Result of discoverElementPlugins(). */
+export interface DiscoveryResult {
+  /** Valid plugins, sorted by folder name. */
+  plugins: DiscoveredElementPlugin[];
+
+  /** Rejected folders, sorted by folder name. */
+  errors: DiscoveryError[];
+}
+
+/**
+ * Scan an elements directory of extracted plugins — one folder per plugin,
+ * as the host leaves them after unzipping. Each folder's package.json is
+ * checked with parsePackageManifest() and its `entry` is resolved to an
+ * absolute path that must exist.
+ *
+ * Files (such as zips not yet extracted) and hidden folders are ignored.
+ * When two folders declare the same `elementName`, neither is loaded and
+ * both are reported, since the host could not tell which one a layout means.
+ *
+ * Throws only if the elements directory itself cannot be read.
+ *
+ * @example
+ * ```ts
+ * import { discoverElementPlugins } from '@junctionrelay/element-sdk/discovery';
+ *
+ * const { plugins, errors } = await discoverElementPlugins('/app/data/elements');
+ * for (const { path, errors: messages } of errors) console.warn(path, messages);
+ * ```
+ */
+export async function discoverElementPlugins(elementsDir: string): Promise<DiscoveryResult> {
+  const root = resolve(elementsDir);
+  const folders = (await readdir(root, { withFileTypes: true }))
+    .filter(d => d.isDirectory() && !d.name.startsWith('.'))
+    .map(d => d.name)
+    .sort();
+
+  const found: DiscoveredElementPlugin[] = [];
+  const errors: DiscoveryError[] = [];
+
+  for (const folder of folders) {
+    const result = await discoverElementPlugin(join(root, folder));
+    if (result.plugin) found.push(result.plugin);
+    else errors.push({ path: result.path, errors: result.errors });
+  }
+
+  // Duplicate elementNames across packages
+  const byName = new Map<string, DiscoveredElementPlugin[]>();
+  for (const plugin of found) {
+    const list = byName.get(plugin.manifest.elementName) ?? [];
+    list.push(plugin);
+    byName.set(plugin.manifest.elementName, list);
+  }
+
+  const plugins: DiscoveredElementPlugin[] = [];
+  for (const plugin of found) {
+    const same = byName.get(plugin.manifest.elementName)!;
+    if (same.length === 1) {
+      plugins.push(plugin);
+      continue;
+    }
+    const others = same.filter(p => p !== plugin).map(p => `${p.name} (${p.path})`);
+    errors.push({
+      path: plugin.path,
+      errors: [`elementName '${plugin.manifest.elementName}' is also declared by ${others.join(', ')}`],
+    });
+  }
+
+  errors.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  return { plugins, errors };
+}
+
+/**
+ * Discover a single extracted plugin folder: parse and validate its
+ * package.json and resolve the manifest's `entry`.
+ */
+export async function discoverElementPlugin(
+  pluginDir: string,
+): Promise<
+  | { path: string; plugin: DiscoveredElementPlugin; errors: [] }
+  | { path: string; plugin: null; errors: string[] }
+> {
+  const path = resolve(pluginDir);
+  const fail = (...errors: string[]) => ({ path, plugin: null, errors });
+
+  const packageFile = join(path, 'package.json');
+  if (!existsSync(packageFile)) {
+    return fail('No package.json found');
+  }
+
+  let packageJson: Record<string, unknown>;
+  try {
+    packageJson = JSON.parse(await readFile(packageFile, 'utf8')) as Record<string, unknown>;
+  } catch (err) {
+    return fail(`package.json is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (packageJson === null || typeof packageJson !== 'object' || Array.isArray(packageJson)) {
+    return fail('package.json must be an object');
+  }
+
+  const errors: string[] = [];
+  if (typeof packageJson.name !== 'string' || packageJson.name.length === 0) {
+    errors.push('package.json name must be a non-empty string');
+  }
+  if (typeof packageJson.version !== 'string' || packageJson.version.length === 0) {
+    errors.push('package.json version must be a non-empty string');
+  }
+
+  const parsed = parsePackageManifest(packageJson);
+  errors.push(...parsed.errors);
+  if (!parsed.manifest || errors.length > 0) {
+    return fail(...errors);
+  }
+
+  const entry = resolve(path, parsed.manifest.entry);
+  if (!existsSync(entry)) {
+    return fail(`Entry '${parsed.manifest.entry}' not found`);
+  }
+
+  return {
+    path,
+    plugin: {
+      name: packageJson.name as string,
+      version: packageJson.version as string,
+      path,
+      entry,
+      manifest: parsed.manifest,
+    },
+    errors: [],
+  };
+}
@@ -0,0 +1,274 @@
+// ============================================================================
+// Deterministic mock sensor feeds for the dev harness and tests
+// ============================================================================
+
+import type { ResolvedSensorValue } from '@junctionrelay/element-protocol';
+
+/** Fields shared by every mock feed channel. */
+interface MockFeedChannelBase {
+  /** Unit reported with each value (e.g. '°C', '%'). */
+  unit?: string;
+
+  /** Label reported with each value. */
+  label?: string;
+
+  /** Decimal places used for displayValue (numeric channels, default 1). */
+  precision?: number;
+
+  /**
+   * Randomly drop the sensor from the output, as a host does when a
+   * collector stops reporting. Each `intervalMs` window (default 1000) is
+   * dropped with the given probability (0–1).
+   */
+  dropout?: { probability: number; intervalMs?: number };
+}
+
+/** Smooth oscillation between min and max. */
+export interface SineFeedChannel extends MockFeedChannelBase {
+  kind: 'sine';
+  min?: number;
+  max?: number;
+  periodMs?: number;
+  /** Phase offset as a fraction of the period (0–1). */
+  phase?: number;
+}
+
+/** Value that moves up or down by up to `stepSize` every `intervalMs`. */
+export interface RandomWalkFeedChannel extends MockFeedChannelBase {
+  kind: 'randomWalk';
+  start?: number;
+  stepSize?: number;
+  min?: number;
+  max?: number;
+  intervalMs?: number;
+}
+
+/** Cycles through fixed numeric values, holding each for `intervalMs`. */
+export interface StepFeedChannel extends MockFeedChannelBase {
+  kind: 'steps';
+  values: number[];
+  intervalMs?: number;
+}
+
+/** Cycles through string values, holding each for `intervalMs`. */
+export interface TextFeedChannel extends MockFeedChannelBase {
+  kind: 'text';
+  values: string[];
+  intervalMs?: number;
+}
+
+/** Boolean that flips every `intervalMs`. */
+export interface ToggleFeedChannel extends MockFeedChannelBase {
+  kind: 'toggle';
+  initial?: boolean;
+  intervalMs?: number;
+}
+
+/** Audio-style spectrum: `bands` random levels between min and max, refreshed every `intervalMs`. */
+export interface SpectrumFeedChannel extends MockFeedChannelBase {
+  kind: 'spectrum';
+  bands?: number;
+  min?: number;
+  max?: number;
+  intervalMs?: number;
+}
+
+export type MockFeedChannel =
+  | SineFeedChannel
+  | RandomWalkFeedChannel
+  | StepFeedChannel
+  | TextFeedChannel
+  | ToggleFeedChannel
+  | SpectrumFeedChannel;
+
+/** Mock feed definition keyed by SensorTag. */
+export type MockFeedDefinition = Record<string, MockFeedChannel>;
+
+/** Options for createMockFeed(). */
+export interface MockFeedOptions {
+  /** Seed for the random channels (default 1). Same seed + same time = same values. */
+  seed?: number;
+}
+
+/** A time-varying source of resolvedValues. */
+export interface MockFeed {
+  /** The resolvedValues map at `timeMs` (milliseconds since the feed started). */
+  sample(timeMs: number): Record<string, ResolvedSensorValue>;
+}
+
+/**
+ * Create a deterministic mock feed from a declarative definition.
+ * Values depend only on the seed, the SensorTag and the sample time, so
+ * sampling the same time twice — or in another process — gives identical
+ * output. That keeps snapshot tests of Renderers reproducible.
+ *
+ * @example
+ * ```ts
+ * const feed = createMockFeed({
+ *   'cpu.temp': { kind: 'sine', min: 40, max: 80, periodMs: 10_000, unit: '°C', label: 'CPU' },
+ *   'fan.rpm': { kind: 'randomWalk', start: 1200, stepSize: 50, min: 0, unit: 'RPM', dropout: { probability: 0.1 } },
+ *   'audio.fft': { kind: 'spectrum', bands: 16 },
+ * }, { seed: 42 });
+ * const resolvedValues = feed.sample(2500);
+ * ```
+ */
+export function createMockFeed(definition: MockFeedDefinition, options: MockFeedOptions = {}): MockFeed {
+  const seed = options.seed ?? 1;
+
+  const channels = Object.entries(definition).map(([sensorTag, channel]) => {
+    validateChannel(sensorTag, channel);
+    return { sensorTag, channel, key: hashString(sensorTag), walk: { index: 0, value: NaN } };
+  });
+
+  return {
+    sample(timeMs) {
+      const result: Record<string, ResolvedSensorValue> = {};
+
+      for (const { sensorTag, channel, key, walk } of channels) {
+        if (channel.dropout) {
+          const window = Math.floor(timeMs / (channel.dropout.intervalMs ?? 1000));
+          if (random(seed, key, DROPOUT_STREAM, window) < channel.dropout.probability) continue;
+        }
+
+        const value = channelValue(channel, timeMs, seed, key, walk);
+        const resolved: ResolvedSensorValue = { value };
+        if (channel.unit !== undefined) resolved.unit = channel.unit;
+        if (channel.label !== undefined) resolved.label = channel.label;
+        const displayValue = formatDisplayValue(value, channel.precision ?? 1);
+        if (displayValue !== undefined) resolved.displayValue = displayValue;
+
+        result[sensorTag] = resolved;
+      }
+
+      return result;
+    },
+  };
+}
+
+// Separate random streams per purpose so e.g. dropouts don't correlate with walk steps
+const VALUE_STREAM = 1;
+const DROPOUT_STREAM = 2;
+
+function channelValue(
+  channel: MockFeedChannel,
+  timeMs: number,
+  seed: number,
+  key: number,
+  walk: { index: number; value: number },
+): ResolvedSensorValue['value'] {
+  switch (channel.kind) {
+    case 'sine': {
+      const min = channel.min ?? 0;
+      const max = channel.max ?? 100;
+      const period = channel.periodMs ?? 10_000;
+      const angle = 2 * Math.PI * (timeMs / period + (channel.phase ?? 0));
+      return min + (max - min) * (Math.sin(angle) + 1) / 2;
+    }
+
+    case 'randomWalk': {
+      const interval = channel.intervalMs ?? 1000;
+      const stepSize = channel.stepSize ?? 1;
+      const clamp = (v: number) => Math.min(channel.max ?? Infinity, Math.max(channel.min ?? -Infinity, v));
+      const target = Math.max(0, Math.floor(timeMs / interval));
+
+      // Walk forward from the cached position; restart when sampling earlier times
+      if (Number.isNaN(walk.value) || target < walk.index) {
+        walk.index = 0;
+        walk.value = clamp(channel.start ?? 0);
+      }
+      while (walk.index < target) {
+        walk.index++;
+        walk.value = clamp(walk.value + (random(seed, key, VALUE_STREAM, walk.index) * 2 - 1) * stepSize);
+      }
+      return walk.value;
+    }
+
+    case 'steps':
+      return channel.values[cycleIndex(timeMs, channel.intervalMs, channel.values.length)];
+
+    case 'text':
+      return channel.values[cycleIndex(timeMs, channel.intervalMs, channel.values.length)];
+
+    case 'toggle': {
+      const flips = Math.floor(Math.max(0, timeMs) / (channel.intervalMs ?? 1000));
+      return flips % 2 === 0 ? channel.initial ?? false : !(channel.initial ?? false);
+    }
+
+    case 'spectrum': {
+      const bands = channel.bands ?? 16;
+      const min = channel.min ?? 0;
+      const max = channel.max ?? 1;
+      const frame = Math.floor(Math.max(0, timeMs) / (channel.intervalMs ?? 50));
+      const levels: number[] = [];
+      for (let band = 0; band < bands; band++) {
+        // Roll off toward the high bands like real audio
+        const envelope = 1 - 0.6 * (band / Math.max(1, bands - 1));
+        const level = min + (max - min) * envelope * random(seed, key, VALUE_STREAM, frame * bands + band);
+        levels.push(round(level, channel.precision ?? 3));
+      }
+      return levels;
+    }
+  }
+}
+
+function cycleIndex(timeMs: number, intervalMs: number | undefined, length: number): number {
+  return Math.floor(Math.max(0, timeMs) / (intervalMs ?? 1000)) % length;
+}
+
+function formatDisplayValue(value: ResolvedSensorValue['value'], precision: number): string | undefined {
+  if (typeof value === 'number') return value.toFixed(precision);
+  if (typeof value === 'string' || typeof value === 'boolean') return String(value);
+  return undefined;
+}
+
+function round(value: number, precision: number): number {
+  const factor = 10 ** precision;
+  return Math.round(value * factor) / factor;
+}
+
+function validateChannel(sensorTag: string, channel: MockFeedChannel): void {
+  const fail = (message: string): never => {
+    throw new Error(`mock feed '${sensorTag}': ${message}`);
+  };
+
+  switch (channel.kind) {
+    case 'steps':
+    case 'text':
+      if (!Array.isArray(channel.values) || channel.values.length === 0) fail('values must be a non-empty array');
+      break;
+    case 'sine':
+    case 'randomWalk':
+    case 'toggle':
+    case 'spectrum':
+      break;
+    default:
+      fail(`unknown kind '${String((channel as { kind: unknown }).kind)}'`);
+  }
+
+  for (const field of ['periodMs', 'intervalMs'] as const) {
+    const value = (channel as Partial<Record<typeof field, unknown>>)[field];
+    if (value !== undefined && (typeof value !== 'number' || value <= 0)) fail(`${field} must be greater than 0`);
+  }
+}
+
+/** 32-bit FNV-1a hash, used to give each SensorTag its own random stream. */
+function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Stateless seeded random number in [0, 1) derived from the given integers. */
+function random(...parts: number[]): number {
+  let h = 0x9e3779b9;
+  for (const part of parts) {
+    h = Math.imul(h ^ (part | 0), 0x85ebca6b);
+    h ^= h >>> 13;
+    h = Math.imul(h, 0xc2b2ae35);
+    h ^= h >>> 16;
+  }
+  return (h >>> 0) / 0x1_0000_0000;
+}
@@ -0,0 +1,196 @@
+// ============================================================================
+// Sensor value formatting: precision, separators, compact notation, units
+// ============================================================================
+
+import {
+  META_UNITS,
+  type ResolvedSensorValue,
+  type SensorDisplayFormat,
+} from '@junctionrelay/element-protocol';
+
+/** One unit of a UNIT_CONVERSIONS family. */
+export interface UnitDefinition {
+  unit: string;
+
+  /** Multiply by this to get the family's base unit (the first entry). */
+  factor: number;
+
+  /** Added after `factor` (temperatures). Default 0. */
+  offset?: number;
+}
+
+/**
+ * Units formatSensorValue() can convert between, by family. A value
+ * converts only within its family; the first unit is the base.
+ */
+export const UNIT_CONVERSIONS: Record<string, readonly UnitDefinition[]> = {
+  temperature: [
+    { unit: '°C', factor: 1 },
+    { unit: '°F', factor: 5 / 9, offset: -32 * 5 / 9 },
+    { unit: 'K', factor: 1, offset: -273.15 },
+  ],
+  dataSize: [
+    { unit: 'B', factor: 1 },
+    { unit: 'KB', factor: 1e3 },
+    { unit: 'MB', factor: 1e6 },
+    { unit: 'GB', factor: 1e9 },
+    { unit: 'TB', factor: 1e12 },
+    { unit: 'KiB', factor: 2 ** 10 },
+    { unit: 'MiB', factor: 2 ** 20 },
+    { unit: 'GiB', factor: 2 ** 30 },
+    { unit: 'TiB', factor: 2 ** 40 },
+  ],
+  dataRate: [
+    { unit: 'B/s', factor: 1 },
+    { unit: 'KB/s', factor: 1e3 },
+    { unit: 'MB/s', factor: 1e6 },
+    { unit: 'GB/s', factor: 1e9 },
+    { unit: 'bit/s', factor: 1 / 8 },
+    { unit: 'Kbit/s', factor: 1e3 / 8 },
+    { unit: 'Mbit/s', factor: 1e6 / 8 },
+    { unit: 'Gbit/s', factor: 1e9 / 8 },
+  ],
+  frequency: [
+    { unit: 'Hz', factor: 1 },
+    { unit: 'kHz', factor: 1e3 },
+    { unit: 'MHz', factor: 1e6 },
+    { unit: 'GHz', factor: 1e9 },
+  ],
+  speed: [
+    { unit: 'm/s', factor: 1 },
+    { unit: 'km/h', factor: 1 / 3.6 },
+    { unit: 'mph', factor: 0.44704 },
+    { unit: 'kn', factor: 1852 / 3600 },
+  ],
+  pressure: [
+    { unit: 'hPa', factor: 1 },
+    { unit: 'kPa', factor: 10 },
+    { unit: 'bar', factor: 1000 },
+    { unit: 'psi', factor: 68.9475729 },
+    { unit: 'inHg', factor: 33.8638866 },
+  ],
+  duration: [
+    { unit: 'ms', factor: 1 },
+    { unit: 's', factor: 1000 },
+    { unit: 'min', factor: 60_000 },
+    { unit: 'h', factor: 3_600_000 },
+  ],
+};
+
+function findUnit(unit: string): { family: string; definition: UnitDefinition } | undefined {
+  for (const [family, units] of Object.entries(UNIT_CONVERSIONS)) {
+    const definition = units.find(u => u.unit === unit);
+    if (definition) return { family, definition };
+  }
+  return undefined;
+}
+
+/**
+ * Convert a value between two units of the same UNIT_CONVERSIONS family.
+ * Returns undefined if either unit is unknown or they measure different
+ * things.
+ *
+ * @example
+ * ```ts
+ * convertUnit(100, '°C', '°F');  // 212
+ * convertUnit(1.5e9, 'B', 'GB'); // 1.5
+ * convertUnit(1, 'GB', '°F');    // undefined
+ * ```
+ */
+export function convertUnit(value: number, from: string, to: string): number | undefined {
+  if (from === to) return value;
+  const source = findUnit(from);
+  const target = findUnit(to);
+  if (!source || !target || source.family !== target.family) return undefined;
+  const base = value * source.definition.factor + (source.definition.offset ?? 0);
+  const converted = (base - (target.definition.offset ?? 0)) / target.definition.factor;
+  // Drop floating-point noise from the factors (211.99999999999997 → 212)
+  return Number(converted.toPrecision(12));
+}
+
+/** Units a value in `unit` can be converted to (empty for unknown units). */
+export function getConvertibleUnits(unit: string): string[] {
+  const source = findUnit(unit);
+  return source ? UNIT_CONVERSIONS[source.family].map(u => u.unit) : [];
+}
+
+/** Returns true for units that mark a value's type (META_UNITS) rather than a measurement. */
+export function isMetaUnit(unit: string | undefined): boolean {
+  return unit !== undefined && (META_UNITS as readonly string[]).includes(unit);
+}
+
+/** A sensor value ready to display. */
+export interface FormattedSensorValue {
+  /** The formatted value; empty when the sensor has no value. */
+  value: string;
+
+  /** The unit to show after it; empty for meta-units and unit-less sensors. */
+  unit: string;
+
+  /** Value and unit separated by a space (just the value without a unit). */
+  text: string;
+}
+
+/**
+ * Format a sensor value for display. Numbers (and each entry of a number
+ * array) are converted to `format.unit` when the sensor's unit converts to
+ * it, then rounded and grouped with Intl.NumberFormat. Without any format
+ * options the host's `displayValue` is used as is. Meta-units ('text',
+ * 'boolean') are never shown.
+ *
+ * @example
+ * ```ts
+ * formatSensorValue({ value: 21.456, unit: '°C' }, { precision: 1, unit: '°F' });
+ * // { value: '70.6', unit: '°F', text: '70.6 °F' }
+ * formatSensorValue({ value: 1234567, unit: 'RPM' }, { compact: true });
+ * // { value: '1.2M', unit: 'RPM', text: '1.2M RPM' }
+ * ```
+ */
+export function formatSensorValue(
+  sensor: ResolvedSensorValue | undefined,
+  format: SensorDisplayFormat = {},
+): FormattedSensorValue {
+  const raw = sensor?.value;
+  const sensorUnit = sensor?.unit && !isMetaUnit(sensor.unit) ? sensor.unit : '';
+  let unit = sensorUnit;
+
+  let value: string;
+  if (typeof raw === 'number' || Array.isArray(raw)) {
+    const target = format.unit && format.unit !== sensorUnit && getConvertibleUnits(sensorUnit).includes(format.unit)
+      ? format.unit
+      : undefined;
+    const formatted = format.precision !== undefined || format.thousandsSeparator || format.compact || format.locale;
+
+    if (!target && !formatted && sensor?.displayValue !== undefined) {
+      value = sensor.displayValue;
+    } else {
+      const numberFormat = createNumberFormat(format, target !== undefined);
+      const show = (n: number) => numberFormat(target ? convertUnit(n, sensorUnit, target)! : n);
+      value = typeof raw === 'number' ? show(raw) : raw.map(show).join(', ');
+      if (target) unit = target;
+    }
+  } else if (raw !== undefined) {
+    value = sensor?.displayValue ?? String(raw);
+  } else {
+    value = '';
+  }
+
+  return { value, unit, text: value && unit ? `${value} ${unit}` : value };
+}
+
+function createNumberFormat(format: SensorDisplayFormat, converted: boolean): (n: number) => string {
+  let intl: Intl.NumberFormat;
+  try {
+    intl = new Intl.NumberFormat(format.locale || undefined, {
+      notation: format.compact ? 'compact' : 'standard',
+      useGrouping: format.thousandsSeparator ?? false,
+      minimumFractionDigits: format.precision,
+      // Without a precision: 1.2K when compact, 2 decimals after a conversion, else every digit
+      maximumFractionDigits: format.precision ?? (format.compact ? 1 : converted ? 2 : 20),
+    });
+  } catch {
+    // An invalid locale falls back to plain output
+    return (n) => String(n);
+  }
+  return (n) => (Number.isFinite(n) ? intl.format(n) : String(n));
+}
@@ -9,6 +9,99 @@ export * from '@junctionrelay/element-protocol';
 // SDK utilities
 export { validateManifest, parsePackageManifest } from './validation.js';
 export type { ValidationResult } from './validation.js';
+export { lintManifest, isMuiIconName } from './lint.js';
+export type { LintResult, LintMessage, LintSeverity } from './lint.js';
+export { resolveProperties } from './properties.js';
+export type { ResolvedProperties } from './properties.js';
+export { applyMigrations, createElementProperties } from './migrations.js';
+export type { MigrationResult } from './migrations.js';
+
+// Sensor slots (React hook + pure helpers)
+export {
+  useSensorSlots,
+  resolveSensorSlots,
+  getSensorSlotBindings,
+  getSensorValueType,
+} from './sensorSlots.js';
+export type { SensorSlotValues } from './sensorSlots.js';
+
+// Sensor history (reference host service + React hook)
+export { InMemorySensorHistory, useSensorHistory, downsampleSamples } from './sensors.js';
+export type { InMemorySensorHistoryOptions, SensorHistoryOptions } from './sensors.js';
+
+// Mock sensor feeds (deterministic, for dev harnesses and tests)
+export { createMockFeed } from './feeds.js';
+export type {
+  MockFeed,
+  MockFeedOptions,
+  MockFeedDefinition,
+  MockFeedChannel,
+  SineFeedChannel,
+  RandomWalkFeedChannel,
+  StepFeedChannel,
+  TextFeedChannel,
+  ToggleFeedChannel,
+  SpectrumFeedChannel,
+} from './feeds.js';
+
+// Protocol version negotiation and host capabilities
+export { checkProtocolCompatibility, hasHostCapability } from './compatibility.js';
+export type { ProtocolCompatibility } from './compatibility.js';
+
+// Semantic versions and layout portability (requiredPlugins)
+export {
+  parseVersion,
+  isValidVersion,
+  compareVersions,
+  satisfiesVersionRange,
+  isValidVersionRange,
+} from './semver.js';
+export type { SemanticVersion } from './semver.js';
+export { collectRequiredPlugins, checkRequiredPlugins } from './requiredPlugins.js';
+export type {
+  InstalledPluginLookup,
+  CollectRequiredPluginsResult,
+  RequiredPluginIssue,
+  RequiredPluginsCheck,
+} from './requiredPlugins.js';
+
+// Plugin registry (reference host implementation: load state + error isolation)
+export { PluginRegistry } from './registry.js';
+export type { PluginRegistryOptions, PluginRegistryEvent, PluginModuleLoader } from './registry.js';
 
 // Host context (React — used by plugin components at runtime)
-export { ElementHostProvider, useElementHost } from './context.js';
+export { ElementHostProvider, useElementHost, useHostCapability } from './context.js';
+
+// Layout theme (React — theme:<token> color references)
+export {
+  DEFAULT_ELEMENT_THEME,
+  isThemeColorToken,
+  parseThemeColor,
+  resolveThemeColor,
+  resolveThemeColors,
+  useElementTheme,
+} from './theme.js';
+
+// Sensor value formatting (precision, separators, unit conversion)
+export { formatSensorValue, convertUnit, getConvertibleUnits, isMetaUnit, UNIT_CONVERSIONS } from './format.js';
+export type { FormattedSensorValue, UnitDefinition } from './format.js';
+
+// Element storage (reference host store + usePersistentState() hook)
+export { InMemoryElementStorage, usePersistentState } from './storage.js';
+export type { ElementStorageOptions, ElementStorageSnapshot, PersistentStateStatus } from './storage.js';
+
+// Plugin assets (reference ElementHostAssets scoped to one plugin)
+export { createPluginAssets, isDeclaredAsset } from './assets.js';
+export type { PluginAssetsOptions, FontFaceLoader } from './assets.js';
+
+// Animation clock (reference shared clock + useAnimationFrame() hook)
+export { AnimationClock, useAnimationFrame } from './clock.js';
+export type { AnimationClockOptions, AnimationFrameOptions, ClockScheduler } from './clock.js';
+
+// Frame capture (reference capture session + useCaptureReady() hook)
+export { CaptureSession, useCaptureReady } from './capture.js';
+export type { CaptureSessionOptions, CaptureReadyOptions } from './capture.js';
+
+// Error boundary for plugin components (React — rendered by the host or dev harness)
+export { PluginElementBoundary } from './PluginElementBoundary.js';
+export type { PluginElementBoundaryProps, PluginElementErrorInfo } from './PluginElementBoundary.js';
@@ -0,0 +1,80 @@
+// ============================================================================
+// @junctionrelay/element-sdk/json-file-storage
+// Reference element storage persisted to one JSON file
+// (Node only — not for use in Renderers)
+// ============================================================================
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import {
+  InMemoryElementStorage,
+  type ElementStorageOptions,
+  type ElementStorageSnapshot,
+} from './storage.js';
+
+/**
+ * InMemoryElementStorage that writes every change to a JSON file, for
+ * hosts and tests that need storage to survive a restart. The whole file
+ * is rewritten through a temporary file on each change, one write at a
+ * time. A failed write rejects the set() or delete() that caused it; the
+ * value stays in memory and is written with the next change.
+ *
+ * @example
+ * ```ts
+ * import { JsonFileElementStorage } from '@junctionrelay/element-sdk/json-file-storage';
+ *
+ * const store = await JsonFileElementStorage.open(join(dataDir, 'element-storage.json'));
+ * const storage = store.forElement('junctionrelay.hello-sensor', element.id);
+ * ```
+ */
+export class JsonFileElementStorage extends InMemoryElementStorage {
+  private writing: Promise<void> = Promise.resolve();
+
+  private constructor(
+    readonly path: string,
+    options: ElementStorageOptions,
+    snapshot: ElementStorageSnapshot,
+  ) {
+    super(options, snapshot);
+  }
+
+  /**
+   * Open a storage file, starting empty if it does not exist yet.
+   * Throws if the file exists but is not a storage snapshot.
+   */
+  static async open(path: string, options: ElementStorageOptions = {}): Promise<JsonFileElementStorage> {
+    let text: string;
+    try {
+      text = await readFile(path, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return new JsonFileElementStorage(path, options, {});
+      throw err;
+    }
+
+    let snapshot: unknown;
+    try {
+      snapshot = JSON.parse(text);
+    } catch (err) {
+      throw new Error(`Element storage file ${path} is not valid JSON: ${(err as Error).message}`);
+    }
+    const isObject = (value: unknown): value is Record<string, unknown> =>
+      value !== null && typeof value === 'object' && !Array.isArray(value);
+    if (!isObject(snapshot) || !Object.values(snapshot).every(isObject)) {
+      throw new Error(`Element storage file ${path} must map each element to an object of stored values`);
+    }
+    return new JsonFileElementStorage(path, options, snapshot as ElementStorageSnapshot);
+  }
+
+  protected persist(): Promise<void> {
+    const json = `${JSON.stringify(this.snapshot(), null, 2)}\n`;
+    const tmp = `${this.path}.tmp`;
+    this.writing = this.writing
+      .catch(() => {})
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(tmp, json);
+        await rename(tmp, this.path);
+      });
+    return this.writing;
+  }
+}
@@ -0,0 +1,257 @@
+// ============================================================================
+// Manifest linting: conventions and sanity checks beyond validateManifest()
+// ============================================================================
+
+import { UI_NAMING_TERMS } from '@junctionrelay/element-protocol';
+import { validateManifest } from './validation.js';
+import { MUI_ICON_FAMILIES, MUI_ICON_STANDALONE, MUI_ICON_VARIANTS } from './muiIcons.js';
+
+export type LintSeverity = 'error' | 'warning';
+
+/** A single lint finding. */
+export interface LintMessage {
+  /** Stable rule identifier (e.g. 'icon-exists'). */
+  ruleId: string;
+
+  severity: LintSeverity;
+
+  /** Manifest field the message refers to (e.g. 'defaultSize.width'), if any. */
+  path?: string;
+
+  message: string;
+
+  /** Suggested fix, when there is an obvious one. */
+  fix?: string;
+}
+
+/** Result of linting a plugin manifest. `valid` is false only when there are errors. */
+export interface LintResult {
+  valid: boolean;
+  errors: LintMessage[];
+  warnings: LintMessage[];
+}
+
+/** defaultSize outside this range (pixels) is almost always a typo. */
+const DEFAULT_SIZE_RANGE = { min: 16, max: 1920 } as const;
+
+/**
+ * Lint the `junctionrelay` field from a plugin's package.json.
+ * Includes every validateManifest() error (rule 'manifest-schema') plus:
+ *
+ *   - icon-exists (error): icon is an @mui/icons-material export
+ *   - default-size-positive (error): defaultSize width/height are greater than 0
+ *   - default-size-integer (warning): defaultSize width/height are whole pixels
+ *   - default-size-range (warning): defaultSize is within 16–1920 pixels
+ *   - emoji-single (warning): emoji is exactly one emoji
+ *   - naming-conventions (warning): UI text follows UI_NAMING_CONVENTIONS
+ *
+ * The icon list is bundled with the SDK, so linting works offline.
+ */
+export function lintManifest(manifest: unknown): LintResult {
+  const messages: LintMessage[] = [];
+
+  for (const message of validateManifest(manifest).errors) {
+    messages.push({ ruleId: 'manifest-schema', severity: 'error', message });
+  }
+
+  if (isPlainObject(manifest)) {
+    lintIcon(manifest.icon, messages);
+    lintDefaultSize(manifest.defaultSize, messages);
+    lintEmoji(manifest.emoji, messages);
+    lintNaming(manifest, messages);
+  }
+
+  const errors = messages.filter(m => m.severity === 'error');
+  const warnings = messages.filter(m => m.severity === 'warning');
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/** Returns true if `name` is an @mui/icons-material export (per the bundled list). */
+export function isMuiIconName(name: string): boolean {
+  return getIconNames().has(name);
+}
+
+function lintIcon(icon: unknown, messages: LintMessage[]): void {
+  // Missing or non-string icons are reported by manifest-schema
+  if (typeof icon !== 'string' || icon.length === 0 || isMuiIconName(icon)) return;
+
+  const suggestion = suggestIcon(icon);
+  messages.push({
+    ruleId: 'icon-exists',
+    severity: 'error',
+    path: 'icon',
+    message: `icon '${icon}' is not an @mui/icons-material export`,
+    fix: suggestion
+      ? `Use '${suggestion}'`
+      : 'Pick an icon name from https://mui.com/material-ui/material-icons/ (without the "Icon" suffix)',
+  });
+}
+
+function lintDefaultSize(size: unknown, messages: LintMessage[]): void {
+  if (!isPlainObject(size)) return;
+
+  for (const axis of ['width', 'height'] as const) {
+    const value = size[axis];
+    if (typeof value !== 'number') continue;
+    const path = `defaultSize.${axis}`;
+
+    if (!Number.isFinite(value) || value <= 0) {
+      messages.push({
+        ruleId: 'default-size-positive',
+        severity: 'error',
+        path,
+        message: `${path} must be greater than 0 (got ${value})`,
+      });
+      continue;
+    }
+
+    if (!Number.isInteger(value)) {
+      messages.push({
+        ruleId: 'default-size-integer',
+        severity: 'warning',
+        path,
+        message: `${path} should be a whole number of pixels (got ${value})`,
+        fix: `Use ${Math.round(value)}`,
+      });
+    }
+
+    if (value < DEFAULT_SIZE_RANGE.min || value > DEFAULT_SIZE_RANGE.max) {
+      const clamped = Math.min(DEFAULT_SIZE_RANGE.max, Math.max(DEFAULT_SIZE_RANGE.min, Math.round(value)));
+      messages.push({
+        ruleId: 'default-size-range',
+        severity: 'warning',
+        path,
+        message: `${path} is outside ${DEFAULT_SIZE_RANGE.min}–${DEFAULT_SIZE_RANGE.max}px (got ${value})`,
+        fix: `Use a size around ${clamped}px; users can resize the element on the canvas`,
+      });
+    }
+  }
+}
+
+function lintEmoji(emoji: unknown, messages: LintMessage[]): void {
+  if (typeof emoji !== 'string' || emoji.length === 0) return;
+
+  const graphemes = [...new Intl.Segmenter(undefined, { granularity: 'grapheme' }).segment(emoji)];
+  const isSingleEmoji = graphemes.length === 1 && /\p{Extended_Pictographic}|\p{Regional_Indicator}|\u20E3/u.test(emoji);
+
+  if (!isSingleEmoji) {
+    messages.push({
+      ruleId: 'emoji-single',
+      severity: 'warning',
+      path: 'emoji',
+      message: `emoji should be a single emoji character (got '${emoji}')`,
+      fix: graphemes.length > 1 ? `Use '${graphemes[0].segment}'` : undefined,
+    });
+  }
+}
+
+function lintNaming(manifest: Record<string, unknown>, messages: LintMessage[]): void {
+  const texts: [path: string, text: unknown][] = [
+    ['displayName', manifest.displayName],
+    ['description', manifest.description],
+  ];
+
+  if (isPlainObject(manifest.propertySchema)) {
+    for (const [key, descriptor] of Object.entries(manifest.propertySchema)) {
+      if (!isPlainObject(descriptor)) continue;
+      texts.push([`propertySchema.${key}.label`, descriptor.label]);
+      texts.push([`propertySchema.${key}.helperText`, descriptor.helperText]);
+      if (Array.isArray(descriptor.options)) {
+        descriptor.options.forEach((option: unknown, i) => {
+          if (isPlainObject(option)) texts.push([`propertySchema.${key}.options[${i}].label`, option.label]);
+        });
+      }
+    }
+  }
+
+  if (Array.isArray(manifest.sensorSlots)) {
+    manifest.sensorSlots.forEach((slot: unknown, i) => {
+      if (!isPlainObject(slot)) return;
+      texts.push([`sensorSlots[${i}].label`, slot.label]);
+      texts.push([`sensorSlots[${i}].helperText`, slot.helperText]);
+    });
+  }
+
+  for (const [path, text] of texts) {
+    if (typeof text !== 'string') continue;
+
+    for (const term of UI_NAMING_TERMS) {
+      for (const match of text.matchAll(namingPattern(term))) {
+        if (match[0] === term) continue;
+        messages.push({
+          ruleId: 'naming-conventions',
+          severity: 'warning',
+          path,
+          message: `${path} spells '${term}' as '${match[0]}'`,
+          fix: `Write '${term}' as one word: ${JSON.stringify(text.replace(namingPattern(term), term))}`,
+        });
+        break;
+      }
+    }
+  }
+}
+
+/** 'SensorTag' → /\bSensor[\s-]*Tag\b/gi, which also matches "Sensor Tag", "sensor-tag", "Sensortag". */
+function namingPattern(term: string): RegExp {
+  const words = term.match(/[A-Z][a-z]*/g) ?? [term];
+  return new RegExp(`\\b${words.join('[\\s-]*')}\\b`, 'gi');
+}
+
+let iconNames: Set<string> | undefined;
+
+function getIconNames(): Set<string> {
+  if (!iconNames) {
+    iconNames = new Set(MUI_ICON_STANDALONE);
+    for (const name of MUI_ICON_FAMILIES) {
+      iconNames.add(name);
+      for (const variant of MUI_ICON_VARIANTS) iconNames.add(name + variant);
+    }
+  }
+  return iconNames;
+}
+
+/** Closest real icon name: 'SensorsIcon' → 'Sensors', 'sportsbar' → 'SportsBar', 'Sensers' → 'Sensors'. */
+function suggestIcon(icon: string): string | undefined {
+  const names = getIconNames();
+  const candidates = [icon, icon.replace(/Icon$/, '')];
+
+  for (const candidate of candidates) {
+    if (names.has(candidate)) return candidate;
+    const lower = candidate.toLowerCase();
+    for (const name of names) {
+      if (name.toLowerCase() === lower) return name;
+    }
+  }
+
+  let best: string | undefined;
+  let bestDistance = 3; // suggest only near misses
+  for (const name of names) {
+    if (Math.abs(name.length - icon.length) >= bestDistance) continue;
+    const distance = editDistance(icon.toLowerCase(), name.toLowerCase());
+    if (distance < bestDistance) {
+      best = name;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
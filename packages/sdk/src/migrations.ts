@@ -0,0 +1,128 @@
+// ============================================================================
+// Property migrations across plugin versions
+// ============================================================================
+
+import {
+  PROPERTIES_VERSION_KEY,
+  type ElementPluginManifest,
+  type ElementPropertiesMigration,
+} from '@junctionrelay/element-protocol';
+
+/** Result of migrating an element's properties to the manifest's propertiesVersion. */
+export interface MigrationResult {
+  /** The migrated properties, stamped with PROPERTIES_VERSION_KEY if any step ran. */
+  properties: Record<string, unknown>;
+
+  /** The version the properties were saved at. */
+  fromVersion: number;
+
+  /** The version the properties are at now (less than the target if a step failed). */
+  toVersion: number;
+
+  /** One message per skipped or failed migration (empty = clean). */
+  warnings: string[];
+}
+
+/**
+ * Properties for a newly placed element: a copy of `defaultProperties`
+ * stamped with the manifest's `propertiesVersion`. Hosts call this when an
+ * element is added to a layout or reset to its defaults, so applyMigrations()
+ * knows the properties already have the current shape and does not replay
+ * the migrations meant for version 1 properties.
+ *
+ * @example
+ * ```ts
+ * layout.elements.push({ id, type: manifest.elementName, properties: createElementProperties(manifest) });
+ * ```
+ */
+export function createElementProperties(
+  manifest: Pick<ElementPluginManifest, 'defaultProperties' | 'propertiesVersion'>,
+): Record<string, unknown> {
+  return { ...manifest.defaultProperties, [PROPERTIES_VERSION_KEY]: manifest.propertiesVersion ?? 1 };
+}
+
+/**
+ * Upgrade saved properties to the manifest's `propertiesVersion` by calling
+ * the plugin's `migrate` export once per version step. The host calls this
+ * before passing `properties` to the Renderer (and before resolveProperties).
+ *
+ * Never throws: a missing `migrate`, a step that throws or a step that
+ * returns a non-object stops the chain and is reported in `warnings`, with
+ * the properties left at the last successful version. Properties saved by a
+ * newer plugin version are returned untouched.
+ *
+ * @example
+ * ```ts
+ * const { properties } = applyMigrations(manifest, pluginExports.migrate, element.properties);
+ * ```
+ */
+export function applyMigrations(
+  manifest: Pick<ElementPluginManifest, 'propertiesVersion'>,
+  migrate: ElementPropertiesMigration | undefined,
+  properties: Record<string, unknown>,
+): MigrationResult {
+  const warnings: string[] = [];
+  const targetVersion = manifest.propertiesVersion ?? 1;
+
+  const stored = properties[PROPERTIES_VERSION_KEY];
+  let fromVersion = 1;
+  if (stored !== undefined) {
+    if (typeof stored === 'number' && Number.isInteger(stored) && stored >= 1) {
+      fromVersion = stored;
+    } else {
+      warnings.push(`${PROPERTIES_VERSION_KEY} is not a positive integer (got ${JSON.stringify(stored)}), assuming 1`);
+    }
+  }
+
+  if (fromVersion === targetVersion) {
+    return { properties, fromVersion, toVersion: fromVersion, warnings };
+  }
+
+  if (fromVersion > targetVersion) {
+    warnings.push(
+      `properties were saved at version ${fromVersion}, newer than the installed plugin (version ${targetVersion})`,
+    );
+    return { properties, fromVersion, toVersion: fromVersion, warnings };
+  }
+
+  if (!migrate) {
+    warnings.push(
+      `properties are at version ${fromVersion} but the plugin (version ${targetVersion}) exports no migrate function`,
+    );
+    return { properties, fromVersion, toVersion: fromVersion, warnings };
+  }
+
+  let current = properties;
+  let version = fromVersion;
+
+  while (version < targetVersion) {
+    let next: unknown;
+    try {
+      next = migrate({ ...current }, version);
+    } catch (err) {
+      warnings.push(
+        `migration from version ${version} failed: ${err instanceof Error ? err.message : String(err)}`,
+      );
+      break;
+    }
+
+    if (next === null || typeof next !== 'object' || Array.isArray(next)) {
+      warnings.push(`migration from version ${version} did not return a properties object`);
+      break;
+    }
+
+    current = next as Record<string, unknown>;
+    version++;
+  }
+
+  if (version === fromVersion) {
+    return { properties, fromVersion, toVersion: version, warnings };
+  }
+
+  return {
+    properties: { ...current, [PROPERTIES_VERSION_KEY]: version },
+    fromVersion,
+    toVersion: version,
+    warnings,
+  };
+}
@@ -0,0 +1,15 @@
+// ============================================================================
+// @junctionrelay/element-sdk/panels
+// Properties panel controls (React + MUI). Kept out of the root entry so
+// Node hosts and tooling can load the SDK without MUI and Emotion installed.
+// ============================================================================
+
+// Schema-driven properties panel (rendered by the host or plugins)
+export { SchemaPropertiesPanel } from './SchemaPropertiesPanel.js';
+export type { SchemaPropertiesPanelProps } from './SchemaPropertiesPanel.js';
+
+// Controls for custom PropertiesPanels
+export { ThemeColorField } from './ThemeColorField.js';
+export type { ThemeColorFieldProps } from './ThemeColorField.js';
+export { DisplayFormatField } from './DisplayFormatField.js';
+export type { DisplayFormatFieldProps } from './DisplayFormatField.js';
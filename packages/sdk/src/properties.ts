@@ -0,0 +1,120 @@
+// ============================================================================
+// Runtime resolution and coercion of element properties
+// ============================================================================
+
+import type { ElementPluginManifest, PropertyDescriptor } from '@junctionrelay/element-protocol';
+import { isValidPropertyValue } from './validation.js';
+
+/** Result of resolving an element's properties against its manifest. */
+export interface ResolvedProperties<T> {
+  /** Properties with defaults filled in and values coerced to their declared kind. */
+  properties: T;
+
+  /** One message per missing, coerced or rejected property (empty = clean). */
+  warnings: string[];
+}
+
+/**
+ * Resolve saved element properties against the plugin manifest.
+ *
+ * - Missing keys are filled in from `defaultProperties`.
+ * - Values of the wrong type are coerced when the intent is unambiguous
+ *   (e.g. `"24"` → `24`, `"true"` → `true`) and replaced with the default
+ *   otherwise. Numbers outside a declared range are clamped.
+ * - Keys not present in `defaultProperties` are passed through untouched.
+ *
+ * Kinds come from `propertySchema` when declared, otherwise they are inferred
+ * from the type of each default value.
+ *
+ * @example
+ * ```tsx
+ * const { properties: props } = useMemo(
+ *   () => resolveProperties<MyProperties>(manifest, properties),
+ *   [properties],
+ * );
+ * ```
+ */
+export function resolveProperties<T extends object = Record<string, unknown>>(
+  manifest: Pick<ElementPluginManifest, 'defaultProperties' | 'propertySchema'>,
+  properties: Record<string, unknown> | null | undefined,
+): ResolvedProperties<T> {
+  const warnings: string[] = [];
+  const input = properties ?? {};
+  const resolved: Record<string, unknown> = { ...input };
+
+  for (const [key, defaultValue] of Object.entries(manifest.defaultProperties)) {
+    const value = input[key];
+
+    if (value === undefined || value === null) {
+      resolved[key] = defaultValue;
+      warnings.push(`${key}: missing, using default ${JSON.stringify(defaultValue)}`);
+      continue;
+    }
+
+    const descriptor = manifest.propertySchema?.[key] ?? inferDescriptor(defaultValue);
+    if (!descriptor || isValidPropertyValue(descriptor, value)) continue;
+
+    const coerced = coerceValue(descriptor, value);
+    if (coerced !== undefined) {
+      resolved[key] = coerced;
+      warnings.push(`${key}: coerced ${JSON.stringify(value)} to ${JSON.stringify(coerced)}`);
+    } else {
+      resolved[key] = defaultValue;
+      warnings.push(
+        `${key}: ${JSON.stringify(value)} is not a valid ${descriptor.kind}, using default ${JSON.stringify(defaultValue)}`,
+      );
+    }
+  }
+
+  return { properties: resolved as T, warnings };
+}
+
+/**
+ * Infer a descriptor from a default value for manifests without a schema.
+ * Returns undefined for values that cannot be checked (objects, arrays).
+ */
+function inferDescriptor(defaultValue: unknown): PropertyDescriptor | undefined {
+  switch (typeof defaultValue) {
+    case 'string':
+      return { kind: 'string', label: '' };
+    case 'number':
+      return { kind: 'number', label: '' };
+    case 'boolean':
+      return { kind: 'boolean', label: '' };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Try to convert a value to the descriptor's kind.
+ * Returns undefined if the value cannot be converted unambiguously.
+ */
+function coerceValue(descriptor: PropertyDescriptor, value: unknown): unknown {
+  switch (descriptor.kind) {
+    case 'string':
+    case 'sensorTag':
+    case 'font':
+    case 'color':
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : undefined;
+
+    case 'number': {
+      let n: number | undefined;
+      if (typeof value === 'number') n = value;
+      else if (typeof value === 'string' && value.trim() !== '') n = Number(value);
+      if (n === undefined || !Number.isFinite(n)) return undefined;
+      if (descriptor.min !== undefined) n = Math.max(descriptor.min, n);
+      if (descriptor.max !== undefined) n = Math.min(descriptor.max, n);
+      return n;
+    }
+
+    case 'boolean':
+      if (value === 'true' || value === 1) return true;
+      if (value === 'false' || value === 0) return false;
+      return undefined;
+
+    case 'enum':
+      // Match across string/number (e.g. "2" for an option value of 2)
+      return descriptor.options.find(o => String(o.value) === String(value))?.value;
+  }
+}
@@ -0,0 +1,252 @@
+// ============================================================================
+// Reference plugin registry: discovered plugins → loaded definitions
+// ============================================================================
+
+import {
+  PROTOCOL_VERSION,
+  type DiscoveredElementPlugin,
+  type ElementPluginExports,
+  type PluginElementDefinition,
+} from '@junctionrelay/element-protocol';
+import { checkProtocolCompatibility } from './compatibility.js';
+
+/**
+ * Imports a plugin bundle and resolves to its module namespace. Hosts that
+ * serve bundles over HTTP map `plugin.entry` to a URL here.
+ */
+export type PluginModuleLoader = (plugin: DiscoveredElementPlugin) => Promise<unknown>;
+
+/** Options for PluginRegistry. */
+export interface PluginRegistryOptions {
+  /** Bundle loader (default: `import(plugin.entry)`). */
+  loader?: PluginModuleLoader;
+
+  /** Protocol version the host implements (default PROTOCOL_VERSION). */
+  hostProtocolVersion?: string;
+}
+
+/**
+ * A change to the registry:
+ * - registered / unregistered: a plugin was added, replaced or removed
+ * - loading: a bundle import started
+ * - loaded: the bundle's exports passed the checks and are on the definition
+ * - failed: the import or the export checks failed; see `definition.error`
+ */
+export interface PluginRegistryEvent {
+  type: 'registered' | 'unregistered' | 'loading' | 'loaded' | 'failed';
+  elementName: string;
+
+  /** The definition after the change (the last one, for 'unregistered'). */
+  definition: PluginElementDefinition;
+}
+
+const defaultLoader: PluginModuleLoader = plugin => import(/* @vite-ignore */ plugin.entry);
+
+/**
+ * The host's `Map<elementName, PluginElementDefinition>`, with lazy loading.
+ * Register discovered plugins up front; each bundle is imported on the first
+ * load() for it. Load failures — a bundle that throws, or exports that do
+ * not satisfy ElementPluginExports — are recorded on the definition as
+ * `error` instead of thrown, so one broken plugin cannot take down the rest.
+ *
+ * Definitions are replaced, never mutated, on every change, so they can be
+ * compared by identity (e.g. with React's useSyncExternalStore).
+ *
+ * @example
+ * ```ts
+ * const registry = new PluginRegistry({ loader: p => import(`/elements/${p.manifest.elementName}/${p.manifest.entry}`) });
+ * registry.registerAll((await discoverElementPlugins(elementsDir)).plugins);
+ * const { Renderer, error } = await registry.load('junctionrelay.hello-sensor');
+ * ```
+ */
+export class PluginRegistry {
+  private readonly loader: PluginModuleLoader;
+  private readonly hostProtocolVersion: string;
+  private readonly definitions = new Map<string, PluginElementDefinition>();
+  private readonly discovered = new Map<string, DiscoveredElementPlugin>();
+  private readonly pending = new Map<string, Promise<PluginElementDefinition>>();
+  private readonly listeners = new Set<(event: PluginRegistryEvent) => void>();
+
+  constructor(options: PluginRegistryOptions = {}) {
+    this.loader = options.loader ?? defaultLoader;
+    this.hostProtocolVersion = options.hostProtocolVersion ?? PROTOCOL_VERSION;
+  }
+
+  /**
+   * Add a discovered plugin, not yet loaded. Registering an elementName
+   * again replaces the previous definition (e.g. after a reinstall).
+   * A plugin whose `protocolVersion` range excludes the host's version is
+   * registered with an `error` and never imported.
+   */
+  register(plugin: DiscoveredElementPlugin): PluginElementDefinition {
+    const { elementName } = plugin.manifest;
+    const compatibility = checkProtocolCompatibility(plugin.manifest, this.hostProtocolVersion);
+    const definition: PluginElementDefinition = {
+      manifest: plugin.manifest,
+      name: plugin.name,
+      version: plugin.version,
+      loaded: false,
+      ...(!compatibility.compatible && { error: compatibility.message }),
+    };
+    this.discovered.set(elementName, plugin);
+    this.definitions.set(elementName, definition);
+    this.pending.delete(elementName);
+    this.emit({ type: 'registered', elementName, definition });
+    return definition;
+  }
+
+  /** register() each plugin, e.g. the result of discoverElementPlugins(). */
+  registerAll(plugins: DiscoveredElementPlugin[]): void {
+    for (const plugin of plugins) this.register(plugin);
+  }
+
+  /** Remove a plugin. Returns false if it was not registered. */
+  unregister(elementName: string): boolean {
+    const definition = this.definitions.get(elementName);
+    if (!definition) return false;
+    this.definitions.delete(elementName);
+    this.discovered.delete(elementName);
+    this.pending.delete(elementName);
+    this.emit({ type: 'unregistered', elementName, definition });
+    return true;
+  }
+
+  has(elementName: string): boolean {
+    return this.definitions.has(elementName);
+  }
+
+  get(elementName: string): PluginElementDefinition | undefined {
+    return this.definitions.get(elementName);
+  }
+
+  /** Every definition, in registration order. */
+  getAll(): PluginElementDefinition[] {
+    return [...this.definitions.values()];
+  }
+
+  /**
+   * Import a plugin's bundle if it has not been loaded yet. Concurrent calls
+   * share one import. Resolves to the definition — check `loaded` and
+   * `error`. A failed plugin stays failed until reload().
+   *
+   * Throws (rejects) only if the elementName is not registered.
+   */
+  load(elementName: string): Promise<PluginElementDefinition> {
+    const definition = this.definitions.get(elementName);
+    if (!definition) {
+      return Promise.reject(new Error(`Plugin '${elementName}' is not registered`));
+    }
+    if (definition.loaded || definition.error !== undefined) {
+      return Promise.resolve(definition);
+    }
+
+    let pending = this.pending.get(elementName);
+    if (!pending) {
+      pending = this.import(elementName, this.discovered.get(elementName)!);
+      this.pending.set(elementName, pending);
+    }
+    return pending;
+  }
+
+  /** load() every registered plugin. */
+  loadAll(): Promise<PluginElementDefinition[]> {
+    return Promise.all([...this.definitions.keys()].map(name => this.load(name)));
+  }
+
+  /** Forget a failed or loaded bundle and import it again. */
+  reload(elementName: string): Promise<PluginElementDefinition> {
+    const plugin = this.discovered.get(elementName);
+    if (!plugin) {
+      return Promise.reject(new Error(`Plugin '${elementName}' is not registered`));
+    }
+    this.register(plugin);
+    return this.load(elementName);
+  }
+
+  /** Listen for changes. Returns an unsubscribe function. */
+  subscribe(listener: (event: PluginRegistryEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async import(elementName: string, plugin: DiscoveredElementPlugin): Promise<PluginElementDefinition> {
+    const registered = this.definitions.get(elementName)!;
+    this.emit({ type: 'loading', elementName, definition: registered });
+
+    let next: PluginElementDefinition;
+    try {
+      const exports = checkPluginExports(await this.loader(plugin), plugin);
+      next = {
+        ...registered,
+        loaded: true,
+        Renderer: exports.Renderer,
+        PropertiesPanel: exports.PropertiesPanel,
+        migrate: exports.migrate,
+      };
+    } catch (err) {
+      next = { ...registered, loaded: false, error: err instanceof Error ? err.message : String(err) };
+    }
+
+    // Unregistered or re-registered while the import was in flight
+    if (this.definitions.get(elementName) !== registered) {
+      return this.definitions.get(elementName) ?? next;
+    }
+
+    this.definitions.set(elementName, next);
+    this.pending.delete(elementName);
+    this.emit({ type: next.loaded ? 'loaded' : 'failed', elementName, definition: next });
+    return next;
+  }
+
+  private emit(event: PluginRegistryEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // A broken listener must not stop the others or the load
+      }
+    }
+  }
+}
+
+/** True for function components and memo/forwardRef/lazy objects. */
+function isComponent(value: unknown): boolean {
+  return (
+    typeof value === 'function' ||
+    (value !== null && typeof value === 'object' && '$$typeof' in value)
+  );
+}
+
+/** Check a loaded module against ElementPluginExports; throws a readable error. */
+function checkPluginExports(module: unknown, plugin: DiscoveredElementPlugin): ElementPluginExports {
+  if (module === null || typeof module !== 'object') {
+    throw new Error('Bundle did not evaluate to a module');
+  }
+  const exports = module as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (!isComponent(exports.Renderer)) {
+    problems.push('Renderer is not exported as a component');
+  }
+  if (exports.PropertiesPanel === undefined) {
+    if (plugin.manifest.propertySchema === undefined) {
+      problems.push('PropertiesPanel is not exported (required unless the manifest declares a propertySchema)');
+    }
+  } else if (!isComponent(exports.PropertiesPanel)) {
+    problems.push('PropertiesPanel is exported but is not a component');
+  }
+  if (exports.migrate === undefined) {
+    if ((plugin.manifest.propertiesVersion ?? 1) > 1) {
+      problems.push(`migrate is not exported (required for propertiesVersion ${plugin.manifest.propertiesVersion})`);
+    }
+  } else if (typeof exports.migrate !== 'function') {
+    problems.push('migrate is exported but is not a function');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid plugin exports: ${problems.join('; ')}`);
+  }
+  return exports as unknown as ElementPluginExports;
+}
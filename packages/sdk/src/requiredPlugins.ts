@@ -0,0 +1,145 @@
+// ============================================================================
+// Layout portability: generate and check a layout's requiredPlugins
+// ============================================================================
+
+import {
+  PLUGIN_ID_PATTERN,
+  isPluginElementName,
+  type PluginElementDefinition,
+  type RequiredPlugin,
+} from '@junctionrelay/element-protocol';
+import { compareVersions, isValidVersion } from './semver.js';
+
+/**
+ * Where to look up installed plugins by elementName. A PluginRegistry or a
+ * `Map<elementName, PluginElementDefinition>` both fit.
+ */
+export interface InstalledPluginLookup {
+  get(elementName: string): Pick<PluginElementDefinition, 'manifest' | 'name' | 'version'> | undefined;
+}
+
+/** Result of collectRequiredPlugins(). */
+export interface CollectRequiredPluginsResult {
+  /** One entry per plugin used by the layout, sorted by elementName. */
+  requiredPlugins: RequiredPlugin[];
+
+  /** Plugin elementNames used by the layout but not installed (no entry can be generated). */
+  unregistered: string[];
+}
+
+/**
+ * Build a layout's `requiredPlugins` on export. Native element types
+ * (sensor, gauge, text, …) are skipped with isPluginElementName(). Each
+ * plugin is listed once, with the installed version as `minVersion`.
+ *
+ * @example
+ * ```ts
+ * const { requiredPlugins, unregistered } = collectRequiredPlugins(layout.elements, registry);
+ * layout.config.requiredPlugins = requiredPlugins;
+ * ```
+ */
+export function collectRequiredPlugins(
+  layoutElements: readonly { type: string }[],
+  installed: InstalledPluginLookup,
+): CollectRequiredPluginsResult {
+  const elementNames = [...new Set(layoutElements.map(e => e.type).filter(isPluginElementName))].sort();
+  const requiredPlugins: RequiredPlugin[] = [];
+  const unregistered: string[] = [];
+
+  for (const elementName of elementNames) {
+    const definition = installed.get(elementName);
+    if (!definition) {
+      unregistered.push(elementName);
+      continue;
+    }
+    requiredPlugins.push({
+      type: 'element',
+      elementName,
+      name: definition.name,
+      minVersion: definition.version,
+      author: definition.manifest.authorName ?? '',
+    });
+  }
+
+  return { requiredPlugins, unregistered };
+}
+
+/**
+ * A requiredPlugins entry the installed plugins do not satisfy:
+ * - missing: no installed plugin has this elementName
+ * - outdated: the installed version is lower than `minVersion`
+ * - unknown: the entry (or the installed version) cannot be checked —
+ *   malformed entry, or a version that is not semver
+ */
+export interface RequiredPluginIssue {
+  kind: 'missing' | 'outdated' | 'unknown';
+  elementName: string;
+
+  /** The requiredPlugins entry as found in the layout. */
+  required: RequiredPlugin;
+
+  /** Installed version, if the plugin is installed. */
+  installedVersion?: string;
+
+  message: string;
+}
+
+/** Result of checkRequiredPlugins(). */
+export interface RequiredPluginsCheck {
+  /** True if every entry is installed at `minVersion` or later. */
+  satisfied: boolean;
+
+  issues: RequiredPluginIssue[];
+}
+
+/**
+ * Check a layout's `requiredPlugins` against the installed plugins before
+ * importing it, to tell the user which FrameXchange elements to install or
+ * update. Never throws; malformed entries are reported as 'unknown'.
+ *
+ * @example
+ * ```ts
+ * const { satisfied, issues } = checkRequiredPlugins(layout.config.requiredPlugins ?? [], registry);
+ * for (const issue of issues) console.warn(issue.message);
+ * ```
+ */
+export function checkRequiredPlugins(
+  required: readonly RequiredPlugin[],
+  installed: InstalledPluginLookup,
+): RequiredPluginsCheck {
+  const issues: RequiredPluginIssue[] = [];
+
+  for (const entry of required) {
+    const raw = entry as unknown as Record<string, unknown>;
+    const elementName = typeof raw?.elementName === 'string' ? raw.elementName : String(raw?.elementName);
+    const issue = (kind: RequiredPluginIssue['kind'], message: string, installedVersion?: string) =>
+      issues.push({ kind, elementName, required: entry, ...(installedVersion !== undefined && { installedVersion }), message });
+
+    if (raw === null || typeof raw !== 'object' || raw.type !== 'element' || !PLUGIN_ID_PATTERN.test(elementName)) {
+      issue('unknown', `'${elementName}' is not a valid element plugin entry`);
+      continue;
+    }
+    const label = typeof raw.name === 'string' && raw.name.length > 0 ? `${raw.name} (${elementName})` : elementName;
+
+    const definition = installed.get(elementName);
+    if (!definition) {
+      issue('missing', `${label} is not installed — install version ${String(raw.minVersion)} or later`);
+      continue;
+    }
+
+    if (typeof raw.minVersion !== 'string' || !isValidVersion(raw.minVersion)) {
+      issue('unknown', `${label} requires version '${String(raw.minVersion)}', which is not a valid semantic version`, definition.version);
+      continue;
+    }
+    if (!isValidVersion(definition.version)) {
+      issue('unknown', `${label} is installed at version '${definition.version}', which is not a valid semantic version`, definition.version);
+      continue;
+    }
+
+    if (compareVersions(definition.version, raw.minVersion) < 0) {
+      issue('outdated', `${label} ${definition.version} is installed, but the layout needs ${raw.minVersion} or later`, definition.version);
+    }
+  }
+
+  return { satisfied: issues.length === 0, issues };
+}
@@ -0,0 +1,214 @@
+// ============================================================================
+// Semantic version parsing and comparison (semver 2.0.0 precedence)
+// ============================================================================
+
+/** A parsed `MAJOR.MINOR.PATCH[-prerelease][+build]` version. */
+export interface SemanticVersion {
+  major: number;
+  minor: number;
+  patch: number;
+
+  /** Dot-separated prerelease identifiers (numeric ones as numbers). Empty for releases. */
+  prerelease: (string | number)[];
+}
+
+const SEMVER_PATTERN =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+[0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*)?$/;
+
+/** Parse a version string (a leading 'v' is allowed). Returns null if it is not valid semver. */
+export function parseVersion(version: string): SemanticVersion | null {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.').map(id => (/^\d+$/.test(id) ? Number(id) : id)) : [],
+  };
+}
+
+/** Returns true if the string is a valid semantic version. */
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compare two versions by semver precedence: negative if a < b, 0 if
+ * equal, positive if a > b. Build metadata is ignored, and a prerelease
+ * sorts before its release (1.0.0-beta < 1.0.0).
+ *
+ * Throws if either version is not valid semver.
+ */
+export function compareVersions(a: string | SemanticVersion, b: string | SemanticVersion): number {
+  const va = typeof a === 'string' ? parseOrThrow(a) : a;
+  const vb = typeof b === 'string' ? parseOrThrow(b) : b;
+
+  const core = va.major - vb.major || va.minor - vb.minor || va.patch - vb.patch;
+  if (core !== 0) return Math.sign(core);
+
+  const pa = va.prerelease;
+  const pb = vb.prerelease;
+  // A release sorts after any of its prereleases
+  if (pa.length === 0 || pb.length === 0) {
+    return pa.length === pb.length ? 0 : pa.length === 0 ? 1 : -1;
+  }
+
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    if (i >= pa.length) return -1;
+    if (i >= pb.length) return 1;
+    const x = pa[i];
+    const y = pb[i];
+    if (x === y) continue;
+    // Numeric identifiers sort before alphanumeric ones
+    if (typeof x === 'number' && typeof y === 'number') return Math.sign(x - y);
+    if (typeof x === 'number') return -1;
+    if (typeof y === 'number') return 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+function parseOrThrow(version: string): SemanticVersion {
+  const parsed = parseVersion(version);
+  if (!parsed) throw new Error(`Invalid semantic version '${version}'`);
+  return parsed;
+}
+
+// ---------------------------------------------------------------------------
+// Ranges (npm syntax)
+// ---------------------------------------------------------------------------
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+interface Comparator {
+  operator: Operator;
+  version: SemanticVersion;
+}
+
+/** A version with trailing parts left out or wildcarded ('1', '1.2', '1.x', '*'). */
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: (string | number)[];
+}
+
+const PARTIAL_PATTERN =
+  /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+/**
+ * Returns true if `version` falls in `range`, using npm range syntax:
+ * comparators (`>=1.0.0 <2.0.0`), caret (`^1.2.0`), tilde (`~1.2.0`),
+ * x-ranges (`1.x`, `1`, `*`), hyphen ranges (`1.0.0 - 1.4.0`) and `||`.
+ * Prereleases are compared by precedence like any other version.
+ *
+ * Throws if the version or the range is invalid.
+ */
+export function satisfiesVersionRange(version: string | SemanticVersion, range: string): boolean {
+  const v = typeof version === 'string' ? parseOrThrow(version) : version;
+  const sets = parseVersionRange(range);
+  if (!sets) throw new Error(`Invalid version range '${range}'`);
+  return sets.some(set => set.every(c => testComparator(v, c)));
+}
+
+/** Returns true if the string is a valid npm-style version range. */
+export function isValidVersionRange(range: string): boolean {
+  return parseVersionRange(range) !== null;
+}
+
+/** Parse a range into OR-ed sets of AND-ed comparators, or null if invalid. */
+function parseVersionRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+  for (const part of range.split('||')) {
+    const set = parseComparatorSet(part.trim());
+    if (!set) return null;
+    sets.push(set);
+  }
+  return sets;
+}
+
+function parseComparatorSet(text: string): Comparator[] | null {
+  if (text === '') return [];
+
+  const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text);
+  if (hyphen) {
+    const from = parsePartial(hyphen[1]);
+    const to = parsePartial(hyphen[2]);
+    if (!from || !to) return null;
+    return [...desugar('>=', from), ...desugar('<=', to)];
+  }
+
+  const comparators: Comparator[] = [];
+  // Allow a space between an operator and its version ('>= 1.2.0')
+  for (const token of text.replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1').split(/\s+/)) {
+    const match = /^(<=|>=|<|>|=|\^|~)?(.*)$/.exec(token)!;
+    const partial = parsePartial(match[2]);
+    if (!partial) return null;
+    comparators.push(...desugar((match[1] ?? '=') as Operator | '^' | '~', partial));
+  }
+  return comparators;
+}
+
+function parsePartial(text: string): PartialVersion | null {
+  const match = PARTIAL_PATTERN.exec(text);
+  if (!match) return null;
+  const part = (s: string | undefined) => (s === undefined || /^[xX*]$/.test(s) ? undefined : Number(s));
+  const major = part(match[1]);
+  const minor = major === undefined ? undefined : part(match[2]);
+  const patch = minor === undefined ? undefined : part(match[3]);
+  const prerelease = patch !== undefined && match[4]
+    ? match[4].split('.').map(id => (/^\d+$/.test(id) ? Number(id) : id))
+    : [];
+  return { major, minor, patch, prerelease };
+}
+
+/** Turn one operator + partial version into plain comparators. */
+function desugar(operator: Operator | '^' | '~', p: PartialVersion): Comparator[] {
+  const v = (major: number, minor = 0, patch = 0, prerelease: (string | number)[] = []): SemanticVersion =>
+    ({ major, minor, patch, prerelease });
+  // The lowest version of the next minor/major, excluding its prereleases
+  const below = (major: number, minor = 0, patch = 0): Comparator => ({ operator: '<', version: v(major, minor, patch, [0]) });
+
+  if (p.major === undefined) return [];
+  const { major } = p;
+  const floor = v(major, p.minor ?? 0, p.patch ?? 0, p.prerelease);
+
+  // Upper bound for an x-range such as '1' or '1.2'
+  const xUpper = () => (p.minor === undefined ? below(major + 1) : below(major, p.minor + 1));
+
+  switch (operator) {
+    case '=':
+      if (p.patch !== undefined) return [{ operator: '=', version: floor }];
+      return [{ operator: '>=', version: floor }, xUpper()];
+    case '^': {
+      let upper: Comparator;
+      if (major > 0 || p.minor === undefined) upper = below(major + 1);
+      else if (p.minor > 0 || p.patch === undefined) upper = below(0, p.minor + 1);
+      else upper = below(0, 0, p.patch + 1);
+      return [{ operator: '>=', version: floor }, upper];
+    }
+    case '~':
+      return [{ operator: '>=', version: floor }, xUpper()];
+    case '>=':
+      return [{ operator: '>=', version: floor }];
+    case '<':
+      return [{ operator: '<', version: p.patch !== undefined ? floor : v(major, p.minor ?? 0, 0, [0]) }];
+    case '>':
+      if (p.patch !== undefined) return [{ operator: '>', version: floor }];
+      return [{ operator: '>=', version: xUpper().version }];
+    case '<=':
+      if (p.patch !== undefined) return [{ operator: '<=', version: floor }];
+      return [xUpper()];
+  }
+}
+
+function testComparator(version: SemanticVersion, { operator, version: bound }: Comparator): boolean {
+  const order = compareVersions(version, bound);
+  switch (operator) {
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+    case '=': return order === 0;
+  }
+}
@@ -0,0 +1,93 @@
+// ============================================================================
+// Named sensor slot resolution for multi-SensorTag elements
+// ============================================================================
+
+import { useMemo } from 'react';
+import {
+  SENSOR_SLOTS_PROPERTY,
+  type ElementPluginManifest,
+  type ResolvedSensorValue,
+  type SensorValueType,
+} from '@junctionrelay/element-protocol';
+
+/** Resolved sensor values keyed by slot name (undefined = unbound, no data, or wrong type). */
+export type SensorSlotValues = Record<string, ResolvedSensorValue | undefined>;
+
+/**
+ * Returns the SensorValueType of a sensor value, or undefined if the value
+ * is missing or not one of the supported types.
+ */
+export function getSensorValueType(value: ResolvedSensorValue['value']): SensorValueType | undefined {
+  if (Array.isArray(value)) {
+    return value.every(v => typeof v === 'number') ? 'number[]' : undefined;
+  }
+  switch (typeof value) {
+    case 'number':
+      return 'number';
+    case 'string':
+      return 'string';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Read the slot bindings (`Record<slotName, sensorTag>`) from an element's
+ * properties. Non-string and empty bindings are dropped.
+ */
+export function getSensorSlotBindings(properties: Record<string, unknown>): Record<string, string> {
+  const raw = properties[SENSOR_SLOTS_PROPERTY];
+  if (raw === null || typeof raw !== 'object' || Array.isArray(raw)) return {};
+
+  const bindings: Record<string, string> = {};
+  for (const [slot, sensorTag] of Object.entries(raw)) {
+    if (typeof sensorTag === 'string' && sensorTag.length > 0) bindings[slot] = sensorTag;
+  }
+  return bindings;
+}
+
+/**
+ * Map each declared sensor slot to its entry in resolvedValues.
+ * A slot resolves to undefined when it is unbound, when the host has no
+ * value for its SensorTag, or when the value does not match the slot's
+ * declared valueType — so plugin code can trust the type it reads.
+ */
+export function resolveSensorSlots(
+  manifest: Pick<ElementPluginManifest, 'sensorSlots'>,
+  properties: Record<string, unknown>,
+  resolvedValues: Record<string, ResolvedSensorValue>,
+): SensorSlotValues {
+  const bindings = getSensorSlotBindings(properties);
+  const result: SensorSlotValues = {};
+
+  for (const slot of manifest.sensorSlots ?? []) {
+    const sensorTag = bindings[slot.name];
+    const sensor = sensorTag ? resolvedValues[sensorTag] : undefined;
+    result[slot.name] =
+      sensor && getSensorValueType(sensor.value) === slot.valueType ? sensor : undefined;
+  }
+
+  return result;
+}
+
+/**
+ * Hook form of resolveSensorSlots() for use inside a Renderer.
+ *
+ * @example
+ * ```tsx
+ * const { primary, threshold } = useSensorSlots(manifest, properties, resolvedValues);
+ * const over = (primary?.value as number) > (threshold?.value as number);
+ * ```
+ */
+export function useSensorSlots(
+  manifest: Pick<ElementPluginManifest, 'sensorSlots'>,
+  properties: Record<string, unknown>,
+  resolvedValues: Record<string, ResolvedSensorValue>,
+): SensorSlotValues {
+  return useMemo(
+    () => resolveSensorSlots(manifest, properties, resolvedValues),
+    [manifest, properties, resolvedValues],
+  );
+}
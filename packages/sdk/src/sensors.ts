@@ -0,0 +1,197 @@
+// ============================================================================
+// Sensor history: in-memory reference service and useSensorHistory() hook
+// ============================================================================
+
+import { useEffect, useState } from 'react';
+import type {
+  ElementHostSensors,
+  ResolvedSensorValue,
+  SensorSample,
+} from '@junctionrelay/element-protocol';
+import { useElementHost } from './context.js';
+
+/** Options for InMemorySensorHistory. */
+export interface InMemorySensorHistoryOptions {
+  /** How long samples are kept (default 10 minutes). */
+  retentionMs?: number;
+
+  /** Maximum samples kept per SensorTag; the oldest are dropped first (default 1000). */
+  maxSamplesPerTag?: number;
+
+  /** Clock used for timestamps and history windows (default Date.now). */
+  now?: () => number;
+}
+
+/**
+ * Reference implementation of ElementHostSensors that keeps a bounded
+ * ring of samples per SensorTag in memory. Hosts feed it with record() or
+ * recordAll() whenever resolved values change; tests and the dev harness
+ * use it directly with an injected clock.
+ *
+ * @example
+ * ```ts
+ * const sensors = new InMemorySensorHistory({ retentionMs: 60_000 });
+ * sensors.recordAll(resolvedValues);
+ * <ElementHostProvider value={{ fonts, sensors }}>...</ElementHostProvider>
+ * ```
+ */
+export class InMemorySensorHistory implements ElementHostSensors {
+  private readonly retentionMs: number;
+  private readonly maxSamplesPerTag: number;
+  private readonly now: () => number;
+  private readonly samples = new Map<string, SensorSample[]>();
+  private readonly listeners = new Map<string, Set<(sample: SensorSample | undefined) => void>>();
+
+  constructor(options: InMemorySensorHistoryOptions = {}) {
+    this.retentionMs = options.retentionMs ?? 10 * 60_000;
+    this.maxSamplesPerTag = options.maxSamplesPerTag ?? 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Record one value for a SensorTag and notify its subscribers. */
+  record(sensorTag: string, value: SensorSample['value'], timestamp: number = this.now()): void {
+    const sample: SensorSample = { timestamp, value };
+    let buffer = this.samples.get(sensorTag);
+    if (!buffer) {
+      buffer = [];
+      this.samples.set(sensorTag, buffer);
+    }
+
+    // Keep the buffer sorted — late samples are rare, so insert from the end
+    let i = buffer.length;
+    while (i > 0 && buffer[i - 1].timestamp > timestamp) i--;
+    buffer.splice(i, 0, sample);
+
+    this.prune(buffer);
+
+    for (const listener of this.listeners.get(sensorTag) ?? []) {
+      listener(sample);
+    }
+  }
+
+  /** Record every value in a resolvedValues map (entries without a value are skipped). */
+  recordAll(resolvedValues: Record<string, ResolvedSensorValue>, timestamp: number = this.now()): void {
+    for (const [sensorTag, resolved] of Object.entries(resolvedValues)) {
+      if (resolved.value !== undefined) this.record(sensorTag, resolved.value, timestamp);
+    }
+  }
+
+  getHistory(sensorTag: string, windowMs: number): SensorSample[] {
+    const buffer = this.samples.get(sensorTag);
+    if (!buffer) return [];
+    const since = this.now() - windowMs;
+    return buffer.filter(s => s.timestamp >= since);
+  }
+
+  subscribe(sensorTag: string, callback: (sample: SensorSample | undefined) => void): () => void {
+    let set = this.listeners.get(sensorTag);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(sensorTag, set);
+    }
+    set.add(callback);
+    return () => {
+      set.delete(callback);
+    };
+  }
+
+  /** Drop the history for one SensorTag, or for all of them, and notify their subscribers. */
+  clear(sensorTag?: string): void {
+    const cleared = sensorTag === undefined ? [...this.samples.keys()] : [sensorTag];
+    for (const tag of cleared) {
+      if (!this.samples.delete(tag)) continue;
+      for (const listener of this.listeners.get(tag) ?? []) {
+        listener(undefined);
+      }
+    }
+  }
+
+  private prune(buffer: SensorSample[]): void {
+    const cutoff = this.now() - this.retentionMs;
+    let drop = 0;
+    while (drop < buffer.length && buffer[drop].timestamp < cutoff) drop++;
+    drop = Math.max(drop, buffer.length - this.maxSamplesPerTag);
+    if (drop > 0) buffer.splice(0, drop);
+  }
+}
+
+/**
+ * Reduce samples to at most `maxSamples` evenly spaced entries, always
+ * keeping the first and the newest sample. Returns the input unchanged when
+ * it is already small enough.
+ */
+export function downsampleSamples(samples: SensorSample[], maxSamples: number): SensorSample[] {
+  if (samples.length <= maxSamples) return samples;
+  if (maxSamples <= 0) return [];
+  if (maxSamples === 1) return [samples[samples.length - 1]];
+
+  const step = (samples.length - 1) / (maxSamples - 1);
+  const result: SensorSample[] = [];
+  for (let i = 0; i < maxSamples; i++) {
+    result.push(samples[Math.round(i * step)]);
+  }
+  return result;
+}
+
+/** Options for useSensorHistory(). */
+export interface SensorHistoryOptions {
+  /** How far back to read, in milliseconds. */
+  windowMs: number;
+
+  /** Downsample the window to at most this many samples (e.g. the sparkline width). */
+  maxSamples?: number;
+}
+
+/** Samples leave the window at most this late (or 1% of the window, if longer). */
+const EXPIRY_INTERVAL_MS = 1000;
+
+const sameSamples = (a: SensorSample[], b: SensorSample[]) =>
+  a.length === b.length && a.every((sample, i) => sample === b[i]);
+
+/**
+ * Hook that returns the host-kept history of a SensorTag and re-renders on
+ * each new sample, when the history is cleared, and as old samples leave
+ * the window while the sensor is quiet. Returns an empty array when the
+ * SensorTag is empty or the host has no sensors service.
+ *
+ * @example
+ * ```tsx
+ * const history = useSensorHistory(sensorTag, { windowMs: 60_000, maxSamples: 100 });
+ * const points = history.map(s => s.value as number);
+ * ```
+ */
+export function useSensorHistory(
+  sensorTag: string | undefined,
+  { windowMs, maxSamples }: SensorHistoryOptions,
+): SensorSample[] {
+  const { sensors } = useElementHost();
+
+  const read = (): SensorSample[] => {
+    if (!sensors || !sensorTag) return [];
+    const history = sensors.getHistory(sensorTag, windowMs);
+    return maxSamples === undefined ? history : downsampleSamples(history, maxSamples);
+  };
+
+  const [samples, setSamples] = useState(read);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const refresh = () => {
+      clearTimeout(timer);
+      const next = read();
+      setSamples((current) => (sameSamples(current, next) ? current : next));
+      // Re-read while anything is left, so the window slides when no new samples arrive
+      if (next.length > 0) timer = setTimeout(refresh, Math.max(EXPIRY_INTERVAL_MS, windowMs / 100));
+    };
+
+    refresh();
+    if (!sensors || !sensorTag) return;
+    const unsubscribe = sensors.subscribe(sensorTag, refresh);
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [sensors, sensorTag, windowMs, maxSamples]);
+
+  return samples;
+}
@@ -0,0 +1,236 @@
+// ============================================================================
+// Element storage: in-memory reference service and usePersistentState() hook
+// ============================================================================
+
+import { useCallback, useEffect, useRef, useState, type SetStateAction } from 'react';
+import {
+  ELEMENT_STORAGE_QUOTA_BYTES,
+  type ElementHostStorage,
+} from '@junctionrelay/element-protocol';
+import { useElementHost } from './context.js';
+
+/** Options for InMemoryElementStorage. */
+export interface ElementStorageOptions {
+  /** Bytes each element may store (default ELEMENT_STORAGE_QUOTA_BYTES). */
+  quotaBytes?: number;
+}
+
+/** Stored values of every element, by scope ('<elementName>/<elementId>') and key. */
+export type ElementStorageSnapshot = Record<string, Record<string, unknown>>;
+
+/** UTF-8 byte length of a string. */
+function utf8Length(text: string): number {
+  let bytes = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+  }
+  return bytes;
+}
+
+/**
+ * Reference host store for ElementHostStorage. Keeps every element's values
+ * in memory as JSON, so stored values are copies and non-serializable
+ * values are rejected up front. forElement() hands out the storage for one
+ * element; hosts pass it to that element through a nested
+ * ElementHostProvider. Pass a snapshot() taken earlier to start from saved
+ * values; subclasses persist changes by overriding persist().
+ *
+ * @example
+ * ```tsx
+ * const store = new InMemoryElementStorage();
+ * <ElementHostProvider value={{ ...host, storage: store.forElement(el.type, el.id) }}>
+ *   <Renderer {...rendererProps} />
+ * </ElementHostProvider>
+ * ```
+ */
+export class InMemoryElementStorage {
+  readonly quotaBytes: number;
+  private readonly scopes = new Map<string, Map<string, string>>();
+  private readonly listeners = new Map<string, Set<(value: unknown) => void>>();
+
+  constructor(options: ElementStorageOptions = {}, snapshot: ElementStorageSnapshot = {}) {
+    this.quotaBytes = options.quotaBytes ?? ELEMENT_STORAGE_QUOTA_BYTES;
+    for (const [scope, values] of Object.entries(snapshot)) {
+      const entries = Object.entries(values).map(([key, value]) => [key, JSON.stringify(value)] as const);
+      this.scopes.set(scope, new Map(entries.filter(([, json]) => json !== undefined)));
+    }
+  }
+
+  /** Storage scoped to one element of one plugin. */
+  forElement(elementName: string, elementId: string): ElementHostStorage {
+    const scope = `${elementName}/${elementId}`;
+    const values = () => this.scopes.get(scope);
+
+    return {
+      quotaBytes: this.quotaBytes,
+
+      get: async (key) => {
+        const json = values()?.get(key);
+        return json === undefined ? undefined : JSON.parse(json);
+      },
+
+      set: async (key, value) => {
+        const json = JSON.stringify(value);
+        if (json === undefined) {
+          throw new Error(`Cannot store '${key}': value is not JSON-serializable`);
+        }
+
+        const current = values() ?? new Map<string, string>();
+        const next = new Map(current).set(key, json);
+        const bytes = [...next].reduce((sum, [k, v]) => sum + utf8Length(k) + utf8Length(v), 0);
+        if (bytes > this.quotaBytes) {
+          throw new Error(`Cannot store '${key}': ${bytes} bytes exceeds the ${this.quotaBytes}-byte quota of ${scope}`);
+        }
+
+        this.scopes.set(scope, next);
+        await this.persist();
+        this.notify(scope, key, JSON.parse(json));
+      },
+
+      delete: async (key) => {
+        const current = values();
+        if (!current?.has(key)) return;
+        const next = new Map(current);
+        next.delete(key);
+        if (next.size === 0) this.scopes.delete(scope);
+        else this.scopes.set(scope, next);
+        await this.persist();
+        this.notify(scope, key, undefined);
+      },
+
+      keys: async () => [...(values()?.keys() ?? [])],
+
+      subscribe: (key, callback) => {
+        const id = `${scope}\n${key}`;
+        let set = this.listeners.get(id);
+        if (!set) {
+          set = new Set();
+          this.listeners.set(id, set);
+        }
+        set.add(callback);
+        return () => {
+          set.delete(callback);
+          if (set.size === 0) this.listeners.delete(id);
+        };
+      },
+    };
+  }
+
+  /** Remove everything an element stored, e.g. when it is deleted from the layout. */
+  async deleteElement(elementName: string, elementId: string): Promise<void> {
+    const scope = `${elementName}/${elementId}`;
+    const keys = [...(this.scopes.get(scope)?.keys() ?? [])];
+    if (!this.scopes.delete(scope)) return;
+    await this.persist();
+    for (const key of keys) this.notify(scope, key, undefined);
+  }
+
+  /** Every element's stored values, as plain JSON data. */
+  snapshot(): ElementStorageSnapshot {
+    const snapshot: ElementStorageSnapshot = {};
+    for (const [scope, values] of this.scopes) {
+      snapshot[scope] = Object.fromEntries([...values].map(([key, json]) => [key, JSON.parse(json)]));
+    }
+    return snapshot;
+  }
+
+  /** Called after every change, before subscribers are notified. */
+  protected async persist(): Promise<void> {}
+
+  private notify(scope: string, key: string, value: unknown): void {
+    for (const callback of this.listeners.get(`${scope}\n${key}`) ?? []) {
+      try {
+        callback(value);
+      } catch {
+        // A broken subscriber must not stop the others or the write
+      }
+    }
+  }
+}
+
+/** Load and write status returned by usePersistentState(). */
+export interface PersistentStateStatus {
+  /** True once the stored value has been read (immediately on hosts without storage). */
+  loaded: boolean;
+
+  /** The last failed read or write (e.g. quota exceeded), cleared by the next write. */
+  error?: Error;
+}
+
+/**
+ * Like useState, but kept in the host's per-element storage so the value
+ * survives reloads without touching `properties`. Renders `initial` until
+ * the stored value has loaded, and follows writes from other components of
+ * the same element (e.g. a Reset button in the PropertiesPanel). On hosts
+ * without storage it behaves like plain useState.
+ *
+ * @example
+ * ```tsx
+ * const [max, setMax] = usePersistentState<number | null>('max', null);
+ * useEffect(() => {
+ *   if (typeof value === 'number' && (max === null || value > max)) setMax(value);
+ * }, [value, max]);
+ * ```
+ */
+export function usePersistentState<T>(
+  key: string,
+  initial: T,
+): [T, (next: SetStateAction<T>) => void, PersistentStateStatus] {
+  const { storage } = useElementHost();
+  const [state, setState] = useState<{ value: T } & PersistentStateStatus>(() => ({
+    value: initial,
+    loaded: !storage,
+  }));
+
+  const latest = useRef(state.value);
+  latest.current = state.value;
+  const initialRef = useRef(initial);
+  initialRef.current = initial;
+
+  useEffect(() => {
+    if (!storage) return;
+    let active = true;
+    // A write or notification before the read resolves is newer than the read
+    let changed = false;
+
+    const unsubscribe = storage.subscribe(key, (value) => {
+      if (!active) return;
+      changed = true;
+      setState((s) => ({ ...s, value: value === undefined ? initialRef.current : (value as T) }));
+    });
+
+    storage.get(key).then(
+      (stored) => {
+        if (!active) return;
+        setState((s) => ({
+          ...s,
+          loaded: true,
+          value: changed || stored === undefined ? s.value : (stored as T),
+        }));
+      },
+      (err: unknown) => {
+        if (active) setState((s) => ({ ...s, loaded: true, error: err instanceof Error ? err : new Error(String(err)) }));
+      },
+    );
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [storage, key]);
+
+  const setValue = useCallback(
+    (next: SetStateAction<T>) => {
+      const value = typeof next === 'function' ? (next as (prev: T) => T)(latest.current) : next;
+      latest.current = value;
+      setState((s) => ({ ...s, value, error: undefined }));
+      storage?.set(key, value).catch((err: unknown) => {
+        setState((s) => ({ ...s, error: err instanceof Error ? err : new Error(String(err)) }));
+      });
+    },
+    [storage, key],
+  );
+
+  return [state.value, setValue, { loaded: state.loaded, error: state.error }];
+}
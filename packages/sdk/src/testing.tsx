@@ -0,0 +1,209 @@
+// ============================================================================
+// @junctionrelay/element-sdk/testing
+// Render element plugins outside the FrameEngine host (Node tests, snapshots)
+// ============================================================================
+
+import { act, type ComponentType } from 'react';
+import { createRoot } from 'react-dom/client';
+import { renderToStaticMarkup } from 'react-dom/server';
+import {
+  HOST_CAPABILITIES,
+  PROTOCOL_VERSION,
+  type ElementHostContext,
+  type ElementHostFonts,
+  type ElementPluginManifest,
+  type ElementRendererProps,
+  type ResolvedSensorValue,
+} from '@junctionrelay/element-protocol';
+import { CaptureSession } from './capture.js';
+import { AnimationClock } from './clock.js';
+import { ElementHostProvider } from './context.js';
+import { InMemorySensorHistory } from './sensors.js';
+import { InMemoryElementStorage } from './storage.js';
+import { DEFAULT_ELEMENT_THEME } from './theme.js';
+
+const PIXEL_FONTS = ['Tom Thumb', 'Press Start 2P', 'Pixel Operator'] as const;
+
+/**
+ * Create a host context for tests. Every font counts as loaded and
+ * loadGoogleFont() resolves immediately, so Renderers that wait for their
+ * font render on the first pass. The theme is DEFAULT_ELEMENT_THEME and
+ * storage starts empty on every call. The clock is a paused
+ * AnimationClock, so animations stand still at time 0 unless a test passes
+ * its own clock and steps it. Pass overrides to swap in other services.
+ *
+ * @example
+ * ```ts
+ * const sensors = new InMemorySensorHistory();
+ * const host = createMockHost({ sensors });
+ * ```
+ */
+export function createMockHost(overrides: Partial<ElementHostContext> = {}): ElementHostContext {
+  const fonts: ElementHostFonts = {
+    loadGoogleFont: () => Promise.resolve(),
+    loadPixelFonts: () => {},
+    isFontLoaded: () => true,
+    isPixelFont: (fontFamily) => (PIXEL_FONTS as readonly string[]).includes(fontFamily),
+    pixelFonts: PIXEL_FONTS,
+  };
+
+  const host: ElementHostContext = {
+    fonts,
+    sensors: new InMemorySensorHistory(),
+    theme: DEFAULT_ELEMENT_THEME,
+    storage: new InMemoryElementStorage().forElement('mock.element', 'mock-element'),
+    clock: new AnimationClock({ paused: true }),
+    ...overrides,
+  };
+  return {
+    hostProtocolVersion: PROTOCOL_VERSION,
+    capabilities: HOST_CAPABILITIES.filter(c => host[c] !== undefined),
+    ...host,
+  };
+}
+
+/**
+ * Create a host context that is capturing a frame at clock time `time`,
+ * the same way a host renders thumbnails and exported frames: the clock is
+ * paused at `time` and `capture` is a CaptureSession. Use it to check that
+ * a Renderer draws a given moment of its animation. Pass the `clock` of a
+ * mounted element to capture it after its animation has been running.
+ *
+ * @example
+ * ```ts
+ * const host = createMockCaptureHost(1500);
+ * const html = renderElement(Renderer, { manifest, previewMode: true, host });
+ * ```
+ */
+export function createMockCaptureHost(
+  time = 0,
+  overrides: Omit<Partial<ElementHostContext>, 'clock' | 'capture'> & { clock?: AnimationClock } = {},
+): ElementHostContext & { clock: AnimationClock; capture: CaptureSession } {
+  const clock = overrides.clock ?? new AnimationClock({ paused: true });
+  const capture = new CaptureSession({ time, clock });
+  return { ...createMockHost({ ...overrides, clock, capture }), clock, capture };
+}
+
+/** Options for renderElement(). Unset props fall back to the manifest, then to empty values. */
+export interface RenderElementOptions {
+  /** Plugin manifest — supplies defaultProperties and defaultSize. */
+  manifest?: Pick<ElementPluginManifest, 'defaultProperties' | 'defaultSize'>;
+
+  /** Element properties, merged over `manifest.defaultProperties`. */
+  properties?: Record<string, unknown>;
+
+  resolvedValues?: Record<string, ResolvedSensorValue>;
+
+  /** Width in pixels (default `manifest.defaultSize.width`, else 200). */
+  width?: number;
+
+  /** Height in pixels (default `manifest.defaultSize.height`, else 100). */
+  height?: number;
+
+  elementPadding?: number;
+  showPlaceholders?: boolean;
+  previewMode?: boolean;
+
+  /** Host context (default createMockHost()). */
+  host?: ElementHostContext;
+}
+
+/**
+ * Render a plugin Renderer to static HTML/SVG markup inside a mock host.
+ * Only the first render pass runs — effects do not — so this shows what
+ * the element paints before any timers or async work.
+ *
+ * @example
+ * ```ts
+ * import { renderElement } from '@junctionrelay/element-sdk/testing';
+ *
+ * const html = renderElement(Renderer, {
+ *   manifest,
+ *   properties: { sensorTag: 'cpu.temp' },
+ *   resolvedValues: { 'cpu.temp': { value: 42, unit: '°C' } },
+ * });
+ * assert.match(html, /42 °C/);
+ * ```
+ */
+export function renderElement(
+  Renderer: ComponentType<ElementRendererProps>,
+  options: RenderElementOptions = {},
+): string {
+  return renderToStaticMarkup(hostedElement(Renderer, options));
+}
+
+/** An element mounted by mountElement(). */
+export interface MountedElement {
+  /** The element's current markup. */
+  html(): string;
+
+  /** Re-render with these options merged over the current ones. */
+  update(options: RenderElementOptions): Promise<void>;
+
+  /** Run `fn` (e.g. a clock step) and wait until React has applied what it caused. */
+  act(fn: () => void | Promise<void>): Promise<void>;
+
+  unmount(): Promise<void>;
+}
+
+/**
+ * Mount a plugin Renderer in a mock host with react-dom, so effects,
+ * subscriptions and clock frames run like on a display. Needs a DOM
+ * before React loads: import `@junctionrelay/element-sdk/testing/dom`
+ * first, or install your own and set `globalThis.IS_REACT_ACT_ENVIRONMENT`.
+ *
+ * @example
+ * ```ts
+ * const host = createMockHost();
+ * const element = await mountElement(Renderer, { manifest, host });
+ * await element.act(() => host.clock!.step(1000));
+ * assert.match(element.html(), /cy="116"/);
+ * await element.unmount();
+ * ```
+ */
+export async function mountElement(
+  Renderer: ComponentType<ElementRendererProps>,
+  options: RenderElementOptions = {},
+): Promise<MountedElement> {
+  if (typeof document === 'undefined') {
+    throw new Error("mountElement() needs a DOM; import '@junctionrelay/element-sdk/testing/dom' first");
+  }
+  let current: RenderElementOptions = { host: createMockHost(), ...options };
+  const container = document.createElement('div');
+  const root = createRoot(container);
+  await act(async () => root.render(hostedElement(Renderer, current)));
+
+  return {
+    html: () => container.innerHTML,
+    update: async (next) => {
+      current = { ...current, ...next };
+      await act(async () => root.render(hostedElement(Renderer, current)));
+    },
+    act: async (fn) => {
+      await act(async () => { await fn(); });
+    },
+    unmount: async () => {
+      await act(async () => root.unmount());
+    },
+  };
+}
+
+function hostedElement(Renderer: ComponentType<ElementRendererProps>, options: RenderElementOptions) {
+  const { manifest } = options;
+
+  const props: ElementRendererProps = {
+    properties: { ...manifest?.defaultProperties, ...options.properties },
+    resolvedValues: options.resolvedValues ?? {},
+    width: options.width ?? manifest?.defaultSize.width ?? 200,
+    height: options.height ?? manifest?.defaultSize.height ?? 100,
+    elementPadding: options.elementPadding,
+    showPlaceholders: options.showPlaceholders,
+    previewMode: options.previewMode,
+  };
+
+  return (
+    <ElementHostProvider value={options.host ?? createMockHost()}>
+      <Renderer {...props} />
+    </ElementHostProvider>
+  );
+}
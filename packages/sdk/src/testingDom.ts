@@ -0,0 +1,17 @@
+// ============================================================================
+// @junctionrelay/element-sdk/testing/dom
+// A happy-dom DOM for mountElement() tests under node:test
+// ============================================================================
+
+// Import this first in a test file: React checks for a DOM when it loads.
+
+import { after } from 'node:test';
+import { Window } from 'happy-dom';
+
+const window = new Window();
+
+Object.assign(globalThis, { window, document: window.document, IS_REACT_ACT_ENVIRONMENT: true });
+// Node 21+ defines a getter-only navigator
+Object.defineProperty(globalThis, 'navigator', { value: window.navigator, configurable: true });
+
+after(() => window.happyDOM.close());
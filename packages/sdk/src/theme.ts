@@ -0,0 +1,117 @@
+// ============================================================================
+// Layout theme: `theme:<token>` color references and useElementTheme() hook
+// ============================================================================
+
+import {
+  THEME_COLOR_PREFIX,
+  THEME_COLOR_TOKENS,
+  type ElementHostTheme,
+  type ElementPluginManifest,
+  type ThemeColorToken,
+} from '@junctionrelay/element-protocol';
+import { useElementHost } from './context.js';
+
+/**
+ * Theme used on hosts without a theme service: the dark palette the
+ * reference plugins were designed against.
+ */
+export const DEFAULT_ELEMENT_THEME: ElementHostTheme = {
+  mode: 'dark',
+  palette: {
+    primary: '#3B82F6',
+    secondary: '#8B5CF6',
+    accent: '#F59E0B',
+    background: '#000000',
+    surface: '#1E1E1E',
+    text: '#FFFFFF',
+    textSecondary: 'rgba(255,255,255,0.7)',
+    success: '#22C55E',
+    warning: '#F59E0B',
+    error: '#EF4444',
+  },
+  typography: {
+    fontFamily: 'Inter',
+    monospaceFontFamily: 'Roboto Mono',
+    fontSize: 16,
+  },
+};
+
+/** Returns true if the string is one of THEME_COLOR_TOKENS. */
+export function isThemeColorToken(token: string): token is ThemeColorToken {
+  return (THEME_COLOR_TOKENS as readonly string[]).includes(token);
+}
+
+/**
+ * The token a `theme:<token>` color value refers to. Returns undefined for
+ * plain CSS colors and for unknown tokens.
+ */
+export function parseThemeColor(value: string): ThemeColorToken | undefined {
+  if (!value.startsWith(THEME_COLOR_PREFIX)) return undefined;
+  const token = value.slice(THEME_COLOR_PREFIX.length);
+  return isThemeColorToken(token) ? token : undefined;
+}
+
+/**
+ * Turn a color property value into a CSS color. `theme:<token>` values are
+ * looked up in the theme's palette (DEFAULT_ELEMENT_THEME when the host has
+ * none); plain CSS colors are returned unchanged. An unknown token resolves
+ * to `fallback`.
+ *
+ * @example
+ * ```ts
+ * resolveThemeColor('theme:accent', theme);  // '#F59E0B'
+ * resolveThemeColor('#00FF00', theme);       // '#00FF00'
+ * ```
+ */
+export function resolveThemeColor(
+  value: string,
+  theme: ElementHostTheme = DEFAULT_ELEMENT_THEME,
+  fallback = 'currentColor',
+): string {
+  if (!value.startsWith(THEME_COLOR_PREFIX)) return value;
+  const token = parseThemeColor(value);
+  if (!token) return fallback;
+  return theme.palette[token] ?? DEFAULT_ELEMENT_THEME.palette[token];
+}
+
+/**
+ * resolveThemeColor() every color property of an element. With a
+ * `propertySchema`, only properties declared as `color` are resolved;
+ * without one, every string value starting with `theme:` is.
+ *
+ * @example
+ * ```tsx
+ * const theme = useElementTheme();
+ * const props = useMemo(
+ *   () => resolveThemeColors(manifest, resolveProperties<MyProperties>(manifest, properties).properties, theme),
+ *   [properties, theme],
+ * );
+ * ```
+ */
+export function resolveThemeColors<T extends object>(
+  manifest: Pick<ElementPluginManifest, 'propertySchema'>,
+  properties: T,
+  theme: ElementHostTheme = DEFAULT_ELEMENT_THEME,
+): T {
+  const resolved = { ...properties } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(resolved)) {
+    if (typeof value !== 'string') continue;
+    const kind = manifest.propertySchema ? manifest.propertySchema[key]?.kind : 'color';
+    if (kind === 'color') resolved[key] = resolveThemeColor(value, theme);
+  }
+  return resolved as T;
+}
+
+/**
+ * Hook that returns the layout's theme, or DEFAULT_ELEMENT_THEME on hosts
+ * without a theme service. Re-renders when the host changes the theme.
+ *
+ * @example
+ * ```tsx
+ * const theme = useElementTheme();
+ * const color = resolveThemeColor(props.textColor, theme);
+ * ```
+ */
+export function useElementTheme(): ElementHostTheme {
+  return useElementHost().theme ?? DEFAULT_ELEMENT_THEME;
+}
@@ -0,0 +1,183 @@
+// ============================================================================
+// Plugin build: esbuild with EXTERNAL_PACKAGES, driven by the manifest
+// ============================================================================
+
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { EXTERNAL_PACKAGES, type ElementPluginManifest } from '@junctionrelay/element-protocol';
+import { parsePackageManifest } from '../validation.js';
+import { checkBundleExternals } from './bundleExternals.js';
+
+/** Entry points tried, in order, when none is given. */
+export const DEFAULT_PLUGIN_ENTRIES = ['src/index.tsx', 'src/index.jsx', 'src/index.ts', 'src/index.js'] as const;
+
+/** Options for buildPlugin() and watchPlugin(). */
+export interface BuildPluginOptions {
+  /** Plugin directory (the folder containing the plugin's package.json). */
+  pluginDir: string;
+
+  /** Source entry relative to pluginDir (default: the first of DEFAULT_PLUGIN_ENTRIES that exists). */
+  entry?: string;
+
+  /** Write a linked `.map` file next to the bundle (default true). */
+  sourcemap?: boolean;
+
+  /** Minify the bundle (default false). */
+  minify?: boolean;
+}
+
+/** Outcome of one build (or one rebuild in watch mode). */
+export interface BuildPluginResult {
+  manifest: ElementPluginManifest;
+
+  /** Absolute path of the bundle — the manifest's `entry`. */
+  outfile: string;
+
+  /** Bundle size in bytes (0 if the build failed). */
+  bytes: number;
+
+  durationMs: number;
+
+  /** Compile errors. Empty = the bundle was written. */
+  errors: string[];
+
+  /** esbuild warnings and checkBundleExternals() issues. */
+  warnings: string[];
+}
+
+/** A running watch build. */
+export interface PluginWatcher {
+  stop(): Promise<void>;
+}
+
+/**
+ * Build a plugin to its manifest's `entry` (usually dist/index.js) with
+ * every EXTERNAL_PACKAGES entry externalized. The manifest is validated with
+ * parsePackageManifest() first, so a bad manifest fails the build instead
+ * of the host's plugin discovery.
+ *
+ * Throws if package.json, the manifest or the entry file is invalid, or if
+ * the build fails for a reason other than compile errors. Compile errors
+ * are returned in `errors`. Requires esbuild to be installed.
+ */
+export async function buildPlugin(options: BuildPluginOptions): Promise<BuildPluginResult> {
+  let result: BuildPluginResult | undefined;
+  let failure: unknown;
+  const context = await createBuildContext(options, r => { result = r; });
+  try {
+    // Compile errors are reported through the onEnd callback as well
+    await context.rebuild().catch((error: unknown) => { failure = error; });
+  } finally {
+    await context.dispose();
+  }
+  // No report means the build itself broke (e.g. the bundle could not be read back)
+  if (!result) throw failure ?? new Error(`Building ${options.pluginDir} produced no result`);
+  return result;
+}
+
+/**
+ * Build a plugin, then rebuild whenever a source file changes. `onBuild`
+ * runs after every build. The manifest is read once — restart the watcher
+ * after editing package.json.
+ */
+export async function watchPlugin(
+  options: BuildPluginOptions,
+  onBuild: (result: BuildPluginResult) => void,
+): Promise<PluginWatcher> {
+  const context = await createBuildContext(options, onBuild);
+  await context.watch();
+  return { stop: () => context.dispose() };
+}
+
+/** The source entry for a plugin: `entry` if given, else the first default that exists. */
+export function resolvePluginEntry(pluginDir: string, entry?: string): string {
+  const candidates = entry ? [entry] : DEFAULT_PLUGIN_ENTRIES;
+  const found = candidates.map(c => resolve(pluginDir, c)).find(c => existsSync(c));
+  if (!found) {
+    throw new Error(`No entry file found in ${pluginDir} (looked for ${candidates.join(', ')})`);
+  }
+  return found;
+}
+
+async function createBuildContext(options: BuildPluginOptions, onEnd: (result: BuildPluginResult) => void) {
+  const pluginDir = resolve(options.pluginDir);
+  const packageFile = join(pluginDir, 'package.json');
+  if (!existsSync(packageFile)) {
+    throw new Error(`No package.json found in ${pluginDir}`);
+  }
+
+  const packageJson = JSON.parse(await readFile(packageFile, 'utf8')) as Record<string, unknown>;
+  const parsed = parsePackageManifest(packageJson);
+  if (!parsed.manifest) {
+    throw new Error(`Invalid manifest in ${packageFile}:\n${parsed.errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+  const manifest = parsed.manifest;
+
+  const entry = resolvePluginEntry(pluginDir, options.entry);
+  const outfile = resolve(pluginDir, manifest.entry);
+  const esbuild = await loadEsbuild();
+
+  let startedAt = 0;
+
+  return esbuild.context({
+    absWorkingDir: pluginDir,
+    entryPoints: [entry],
+    outfile,
+    bundle: true,
+    platform: 'browser',
+    format: 'esm',
+    jsx: 'automatic',
+    external: [...EXTERNAL_PACKAGES],
+    sourcemap: options.sourcemap ?? true,
+    minify: options.minify ?? false,
+    logLevel: 'silent',
+    plugins: [{
+      // Plugins import their own package.json for the manifest; bundle only that field,
+      // not the scripts and dependency lists next to it
+      name: 'junctionrelay-manifest',
+      setup(build) {
+        build.onLoad({ filter: /package\.json$/ }, (args) =>
+          args.path === packageFile
+            ? { contents: JSON.stringify({ junctionrelay: packageJson.junctionrelay }), loader: 'json' }
+            : undefined,
+        );
+      },
+    }, {
+      name: 'junctionrelay-build-report',
+      setup(build) {
+        build.onStart(() => {
+          startedAt = Date.now();
+        });
+        build.onEnd(async (result) => {
+          const errors = result.errors.map(formatMessage);
+          const warnings = result.warnings.map(formatMessage);
+          let bytes = 0;
+
+          if (errors.length === 0) {
+            const bundle = await readFile(outfile, 'utf8');
+            bytes = Buffer.byteLength(bundle);
+            for (const issue of checkBundleExternals(bundle).issues) {
+              warnings.push(`${issue.kind} ${issue.specifier}: ${issue.message}. ${issue.fix}`);
+            }
+          }
+
+          onEnd({ manifest, outfile, bytes, durationMs: Date.now() - startedAt, errors, warnings });
+        });
+      },
+    }],
+  });
+}
+
+async function loadEsbuild(): Promise<typeof import('esbuild')> {
+  try {
+    return await import('esbuild');
+  } catch {
+    throw new Error('esbuild is required to build plugins — install it with `npm install --save-dev esbuild`');
+  }
+}
+
+function formatMessage(message: { text: string; location: { file: string; line: number; column: number } | null }): string {
+  const { location } = message;
+  return location ? `${location.file}:${location.line}:${location.column + 1}: ${message.text}` : message.text;
+}
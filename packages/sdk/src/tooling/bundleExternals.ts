@@ -0,0 +1,201 @@
+// ============================================================================
+// Bundle externals check: shared packages must stay bare imports
+// ============================================================================
+
+import { EXTERNAL_PACKAGES } from '@junctionrelay/element-protocol';
+import { scanSource, type ScannedSource } from './scan.js';
+
+export type BundleExternalsIssueKind = 'inlined-external' | 'unmapped-import' | 'dynamic-require';
+
+/** A problem with how a bundle imports (or fails to import) shared packages. */
+export interface BundleExternalsIssue {
+  /**
+   * - inlined-external: a shared package was bundled instead of imported from the host
+   * - unmapped-import: a bare import the host's import map does not provide
+   * - dynamic-require: bundled CommonJS code calls require() for a package, which throws in the browser
+   */
+  kind: BundleExternalsIssueKind;
+
+  /** The package or import specifier concerned. */
+  specifier: string;
+
+  message: string;
+
+  /** Suggested fix. */
+  fix: string;
+
+  /** Character offset of the first occurrence, with 1-based line and column. */
+  offset: number;
+  line: number;
+  column: number;
+}
+
+/** Result of checkBundleExternals(). */
+export interface BundleExternalsReport {
+  valid: boolean;
+
+  /** Every bare import specifier in the bundle, in order of first appearance. */
+  imports: string[];
+
+  issues: BundleExternalsIssue[];
+}
+
+/** Options for checkBundleExternals(). */
+export interface BundleExternalsOptions {
+  /** Specifiers the host provides (default EXTERNAL_PACKAGES). */
+  externals?: readonly string[];
+}
+
+/**
+ * Signatures that survive minification, for shared packages inlined without
+ * esbuild's `// node_modules/...` path comments. Each matches code that
+ * defines the package, not code that merely uses it.
+ */
+const INLINED_SIGNATURES: [specifier: string, signature: RegExp][] = [
+  ['react', /\.__(?:CLIENT_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE|SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED)\s*=(?!=)/],
+  ['react/jsx-runtime', /\.jsxs\s*=(?!=)/],
+  ['react-dom', /["']__reactFiber\$["']|\.__DOM_INTERNALS_DO_NOT_USE_OR_WARN_USERS_THEY_CANNOT_UPGRADE\s*=(?!=)/],
+  ['@mui/material', /mui\.com\/production-error/],
+  ['@emotion/react', /__EMOTION_TYPE_PLEASE_DO_NOT_USE__/],
+  ['@emotion/styled', /__emotion_real/],
+  ['@junctionrelay/element-sdk', /useElementHost\(\) must be called inside/],
+];
+
+/**
+ * Check a built plugin bundle (e.g. `dist/index.js`) against
+ * EXTERNAL_PACKAGES. Reports shared packages that were bundled instead of
+ * left as bare imports (a second React breaks hooks), bare imports the host
+ * import map cannot resolve, and require() calls for packages from bundled
+ * CommonJS code.
+ *
+ * @example
+ * ```ts
+ * import { checkBundleExternals } from '@junctionrelay/element-sdk/tooling';
+ *
+ * const { valid, issues } = checkBundleExternals(readFileSync('dist/index.js', 'utf8'));
+ * for (const issue of issues) console.log(`${issue.kind} ${issue.specifier}: ${issue.message} — ${issue.fix}`);
+ * ```
+ */
+export function checkBundleExternals(source: string, options: BundleExternalsOptions = {}): BundleExternalsReport {
+  const externals = options.externals ?? EXTERNAL_PACKAGES;
+  const scanned = scanSource(source);
+  const issues: BundleExternalsIssue[] = [];
+
+  const add = (kind: BundleExternalsIssueKind, specifier: string, offset: number, message: string, fix: string) => {
+    if (issues.some(i => i.kind === kind && i.specifier === specifier)) return;
+    issues.push({ kind, specifier, message, fix, offset, ...scanned.position(offset) });
+  };
+
+  // Bare imports the host's import map must resolve
+  const imports = findBareImports(scanned);
+  for (const { specifier, offset } of imports) {
+    if (externals.includes(specifier)) continue;
+    const parent = externals.find(e => specifier.startsWith(`${e}/`));
+    add(
+      'unmapped-import',
+      specifier,
+      offset,
+      `'${specifier}' is left as a bare import, but the host import map only provides ${externals.join(', ')}`,
+      parent
+        ? `Import from '${parent}' instead of '${specifier}'`
+        : `Bundle it: remove --external:${specifier} (or a wildcard that matches it) from the build command`,
+    );
+  }
+
+  // Shared packages compiled into the bundle
+  for (const { specifier, offset } of findInlinedPackages(scanned, externals)) {
+    add(
+      'inlined-external',
+      specifier,
+      offset,
+      `${specifier} is bundled into the plugin instead of imported from the host, so the plugin gets its own copy`,
+      `Add --external:${specifier} to the build command`,
+    );
+  }
+
+  // esbuild's __require() shim for externals required from bundled CommonJS
+  for (const { specifier, offset } of findDynamicRequires(scanned)) {
+    add(
+      'dynamic-require',
+      specifier,
+      offset,
+      `Bundled CommonJS code calls require("${specifier}"), which throws "Dynamic require is not supported" in the browser`,
+      `Find the bundled dependency that requires '${specifier}' and use its ESM build, or bundle that dependency's copy`,
+    );
+  }
+
+  return {
+    valid: issues.length === 0,
+    imports: [...new Set(imports.map(i => i.specifier))],
+    issues: issues.sort((a, b) => a.offset - b.offset),
+  };
+}
+
+function isBareSpecifier(specifier: string): boolean {
+  return specifier.length > 0 && !/^(?:\.{0,2}\/|[a-z][a-z0-9+.-]*:)/i.test(specifier);
+}
+
+/** Static imports, re-exports and import() with a literal specifier. */
+function findBareImports(scanned: ScannedSource): { specifier: string; offset: number }[] {
+  const patterns = [
+    /\bimport\s*(?:[\w$*{}\s,]+?\s*from\s*)?(?=["'])/g,
+    /\bexport\s*(?:\*(?:\s*as\s+[\w$]+)?|\{[^}]*\})\s*from\s*(?=["'])/g,
+    /\bimport\s*\(\s*(?=["'`])/g,
+  ];
+  const found: { specifier: string; offset: number }[] = [];
+
+  for (const pattern of patterns) {
+    for (const match of scanned.code.matchAll(pattern)) {
+      const literal = scanned.literalAt(match.index! + match[0].length);
+      if (literal && isBareSpecifier(literal.value)) {
+        found.push({ specifier: literal.value, offset: match.index! });
+      }
+    }
+  }
+  return found.sort((a, b) => a.offset - b.offset);
+}
+
+/** Shared packages whose code appears in the bundle. */
+function findInlinedPackages(
+  scanned: ScannedSource,
+  externals: readonly string[],
+): { specifier: string; offset: number }[] {
+  const found: { specifier: string; offset: number }[] = [];
+
+  // esbuild path comments (`// node_modules/react/index.js`) and __commonJS keys
+  for (const match of scanned.source.matchAll(/node_modules\/((?:@[\w.-]+\/)?[\w.-]+)\/([\w./-]*)/g)) {
+    const [, pkg, file] = match;
+    const specifier = pkg === 'react' && /(?:^|\/)react-jsx-(?:dev-)?runtime|^jsx-(?:dev-)?runtime/.test(file)
+      ? 'react/jsx-runtime'
+      : pkg;
+    if (externals.includes(specifier)) found.push({ specifier, offset: match.index! });
+  }
+
+  // Minified bundles have no path comments
+  for (const [specifier, signature] of INLINED_SIGNATURES) {
+    const match = signature.exec(scanned.uncommented);
+    if (match && externals.includes(specifier)) found.push({ specifier, offset: match.index });
+  }
+
+  return found.sort((a, b) => a.offset - b.offset);
+}
+
+/** Calls to esbuild's require shim, e.g. `__require("react")` (renamed when minified). */
+function findDynamicRequires(scanned: ScannedSource): { specifier: string; offset: number }[] {
+  const names = new Set(['__require']);
+  for (const match of scanned.code.matchAll(/\b(?:var|let|const)\s+([\w$]+)\s*=\s*\(\s*\(?[\w$]+\)?\s*=>\s*typeof\s+require\b/g)) {
+    names.add(match[1]);
+  }
+
+  const found: { specifier: string; offset: number }[] = [];
+  for (const name of names) {
+    const escaped = name.replace(/\$/g, '\\$');
+    for (const match of scanned.code.matchAll(new RegExp(`(?<![\\w$.])${escaped}\\s*\\(\\s*(?=["'])`, 'g'))) {
+      const literal = scanned.literalAt(match.index! + match[0].length);
+      if (literal && isBareSpecifier(literal.value)) {
+        found.push({ specifier: literal.value, offset: match.index! });
+      }
+    }
+  }
+  return found.sort((a, b) => a.offset - b.offset);
+}
@@ -0,0 +1,22 @@
+// ============================================================================
+// @junctionrelay/element-sdk/tooling
+// Build tools and checks for plugin bundles (Node only — not for use in Renderers)
+// ============================================================================
+
+export { checkStyleIsolation, STYLE_ISOLATION_RULE_IDS } from './styleIsolation.js';
+export type { StyleIsolationViolation, StyleIsolationRuleId } from './styleIsolation.js';
+export { checkBundleExternals } from './bundleExternals.js';
+export type {
+  BundleExternalsReport,
+  BundleExternalsIssue,
+  BundleExternalsIssueKind,
+  BundleExternalsOptions,
+} from './bundleExternals.js';
+export { buildPlugin, watchPlugin, resolvePluginEntry, DEFAULT_PLUGIN_ENTRIES } from './build.js';
+export type { BuildPluginOptions, BuildPluginResult, PluginWatcher } from './build.js';
+export { packPlugin } from './pack.js';
+export type { PackPluginOptions, PackPluginResult, PackedFile } from './pack.js';
+export { inspectPluginZip } from './inspect.js';
+export type { InspectPluginZipOptions, PluginZipReport, PluginZipInstall } from './inspect.js';
+export { createZip, readZip } from './zip.js';
+export type { ZipEntry } from './zip.js';
@@ -0,0 +1,261 @@
+// ============================================================================
+// Plugin zip inspection and install simulation (offline)
+// ============================================================================
+
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import {
+  PLUGIN_CHECKSUMS_FILE,
+  type DiscoveredElementPlugin,
+  type ElementPluginManifest,
+} from '@junctionrelay/element-protocol';
+import { discoverElementPlugin } from '../discovery.js';
+import { parsePackageManifest } from '../validation.js';
+import { readZip, type ZipEntry } from './zip.js';
+
+/** Options for inspectPluginZip(). */
+export interface InspectPluginZipOptions {
+  /**
+   * Elements directory to install into, as the host does on startup: the
+   * zip is extracted unless a folder with the same name already exists.
+   * Default: a temporary directory that is removed afterwards.
+   */
+  elementsDir?: string;
+}
+
+/** What happened when the zip was extracted into the elements directory. */
+export interface PluginZipInstall {
+  /**
+   * - installed: the folder was extracted
+   * - skipped: a folder with the same name already existed (the host keeps it)
+   * - refused: the zip failed a check that makes extraction unsafe or pointless
+   */
+  status: 'installed' | 'skipped' | 'refused';
+
+  /** The elements directory used (removed afterwards if it was temporary). */
+  elementsDir: string;
+
+  /** Absolute path of the folder extracted from the zip (null unless installed). */
+  path: string | null;
+
+  /**
+   * When skipped: the folder already in the elements directory, which the
+   * host keeps instead of this zip. It is not inspected or discovered.
+   */
+  existingPath: string | null;
+}
+
+/** Result of inspectPluginZip(). */
+export interface PluginZipReport {
+  /** True if there are no errors and the extracted plugin was discovered. */
+  valid: boolean;
+
+  errors: string[];
+  warnings: string[];
+
+  /** File names in the zip, in archive order. */
+  files: string[];
+
+  /** The single top-level folder, if there is exactly one. */
+  folder: string | null;
+
+  /** The manifest inside the zip, if it is valid. */
+  manifest: ElementPluginManifest | null;
+
+  install: PluginZipInstall;
+
+  /** What host discovery produces for the installed folder (null unless installed). */
+  discovered: DiscoveredElementPlugin | null;
+}
+
+/**
+ * Check a plugin `.zip` before handing it to a user, then simulate the
+ * host's install: extract it into an elements directory and run discovery
+ * on the result. Needs no network access.
+ *
+ * Checks that every file sits in one top-level folder named after the
+ * manifest's `elementName`, that no entry escapes that folder (`..`,
+ * absolute paths, backslashes), that the manifest is valid, that the
+ * `entry` file is present and — if the zip has a checksums.json — that
+ * every hash matches.
+ *
+ * Throws only if the file cannot be read or is not a zip archive.
+ */
+export async function inspectPluginZip(
+  zip: string | Buffer,
+  options: InspectPluginZipOptions = {},
+): Promise<PluginZipReport> {
+  const entries = readZip(typeof zip === 'string' ? await readFile(zip) : zip);
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const files = entries.map(e => e.name);
+
+  // Path traversal — any of these makes extraction unsafe
+  const unsafe = files.filter(name => !isSafeEntryName(name));
+  for (const name of unsafe) {
+    errors.push(`Entry '${name}' would be extracted outside the plugin folder`);
+  }
+
+  // A single top-level folder
+  const folders = [...new Set(files.filter(isSafeEntryName).map(name => name.split('/')[0]))];
+  const looseFiles = files.filter(name => isSafeEntryName(name) && !name.includes('/'));
+  let folder: string | null = null;
+  if (files.length === 0) {
+    errors.push('Zip is empty');
+  } else if (looseFiles.length > 0) {
+    errors.push(`Files must be inside a folder named after elementName, found at the top level: ${looseFiles.join(', ')}`);
+  } else if (folders.length !== 1) {
+    errors.push(`Zip must contain exactly one top-level folder, found: ${folders.join(', ')}`);
+  } else {
+    folder = folders[0];
+  }
+
+  // Manifest, entry and checksums inside the folder
+  let manifest: ElementPluginManifest | null = null;
+  if (folder !== null) {
+    const contents = new Map(
+      entries.filter(e => e.name.startsWith(`${folder}/`)).map(e => [e.name.slice(folder!.length + 1), e.data]),
+    );
+    manifest = checkPackage(folder, contents, errors, warnings);
+  }
+
+  // Install into the elements directory, as the host does on startup
+  const temporary = options.elementsDir === undefined;
+  const elementsDir = temporary
+    ? await mkdtemp(join(tmpdir(), 'junctionrelay-elements-'))
+    : resolve(options.elementsDir!);
+
+  try {
+    const install = await simulateInstall(entries, folder, elementsDir, errors, unsafe.length > 0);
+    let discovered: DiscoveredElementPlugin | null = null;
+    if (install.status === 'installed') {
+      const result = await discoverElementPlugin(install.path!);
+      if (result.plugin) {
+        discovered = result.plugin;
+      } else {
+        errors.push(...result.errors.map(e => `Discovery: ${e}`));
+      }
+    }
+
+    return {
+      valid: errors.length === 0 && discovered !== null,
+      errors,
+      warnings,
+      files,
+      folder,
+      manifest,
+      install,
+      discovered,
+    };
+  } finally {
+    if (temporary) await rm(elementsDir, { recursive: true, force: true });
+  }
+}
+
+/** A forward-slash relative name with no '..', '.', drive letter or backslash. */
+function isSafeEntryName(name: string): boolean {
+  return (
+    name.length > 0 &&
+    !name.startsWith('/') &&
+    !name.includes('\\') &&
+    !/^[a-z]:/i.test(name) &&
+    !name.split('/').some(segment => segment === '..' || segment === '.')
+  );
+}
+
+/** Check the files of the plugin folder. Returns the manifest if it is valid. */
+function checkPackage(
+  folder: string,
+  contents: Map<string, Buffer>,
+  errors: string[],
+  warnings: string[],
+): ElementPluginManifest | null {
+  const packageJson = contents.get('package.json');
+  if (!packageJson) {
+    errors.push(`${folder}/package.json is missing`);
+    return null;
+  }
+
+  let parsedJson: Record<string, unknown>;
+  try {
+    parsedJson = JSON.parse(packageJson.toString('utf8')) as Record<string, unknown>;
+  } catch {
+    errors.push(`${folder}/package.json is not valid JSON`);
+    return null;
+  }
+
+  const parsed = parsePackageManifest(parsedJson);
+  if (!parsed.manifest) {
+    errors.push(...parsed.errors.map(e => `Manifest: ${e}`));
+    return null;
+  }
+  const manifest = parsed.manifest;
+
+  if (manifest.elementName !== folder) {
+    errors.push(`Top-level folder '${folder}' must match elementName '${manifest.elementName}'`);
+  }
+
+  const entry = manifest.entry.replace(/^(?:\.\/)+/, '');
+  if (!contents.has(entry)) {
+    errors.push(`Entry '${manifest.entry}' is missing from the zip`);
+  }
+
+  const checksumsFile = contents.get(PLUGIN_CHECKSUMS_FILE);
+  if (!checksumsFile) {
+    warnings.push(`No ${PLUGIN_CHECKSUMS_FILE} — file integrity was not checked`);
+    return manifest;
+  }
+
+  let checksums: Record<string, unknown>;
+  try {
+    checksums = JSON.parse(checksumsFile.toString('utf8')) as Record<string, unknown>;
+  } catch {
+    errors.push(`${PLUGIN_CHECKSUMS_FILE} is not valid JSON`);
+    return manifest;
+  }
+
+  for (const [path, expected] of Object.entries(checksums)) {
+    const data = contents.get(path);
+    if (!data) {
+      errors.push(`${PLUGIN_CHECKSUMS_FILE} lists '${path}', which is missing from the zip`);
+    } else if (createHash('sha256').update(data).digest('hex') !== expected) {
+      errors.push(`Checksum mismatch for '${path}'`);
+    }
+  }
+  for (const path of contents.keys()) {
+    if (path !== PLUGIN_CHECKSUMS_FILE && !(path in checksums)) {
+      warnings.push(`'${path}' is not listed in ${PLUGIN_CHECKSUMS_FILE}`);
+    }
+  }
+
+  return manifest;
+}
+
+/** Extract the zip into the elements directory unless the folder exists. */
+async function simulateInstall(
+  entries: ZipEntry[],
+  folder: string | null,
+  elementsDir: string,
+  errors: string[],
+  unsafe: boolean,
+): Promise<PluginZipInstall> {
+  if (folder === null || unsafe) {
+    return { status: 'refused', elementsDir, path: null, existingPath: null };
+  }
+
+  const path = join(elementsDir, folder);
+  if (existsSync(path)) {
+    errors.push(`'${folder}' already exists in ${elementsDir} — the host skips this zip until that folder is deleted`);
+    return { status: 'skipped', elementsDir, path: null, existingPath: path };
+  }
+
+  for (const { name, data } of entries) {
+    const target = join(elementsDir, name);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, data);
+  }
+  return { status: 'installed', elementsDir, path, existingPath: null };
+}
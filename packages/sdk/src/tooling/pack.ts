@@ -0,0 +1,142 @@
+// ============================================================================
+// Plugin pack: validated, reproducible .zip for the host's elements directory
+// ============================================================================
+
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { readdir, readFile, realpath, stat, writeFile } from 'node:fs/promises';
+import { join, relative, resolve, sep } from 'node:path';
+import {
+  PLUGIN_CHECKSUMS_FILE,
+  type ElementPluginManifest,
+  type PluginChecksums,
+} from '@junctionrelay/element-protocol';
+import { parsePackageManifest } from '../validation.js';
+import { createZip } from './zip.js';
+
+/** Options for packPlugin(). */
+export interface PackPluginOptions {
+  /** Plugin directory (the folder containing the plugin's package.json). */
+  pluginDir: string;
+
+  /** Output zip path (default: `<pluginDir>/<elementName>.zip`). */
+  outfile?: string;
+}
+
+/** A file written to the package. */
+export interface PackedFile {
+  /** Path relative to the plugin folder (forward slashes). */
+  path: string;
+
+  bytes: number;
+
+  /** Lowercase hex SHA-256 digest, as recorded in checksums.json. */
+  sha256: string;
+}
+
+/** Outcome of packPlugin(). */
+export interface PackPluginResult {
+  manifest: ElementPluginManifest;
+
+  /** Absolute path of the written zip. */
+  outfile: string;
+
+  /** Packed files in zip order, excluding checksums.json itself. */
+  files: PackedFile[];
+
+  /** Zip size in bytes. */
+  bytes: number;
+}
+
+/**
+ * Pack a built plugin into `<elementName>.zip`. The zip holds one
+ * `<elementName>/` folder with package.json, the manifest's `entry`, every
+ * file listed in (or under a folder listed in) `assets`, and a
+ * PLUGIN_CHECKSUMS_FILE with the SHA-256 of each of those files.
+ *
+ * The manifest is validated first. Files are sorted and timestamps are
+ * fixed, so identical inputs produce a byte-identical zip.
+ *
+ * Throws if the manifest is invalid or the entry or an asset is missing.
+ */
+export async function packPlugin(options: PackPluginOptions): Promise<PackPluginResult> {
+  const pluginDir = resolve(options.pluginDir);
+  const packageFile = join(pluginDir, 'package.json');
+  if (!existsSync(packageFile)) {
+    throw new Error(`No package.json found in ${pluginDir}`);
+  }
+
+  const parsed = parsePackageManifest(JSON.parse(await readFile(packageFile, 'utf8')) as Record<string, unknown>);
+  if (!parsed.manifest) {
+    throw new Error(`Invalid manifest in ${packageFile}:\n${parsed.errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+  const manifest = parsed.manifest;
+
+  const entry = normalizePath(manifest.entry);
+  if (!existsSync(join(pluginDir, entry))) {
+    throw new Error(`Entry '${manifest.entry}' not found — run "npm run build" first`);
+  }
+
+  const assets = new Set<string>();
+  const root = await realpath(pluginDir);
+  for (const asset of manifest.assets ?? []) {
+    const path = join(pluginDir, normalizePath(asset));
+    if (!existsSync(path)) {
+      throw new Error(`Asset '${asset}' not found in ${pluginDir}`);
+    }
+    for (const file of await listFiles(path, root)) {
+      assets.add(relative(pluginDir, file).split(sep).join('/'));
+    }
+  }
+  assets.delete('package.json');
+  assets.delete(entry);
+  assets.delete(PLUGIN_CHECKSUMS_FILE);
+
+  const paths = ['package.json', entry, ...[...assets].sort()];
+  const files: PackedFile[] = [];
+  const entries = [];
+  const checksums: PluginChecksums = {};
+
+  for (const path of paths) {
+    const data = await readFile(join(pluginDir, path));
+    const sha256 = createHash('sha256').update(data).digest('hex');
+    files.push({ path, bytes: data.length, sha256 });
+    entries.push({ name: `${manifest.elementName}/${path}`, data });
+    checksums[path] = sha256;
+  }
+  entries.push({
+    name: `${manifest.elementName}/${PLUGIN_CHECKSUMS_FILE}`,
+    data: Buffer.from(`${JSON.stringify(checksums, null, 2)}\n`),
+  });
+
+  const zip = createZip(entries);
+  const outfile = resolve(pluginDir, options.outfile ?? `${manifest.elementName}.zip`);
+  await writeFile(outfile, zip);
+
+  return { manifest, outfile, files, bytes: zip.length };
+}
+
+/** Strip a leading './' so manifest paths compare equal to walked paths. */
+function normalizePath(path: string): string {
+  return path.replace(/^(?:\.\/)+/, '');
+}
+
+/**
+ * A file, or every file under a directory (sorted, recursive). Throws on a
+ * symlink that resolves outside `root`, so an asset folder can't pull in
+ * files from elsewhere on disk.
+ */
+async function listFiles(path: string, root: string): Promise<string[]> {
+  const real = await realpath(path);
+  if (real !== root && !real.startsWith(root + sep)) {
+    throw new Error(`${path} links outside the plugin folder (to ${real})`);
+  }
+  if (!(await stat(path)).isDirectory()) return [path];
+
+  const files: string[] = [];
+  const names = (await readdir(path)).sort();
+  for (const name of names) {
+    files.push(...await listFiles(join(path, name), root));
+  }
+  return files;
+}
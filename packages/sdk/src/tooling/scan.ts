@@ -0,0 +1,206 @@
+// ============================================================================
+// Minimal JavaScript scanner for static checks on built plugin bundles
+//
+// Not a parser: it only separates comments, string/template literals and
+// regex literals from code, which is enough for the pattern checks in this
+// folder to ignore look-alikes in comments and to read literal values.
+// ============================================================================
+
+/** A string, template chunk or regex literal found in the source. */
+export interface SourceLiteral {
+  kind: 'string' | 'template' | 'regex';
+
+  /** Offset of the opening delimiter. */
+  start: number;
+
+  /** Offset just past the closing delimiter. */
+  end: number;
+
+  /** Raw text between the delimiters (escapes are not processed). */
+  value: string;
+}
+
+/** Result of scanning a source file. */
+export interface ScannedSource {
+  source: string;
+
+  /**
+   * The source with comments and literal contents replaced by spaces.
+   * Delimiters stay in place and offsets match `source`, so regexes run on
+   * `code` only ever match real code.
+   */
+  code: string;
+
+  /** The source with only comments replaced by spaces (literals intact). */
+  uncommented: string;
+
+  literals: SourceLiteral[];
+
+  /** The literal whose opening delimiter is at `offset`, if any. */
+  literalAt(offset: number): SourceLiteral | undefined;
+
+  /** The literal whose closing delimiter ends just before `offset`, if any. */
+  literalEndingAt(offset: number): SourceLiteral | undefined;
+
+  /** 1-based line and column of an offset. */
+  position(offset: number): { line: number; column: number };
+}
+
+// After these characters (or keywords) a `/` starts a regex, not a division
+const REGEX_PRECEDERS = new Set('(,=:[!&|?{};+-*%<>~^'.split(''));
+const REGEX_KEYWORDS = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void',
+  'throw', 'case', 'do', 'else', 'yield', 'await',
+]);
+
+/** Scan JavaScript source into code and literals. */
+export function scanSource(source: string): ScannedSource {
+  const code = source.split('');
+  const uncommented = source.split('');
+  const literals: SourceLiteral[] = [];
+  // Open `{` contexts: 'brace' for code blocks, 'template' for `${` substitutions
+  const braces: ('brace' | 'template')[] = [];
+  let lastSignificant = '';
+  let lastWord = '';
+  let i = 0;
+
+  const blank = (from: number, to: number, target = code) => {
+    for (let k = from; k < to; k++) {
+      if (target[k] !== '\n') target[k] = ' ';
+    }
+  };
+
+  /** Scan a template chunk starting just after "`" or "}"; returns the offset after it. */
+  const scanTemplate = (open: number): number => {
+    let k = open + 1;
+    while (k < source.length) {
+      if (source[k] === '\\') { k += 2; continue; }
+      if (source[k] === '`') break;
+      if (source[k] === '$' && source[k + 1] === '{') break;
+      k++;
+    }
+    literals.push({ kind: 'template', start: open, end: k + 1, value: source.slice(open + 1, k) });
+    blank(open + 1, k);
+    if (source[k] === '$') {
+      braces.push('template');
+      return k + 2;
+    }
+    return k + 1;
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    const next = source[i + 1];
+
+    // Comments
+    if (ch === '/' && next === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? source.length : end;
+      blank(i, stop);
+      blank(i, stop, uncommented);
+      i = stop;
+      continue;
+    }
+    if (ch === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      blank(i, stop);
+      blank(i, stop, uncommented);
+      i = stop;
+      continue;
+    }
+
+    // String literals
+    if (ch === '"' || ch === "'") {
+      let k = i + 1;
+      while (k < source.length && source[k] !== ch && source[k] !== '\n') {
+        k += source[k] === '\\' ? 2 : 1;
+      }
+      literals.push({ kind: 'string', start: i, end: k + 1, value: source.slice(i + 1, k) });
+      blank(i + 1, k);
+      i = k + 1;
+      lastSignificant = ch;
+      lastWord = '';
+      continue;
+    }
+
+    // Template literals and `${ ... }` substitutions
+    if (ch === '`') {
+      i = scanTemplate(i);
+      lastSignificant = '`';
+      lastWord = '';
+      continue;
+    }
+    if (ch === '{') {
+      braces.push('brace');
+    } else if (ch === '}') {
+      if (braces.pop() === 'template') {
+        i = scanTemplate(i);
+        lastSignificant = '`';
+        lastWord = '';
+        continue;
+      }
+    }
+
+    // Regex literals
+    if (ch === '/' && (lastSignificant === '' || REGEX_PRECEDERS.has(lastSignificant) || REGEX_KEYWORDS.has(lastWord))) {
+      let k = i + 1;
+      let inClass = false;
+      while (k < source.length && source[k] !== '\n') {
+        if (source[k] === '\\') { k += 2; continue; }
+        if (source[k] === '[') inClass = true;
+        else if (source[k] === ']') inClass = false;
+        else if (source[k] === '/' && !inClass) break;
+        k++;
+      }
+      literals.push({ kind: 'regex', start: i, end: k + 1, value: source.slice(i + 1, k) });
+      blank(i + 1, k);
+      i = k + 1;
+      while (i < source.length && /[a-z]/i.test(source[i])) i++;
+      lastSignificant = '/';
+      lastWord = '';
+      continue;
+    }
+
+    // Track the previous token for regex detection
+    if (/[A-Za-z0-9_$]/.test(ch)) {
+      let k = i;
+      while (k < source.length && /[A-Za-z0-9_$]/.test(source[k])) k++;
+      lastWord = source.slice(i, k);
+      lastSignificant = source[k - 1];
+      i = k;
+      continue;
+    }
+    if (!/\s/.test(ch)) {
+      lastSignificant = ch;
+      lastWord = '';
+    }
+    i++;
+  }
+
+  const byStart = new Map(literals.map(l => [l.start, l]));
+  const byEnd = new Map(literals.map(l => [l.end, l]));
+  const lineStarts = [0];
+  for (let k = 0; k < source.length; k++) {
+    if (source[k] === '\n') lineStarts.push(k + 1);
+  }
+
+  return {
+    source,
+    code: code.join(''),
+    uncommented: uncommented.join(''),
+    literals,
+    literalAt: offset => byStart.get(offset),
+    literalEndingAt: offset => byEnd.get(offset),
+    position(offset) {
+      let lo = 0;
+      let hi = lineStarts.length - 1;
+      while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (lineStarts[mid] <= offset) lo = mid;
+        else hi = mid - 1;
+      }
+      return { line: lo + 1, column: offset - lineStarts[lo] + 1 };
+    },
+  };
+}
@@ -0,0 +1,262 @@
+// ============================================================================
+// Static style-isolation check for built plugin bundles
+// ============================================================================
+
+import { STYLE_ISOLATION_RULES } from '@junctionrelay/element-protocol';
+import { scanSource, type ScannedSource, type SourceLiteral } from './scan.js';
+
+export const STYLE_ISOLATION_RULE_IDS = [
+  'no-style-element',
+  'no-stylesheet-link',
+  'no-body-style',
+  'no-global-styles',
+  'no-google-fonts-url',
+  'no-font-face',
+  'no-broad-selectors',
+  'no-important-inherited',
+] as const;
+
+export type StyleIsolationRuleId = (typeof STYLE_ISOLATION_RULE_IDS)[number];
+
+/** Which STYLE_ISOLATION_RULES entry each check enforces. */
+const RULE_REFERENCES: Record<StyleIsolationRuleId, (typeof STYLE_ISOLATION_RULES)[number]> = {
+  'no-style-element': STYLE_ISOLATION_RULES[0],
+  'no-stylesheet-link': STYLE_ISOLATION_RULES[0],
+  'no-body-style': STYLE_ISOLATION_RULES[0],
+  'no-global-styles': STYLE_ISOLATION_RULES[0],
+  'no-google-fonts-url': STYLE_ISOLATION_RULES[1],
+  'no-font-face': STYLE_ISOLATION_RULES[1],
+  'no-broad-selectors': STYLE_ISOLATION_RULES[2],
+  'no-important-inherited': STYLE_ISOLATION_RULES[3],
+};
+
+/** A style-isolation violation found in a bundle. */
+export interface StyleIsolationViolation {
+  ruleId: StyleIsolationRuleId;
+
+  /** The STYLE_ISOLATION_RULES entry that is violated. */
+  rule: (typeof STYLE_ISOLATION_RULES)[number];
+
+  message: string;
+
+  /** Character offset into the source. */
+  offset: number;
+
+  /** 1-based line and column of the offset. */
+  line: number;
+  column: number;
+
+  /** The offending source text (shortened to 80 characters). */
+  snippet: string;
+}
+
+// Properties that inherit into every descendant, in CSS (kebab) form
+const INHERITED_PROPERTIES = new Set([
+  'color', 'font', 'font-family', 'font-size', 'font-style', 'font-variant', 'font-weight',
+  'line-height', 'letter-spacing', 'word-spacing', 'text-align', 'text-indent', 'text-transform',
+  'text-shadow', 'white-space', 'visibility', 'cursor', 'direction', 'quotes', 'list-style',
+]);
+
+const BROAD_SELECTOR = /^(?:\*|html|body|:root)(?=$|[\s>+~:[.#])/i;
+const BARE_ELEMENT_SELECTOR = /^[a-z][a-z0-9]*$/i;
+
+/**
+ * Check bundled plugin source (e.g. `dist/index.js`) against
+ * STYLE_ISOLATION_RULES. Comments are ignored; violations are reported in
+ * source order with offsets, line/column and the rule they break.
+ *
+ * @example
+ * ```ts
+ * import { checkStyleIsolation } from '@junctionrelay/element-sdk/tooling';
+ *
+ * for (const v of checkStyleIsolation(readFileSync('dist/index.js', 'utf8'))) {
+ *   console.log(`dist/index.js:${v.line}:${v.column} ${v.ruleId} — ${v.message}`);
+ * }
+ * ```
+ */
+export function checkStyleIsolation(source: string): StyleIsolationViolation[] {
+  const scanned = scanSource(source);
+  const violations: StyleIsolationViolation[] = [];
+
+  const report = (ruleId: StyleIsolationRuleId, offset: number, end: number, message: string) => {
+    const { line, column } = scanned.position(offset);
+    const text = source.slice(offset, end).replace(/\s+/g, ' ');
+    violations.push({
+      ruleId,
+      rule: RULE_REFERENCES[ruleId],
+      message,
+      offset,
+      line,
+      column,
+      snippet: text.length > 80 ? `${text.slice(0, 77)}...` : text,
+    });
+  };
+
+  checkCode(scanned, report);
+  for (const literal of scanned.literals) {
+    if (literal.kind !== 'regex') checkLiteral(scanned, literal, report);
+  }
+
+  return violations.sort((a, b) => a.offset - b.offset);
+}
+
+type Report = (ruleId: StyleIsolationRuleId, offset: number, end: number, message: string) => void;
+
+/** Patterns in code: DOM calls, element creation, imports. */
+function checkCode(scanned: ScannedSource, report: Report): void {
+  const { code } = scanned;
+  const valueAfter = (match: RegExpMatchArray) => scanned.literalAt(match.index! + match[0].length)?.value;
+  const endAfter = (match: RegExpMatchArray) =>
+    scanned.literalAt(match.index! + match[0].length)?.end ?? match.index! + match[0].length;
+
+  // document.createElement('style') / jsx('style', ...) / createElement('link') + rel
+  for (const match of code.matchAll(/\b(?:createElement|jsxs?|jsxDEV)\s*\(\s*(?=["'`])/g)) {
+    const tag = valueAfter(match)?.toLowerCase();
+    if (tag === 'style') {
+      report('no-style-element', match.index!, endAfter(match) + 1, 'Creates a <style> element, which styles the whole host document');
+    }
+  }
+
+  // link.rel = 'stylesheet' / { rel: 'stylesheet' } / setAttribute('rel', 'stylesheet')
+  for (const match of code.matchAll(/\brel\s*[:=]\s*(?=["'`])/g)) {
+    if (valueAfter(match)?.toLowerCase() === 'stylesheet') {
+      report('no-stylesheet-link', match.index!, endAfter(match), 'Creates a <link rel="stylesheet">, which styles the whole host document');
+    }
+  }
+  for (const match of code.matchAll(/\bsetAttribute\s*\(\s*(?=["'`])/g)) {
+    const name = scanned.literalAt(match.index! + match[0].length);
+    if (name?.value !== 'rel') continue;
+    const rest = /^\s*,\s*/.exec(code.slice(name.end));
+    const value = rest ? scanned.literalAt(name.end + rest[0].length) : undefined;
+    if (value?.value.toLowerCase() === 'stylesheet') {
+      report('no-stylesheet-link', match.index!, value.end, 'Creates a <link rel="stylesheet">, which styles the whole host document');
+    }
+  }
+
+  // document.body.style / document.documentElement.style
+  for (const match of code.matchAll(/\bdocument\s*\.\s*(?:body|documentElement)\s*\.\s*style\b/g)) {
+    report('no-body-style', match.index!, match.index! + match[0].length, 'Writes styles on the host document root');
+  }
+
+  // new FontFace(...) / document.fonts.add(...)
+  for (const match of code.matchAll(/\bnew\s+FontFace\s*\(|\bdocument\s*\.\s*fonts\s*\.\s*add\s*\(/g)) {
+    report('no-font-face', match.index!, match.index! + match[0].length, 'Registers a font directly — use useElementHost().assets.loadFont() instead');
+  }
+
+  // Emotion injectGlobal (bundled @emotion/css) and <Global> / MUI <GlobalStyles> imports
+  for (const match of code.matchAll(/\binjectGlobal\b/g)) {
+    report('no-global-styles', match.index!, match.index! + match[0].length, 'injectGlobal adds styles to the whole host document');
+  }
+  for (const match of code.matchAll(/\bimport\s*\{([^}]*)\}\s*from\s*(?=["'])/g)) {
+    const from = valueAfter(match);
+    if (from !== '@emotion/react' && from !== '@mui/material') continue;
+    const names = match[1].split(',').map(s => s.trim().split(/\s+as\s+/)[0]);
+    const global = names.find(n => n === 'Global' || n === 'GlobalStyles');
+    if (global) {
+      report('no-global-styles', match.index!, endAfter(match), `<${global}> from ${from} adds styles to the whole host document`);
+    }
+  }
+  for (const match of code.matchAll(/\bimport\s+[\w$]+\s+from\s*(?=["'])/g)) {
+    if (valueAfter(match) === '@mui/material/GlobalStyles') {
+      report('no-global-styles', match.index!, endAfter(match), '<GlobalStyles> adds styles to the whole host document');
+    }
+  }
+}
+
+/** Patterns inside string and template literals: URLs, HTML and CSS text, style values. */
+function checkLiteral(scanned: ScannedSource, literal: SourceLiteral, report: Report): void {
+  const { value } = literal;
+  const at = (index: number) => literal.start + 1 + index;
+
+  for (const match of value.matchAll(/fonts\.(?:googleapis|gstatic)\.com/g)) {
+    report(
+      'no-google-fonts-url',
+      at(match.index!),
+      at(match.index! + match[0].length),
+      'Loads Google Fonts directly — use useElementHost().fonts.loadGoogleFont() instead',
+    );
+  }
+
+  for (const match of value.matchAll(/@font-face\b/gi)) {
+    report('no-font-face', at(match.index!), at(match.index! + match[0].length), 'Declares an @font-face rule — use useElementHost().assets.loadFont() instead');
+  }
+
+  // HTML written through innerHTML / insertAdjacentHTML
+  for (const match of value.matchAll(/<style[\s>]/gi)) {
+    report('no-style-element', at(match.index!), at(match.index! + match[0].length), 'Injects a <style> element through HTML');
+  }
+  for (const match of value.matchAll(/<link\b[^>]*\bstylesheet\b[^>]*>?/gi)) {
+    report('no-stylesheet-link', at(match.index!), at(match.index! + match[0].length), 'Injects a <link rel="stylesheet"> through HTML');
+  }
+
+  // CSS rule text: `selector { declarations }`
+  for (const match of value.matchAll(/([^{};]*)\{([^{}]*)\}?/g)) {
+    const selectors = match[1].split(',').map(s => s.trim()).filter(Boolean);
+    if (selectors.length === 0 || selectors.some(s => s.startsWith('@'))) continue;
+
+    const broad = selectors.find(s => BROAD_SELECTOR.test(s));
+    if (broad) {
+      report('no-broad-selectors', at(match.index!), at(match.index! + match[0].length), `Selector '${broad}' matches elements outside the plugin`);
+    }
+
+    if (broad || selectors.some(s => BARE_ELEMENT_SELECTOR.test(s))) {
+      for (const decl of match[2].matchAll(/([a-z-]+)\s*:[^;]*!important/gi)) {
+        if (INHERITED_PROPERTIES.has(decl[1].toLowerCase())) {
+          const start = match.index! + match[1].length + 1 + decl.index!;
+          report(
+            'no-important-inherited',
+            at(start),
+            at(start + decl[0].length),
+            `'${decl[1]}: ... !important' on a broad selector overrides the host's inherited styles`,
+          );
+        }
+      }
+    }
+  }
+
+  // Style object values: { color: 'red !important' } on a global style object
+  if (/!important/i.test(value) && literal.kind === 'string') {
+    const before = scanned.code.slice(Math.max(0, literal.start - 200), literal.start);
+    const key = /([A-Za-z-]+)\s*:\s*$/.exec(before)?.[1]
+      ?? (() => {
+        const quoted = /["']\s*:\s*$/.exec(before);
+        return quoted ? scanned.literalEndingAt(literal.start - quoted[0].length + 1)?.value : undefined;
+      })();
+    const selector = findEnclosingObjectKey(scanned, literal.start);
+    if (key && INHERITED_PROPERTIES.has(toKebab(key)) && selector !== undefined && BROAD_SELECTOR.test(selector)) {
+      report(
+        'no-important-inherited',
+        literal.start,
+        literal.end,
+        `'${key}: ... !important' on '${selector}' overrides the host's inherited styles`,
+      );
+    }
+  }
+}
+
+/**
+ * For a literal inside `{ 'body': { color: '...' } }`, the key of the
+ * enclosing object (e.g. 'body'), as used by Global / GlobalStyles styles.
+ */
+function findEnclosingObjectKey(scanned: ScannedSource, offset: number): string | undefined {
+  const { code } = scanned;
+  let depth = 0;
+  for (let k = offset - 1; k >= 0; k--) {
+    if (code[k] === '}') depth++;
+    else if (code[k] === '{') {
+      if (depth === 0) {
+        const before = code.slice(Math.max(0, k - 200), k);
+        const bare = /([A-Za-z_$][\w$]*)\s*:\s*$/.exec(before);
+        if (bare) return bare[1];
+        const quoted = /["']\s*:\s*$/.exec(before);
+        return quoted ? scanned.literalEndingAt(k - quoted[0].length + 1)?.value : undefined;
+      }
+      depth--;
+    }
+  }
+  return undefined;
+}
+
+function toKebab(name: string): string {
+  return name.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+}
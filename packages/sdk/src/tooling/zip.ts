@@ -0,0 +1,170 @@
+// ============================================================================
+// Minimal ZIP writer and reader using Node.js built-ins
+//
+// Supports what plugin packages need: deflated (or stored) files, UTF-8
+// names, no encryption, no ZIP64. The writer is deterministic — timestamps
+// and attributes are fixed, so the same entries always give the same bytes.
+// ============================================================================
+
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+
+/** A file in a zip archive. Names use forward slashes. */
+export interface ZipEntry {
+  name: string;
+  data: Buffer;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// General purpose flag bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800;
+
+// 1980-01-01 00:00, the earliest DOS date — fixed so packs are reproducible
+const DOS_TIME = 0;
+const DOS_DATE = (0 << 9) | (1 << 5) | 1;
+
+/** Create a zip archive. Entries are written in the order given. */
+export function createZip(entries: ZipEntry[]): Buffer {
+  const localHeaders: Buffer[] = [];
+  const centralHeaders: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, data } of entries) {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    // Local file header (30 bytes + name + compressed data)
+    const local = Buffer.alloc(30 + nameBytes.length + compressed.length);
+    local.writeUInt32LE(LOCAL_HEADER, 0);
+    local.writeUInt16LE(20, 4);                  // version needed
+    local.writeUInt16LE(UTF8_FLAG, 6);           // flags
+    local.writeUInt16LE(8, 8);                   // compression: deflate
+    local.writeUInt16LE(DOS_TIME, 10);           // mod time
+    local.writeUInt16LE(DOS_DATE, 12);           // mod date
+    local.writeUInt32LE(crc, 14);                // crc-32
+    local.writeUInt32LE(compressed.length, 18);  // compressed size
+    local.writeUInt32LE(data.length, 22);        // uncompressed size
+    local.writeUInt16LE(nameBytes.length, 26);   // name length
+    local.writeUInt16LE(0, 28);                  // extra length
+    nameBytes.copy(local, 30);
+    compressed.copy(local, 30 + nameBytes.length);
+    localHeaders.push(local);
+
+    // Central directory header (46 bytes + name)
+    const central = Buffer.alloc(46 + nameBytes.length);
+    central.writeUInt32LE(CENTRAL_HEADER, 0);
+    central.writeUInt16LE(20, 4);                  // version made by
+    central.writeUInt16LE(20, 6);                  // version needed
+    central.writeUInt16LE(UTF8_FLAG, 8);           // flags
+    central.writeUInt16LE(8, 10);                  // compression: deflate
+    central.writeUInt16LE(DOS_TIME, 12);           // mod time
+    central.writeUInt16LE(DOS_DATE, 14);           // mod date
+    central.writeUInt32LE(crc, 16);                // crc-32
+    central.writeUInt32LE(compressed.length, 20);  // compressed size
+    central.writeUInt32LE(data.length, 24);        // uncompressed size
+    central.writeUInt16LE(nameBytes.length, 28);   // name length
+    central.writeUInt16LE(0, 30);                  // extra length
+    central.writeUInt16LE(0, 32);                  // comment length
+    central.writeUInt16LE(0, 34);                  // disk number
+    central.writeUInt16LE(0, 36);                  // internal attributes
+    central.writeUInt32LE(0, 38);                  // external attributes
+    central.writeUInt32LE(offset, 42);             // local header offset
+    nameBytes.copy(central, 46);
+    centralHeaders.push(central);
+
+    offset += local.length;
+  }
+
+  const centralDirSize = centralHeaders.reduce((s, b) => s + b.length, 0);
+
+  // End of central directory (22 bytes)
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  eocd.writeUInt16LE(0, 4);                 // disk number
+  eocd.writeUInt16LE(0, 6);                 // central dir disk
+  eocd.writeUInt16LE(entries.length, 8);    // entries on disk
+  eocd.writeUInt16LE(entries.length, 10);   // total entries
+  eocd.writeUInt32LE(centralDirSize, 12);   // central dir size
+  eocd.writeUInt32LE(offset, 16);           // central dir offset
+  eocd.writeUInt16LE(0, 20);                // comment length
+
+  return Buffer.concat([...localHeaders, ...centralHeaders, eocd]);
+}
+
+/**
+ * Read every file in a zip archive, in central directory order. Directory
+ * entries are skipped. Throws if the archive is malformed, uses an
+ * unsupported compression method or a file fails its CRC check.
+ */
+export function readZip(zip: Buffer): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(zip);
+  const count = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== CENTRAL_HEADER) {
+      throw new Error('Invalid zip: bad central directory header');
+    }
+    const method = zip.readUInt16LE(offset + 10);
+    const crc = zip.readUInt32LE(offset + 16);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    if (localOffset + 30 > zip.length || zip.readUInt32LE(localOffset) !== LOCAL_HEADER) {
+      throw new Error(`Invalid zip: bad local header for '${name}'`);
+    }
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const raw = zip.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === 0) data = Buffer.from(raw);
+    else if (method === 8) data = inflateRawSync(raw);
+    else throw new Error(`Unsupported compression method ${method} for '${name}'`);
+
+    if (crc32(data) !== crc) {
+      throw new Error(`CRC mismatch for '${name}'`);
+    }
+    entries.push({ name, data });
+  }
+
+  return entries;
+}
+
+function findEndOfCentralDirectory(zip: Buffer): number {
+  // The record is 22 bytes plus a comment of up to 65535 bytes
+  const stop = Math.max(0, zip.length - 22 - 0xffff);
+  for (let i = zip.length - 22; i >= stop; i--) {
+    if (zip.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) return i;
+  }
+  throw new Error('Invalid zip: end of central directory not found');
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// CRC-32 (IEEE 802.3)
+function crc32(buf: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) {
+    crc = CRC_TABLE[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -2,7 +2,20 @@
 // Manifest validation for element plugins
 // ============================================================================
 
-import { ELEMENT_CATEGORIES, PLUGIN_ID_PATTERN, type ElementPluginManifest } from '@junctionrelay/element-protocol';
+import {
+  ELEMENT_CATEGORIES,
+  PLUGIN_ID_PATTERN,
+  PROPERTIES_VERSION_KEY,
+  PROPERTY_KINDS,
+  SENSOR_SLOTS_PROPERTY,
+  SENSOR_SLOT_NAME_PATTERN,
+  SENSOR_VALUE_TYPES,
+  THEME_COLOR_PREFIX,
+  THEME_COLOR_TOKENS,
+  type ElementPluginManifest,
+  type PropertyDescriptor,
+} from '@junctionrelay/element-protocol';
+import { isValidVersionRange } from './semver.js';
 
 /** Result of validating a plugin manifest. */
 export interface ValidationResult {
@@ -31,6 +44,8 @@ export function validateManifest(manifest: unknown): ValidationResult {
   // entry
   if (typeof m.entry !== 'string' || m.entry.length === 0) {
     errors.push('entry must be a non-empty string (e.g. "dist/index.js")');
+  } else if (!isPackagePath(m.entry)) {
+    errors.push(`entry must be a relative path inside the plugin folder, got '${m.entry}'`);
   }
 
   // elementName — must be namespaced dot-notation (e.g. 'namespace.name')
@@ -64,6 +79,16 @@ export function validateManifest(manifest: unknown): ValidationResult {
     errors.push('icon must be a non-empty string (MUI icon name)');
   }
 
+  // emoji (optional)
+  if (m.emoji !== undefined && (typeof m.emoji !== 'string' || m.emoji.length === 0)) {
+    errors.push('emoji must be a non-empty string if provided');
+  }
+
+  // protocolVersion (optional)
+  if (m.protocolVersion !== undefined && (typeof m.protocolVersion !== 'string' || !isValidVersionRange(m.protocolVersion))) {
+    errors.push(`protocolVersion must be a version range (e.g. '^1.1.0') if provided, got '${String(m.protocolVersion)}'`);
+  }
+
   // sensorTagCompatible
   if (typeof m.sensorTagCompatible !== 'boolean') {
     errors.push('sensorTagCompatible must be a boolean');
@@ -88,6 +113,37 @@ export function validateManifest(manifest: unknown): ValidationResult {
     Array.isArray(m.defaultProperties)
   ) {
     errors.push('defaultProperties must be an object');
+  } else if (PROPERTIES_VERSION_KEY in m.defaultProperties) {
+    errors.push(`defaultProperties must not contain the reserved key '${PROPERTIES_VERSION_KEY}'`);
+  }
+
+  // propertySchema (optional)
+  if (m.propertySchema !== undefined) {
+    validatePropertySchema(
+      m.propertySchema,
+      isPlainObject(m.defaultProperties) ? m.defaultProperties : undefined,
+      errors,
+    );
+  }
+
+  // sensorSlots (optional)
+  if (m.sensorSlots !== undefined) {
+    if (m.sensorTagCompatible === false) {
+      errors.push('sensorSlots requires sensorTagCompatible to be true');
+    }
+    validateSensorSlots(
+      m.sensorSlots,
+      isPlainObject(m.defaultProperties) ? m.defaultProperties : undefined,
+      errors,
+    );
+  }
+
+  // propertiesVersion (optional)
+  if (
+    m.propertiesVersion !== undefined &&
+    (typeof m.propertiesVersion !== 'number' || !Number.isInteger(m.propertiesVersion) || m.propertiesVersion < 1)
+  ) {
+    errors.push(`propertiesVersion must be a positive integer if provided, got '${String(m.propertiesVersion)}'`);
   }
 
   // layoutModes (optional)
@@ -106,9 +162,235 @@ export function validateManifest(manifest: unknown): ValidationResult {
     }
   }
 
+  // assets (optional)
+  if (m.assets !== undefined) {
+    if (!Array.isArray(m.assets)) {
+      errors.push('assets must be an array of paths if provided');
+    } else {
+      m.assets.forEach((asset: unknown, i) => {
+        if (typeof asset !== 'string' || !isPackagePath(asset)) {
+          errors.push(`assets[${i}] must be a relative path inside the plugin folder, got '${String(asset)}'`);
+        }
+      });
+    }
+  }
+
   return { valid: errors.length === 0, errors };
 }
 
+/**
+ * Returns true if a value is acceptable for the given property descriptor.
+ * Used to cross-check defaultProperties against the propertySchema.
+ */
+export function isValidPropertyValue(descriptor: PropertyDescriptor, value: unknown): boolean {
+  switch (descriptor.kind) {
+    case 'string':
+    case 'sensorTag':
+    case 'font':
+      return typeof value === 'string';
+    case 'color':
+      // 'theme:<token>' must name a known palette role
+      return (
+        typeof value === 'string' &&
+        (!value.startsWith(THEME_COLOR_PREFIX) ||
+          (THEME_COLOR_TOKENS as readonly string[]).includes(value.slice(THEME_COLOR_PREFIX.length)))
+      );
+    case 'number':
+      return (
+        typeof value === 'number' &&
+        Number.isFinite(value) &&
+        (descriptor.min === undefined || value >= descriptor.min) &&
+        (descriptor.max === undefined || value <= descriptor.max)
+      );
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'enum':
+      return Array.isArray(descriptor.options) && descriptor.options.some(o => o.value === value);
+    case 'displayFormat':
+      return isValidDisplayFormat(value);
+  }
+}
+
+/** Returns true for a SensorDisplayFormat object with well-typed fields. */
+function isValidDisplayFormat(value: unknown): boolean {
+  if (!isPlainObject(value)) return false;
+  const { precision, thousandsSeparator, compact, unit, locale } = value;
+  return (
+    (precision === undefined ||
+      (typeof precision === 'number' && Number.isInteger(precision) && precision >= 0 && precision <= 20)) &&
+    (thousandsSeparator === undefined || typeof thousandsSeparator === 'boolean') &&
+    (compact === undefined || typeof compact === 'boolean') &&
+    (unit === undefined || typeof unit === 'string') &&
+    (locale === undefined || typeof locale === 'string')
+  );
+}
+
+/**
+ * A forward-slash path relative to the plugin folder that stays inside it
+ * (no leading '/', drive letter, backslash or '..' segment) and names
+ * something in it — '.' or './' would be the whole folder.
+ */
+function isPackagePath(path: string): boolean {
+  const segments = path.split('/').filter(s => s !== '' && s !== '.');
+  return (
+    segments.length > 0 &&
+    !segments.includes('..') &&
+    !path.startsWith('/') &&
+    !path.includes('\\') &&
+    !/^[a-z]:/i.test(path)
+  );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Validate the optional `propertySchema` field and cross-check it against
+ * defaultProperties. Errors are appended to the given list.
+ */
+function validatePropertySchema(
+  schema: unknown,
+  defaultProperties: Record<string, unknown> | undefined,
+  errors: string[],
+): void {
+  if (!isPlainObject(schema)) {
+    errors.push('propertySchema must be an object if provided');
+    return;
+  }
+
+  for (const [key, raw] of Object.entries(schema)) {
+    const path = `propertySchema.${key}`;
+
+    if (!isPlainObject(raw)) {
+      errors.push(`${path} must be an object`);
+      continue;
+    }
+
+    if (typeof raw.kind !== 'string' || !(PROPERTY_KINDS as readonly string[]).includes(raw.kind)) {
+      errors.push(`${path}.kind must be one of: ${PROPERTY_KINDS.join(', ')}; got '${String(raw.kind)}'`);
+      continue;
+    }
+
+    if (typeof raw.label !== 'string' || raw.label.length === 0) {
+      errors.push(`${path}.label must be a non-empty string`);
+    }
+
+    if (raw.kind === 'number') {
+      for (const bound of ['min', 'max', 'step'] as const) {
+        if (raw[bound] !== undefined && (typeof raw[bound] !== 'number' || !Number.isFinite(raw[bound]))) {
+          errors.push(`${path}.${bound} must be a finite number if provided`);
+        }
+      }
+      if (typeof raw.min === 'number' && typeof raw.max === 'number' && raw.min > raw.max) {
+        errors.push(`${path}.min must be less than or equal to max`);
+      }
+      if (typeof raw.step === 'number' && raw.step <= 0) {
+        errors.push(`${path}.step must be greater than 0`);
+      }
+    }
+
+    if (raw.kind === 'enum') {
+      const options = raw.options;
+      if (!Array.isArray(options) || options.length === 0) {
+        errors.push(`${path}.options must be a non-empty array`);
+        continue;
+      }
+      const invalid = options.some(
+        (o: unknown) =>
+          !isPlainObject(o) ||
+          (typeof o.value !== 'string' && typeof o.value !== 'number') ||
+          typeof o.label !== 'string',
+      );
+      if (invalid) {
+        errors.push(`${path}.options must be { value: string | number, label: string }[]`);
+        continue;
+      }
+    }
+
+    const descriptor = raw as unknown as PropertyDescriptor;
+
+    if (descriptor.default !== undefined && !isValidPropertyValue(descriptor, descriptor.default)) {
+      errors.push(`${path}.default is not a valid ${descriptor.kind} value`);
+    }
+
+    // Cross-check against defaultProperties (skipped if defaultProperties itself is invalid)
+    if (defaultProperties === undefined) continue;
+
+    if (!(key in defaultProperties)) {
+      errors.push(`${path} has no matching key in defaultProperties`);
+      continue;
+    }
+
+    const defaultValue = defaultProperties[key];
+    if (!isValidPropertyValue(descriptor, defaultValue)) {
+      errors.push(
+        `defaultProperties.${key} is not a valid ${descriptor.kind} value for its propertySchema entry (got ${JSON.stringify(defaultValue)})`,
+      );
+    } else if (descriptor.default !== undefined && JSON.stringify(descriptor.default) !== JSON.stringify(defaultValue)) {
+      // Compared as JSON so object values (displayFormat) match by content
+      errors.push(`${path}.default does not match defaultProperties.${key}`);
+    }
+  }
+}
+
+/**
+ * Validate the optional `sensorSlots` field. Slot names must be unique and
+ * must not collide with defaultProperties keys, and defaultProperties must
+ * not set the bindings property itself. Errors are appended to the given
+ * list.
+ */
+function validateSensorSlots(
+  slots: unknown,
+  defaultProperties: Record<string, unknown> | undefined,
+  errors: string[],
+): void {
+  if (defaultProperties !== undefined && SENSOR_SLOTS_PROPERTY in defaultProperties) {
+    errors.push(`defaultProperties must not contain the reserved key '${SENSOR_SLOTS_PROPERTY}'`);
+  }
+
+  if (!Array.isArray(slots)) {
+    errors.push('sensorSlots must be an array if provided');
+    return;
+  }
+
+  const seen = new Set<string>();
+
+  slots.forEach((slot: unknown, i) => {
+    const path = `sensorSlots[${i}]`;
+
+    if (!isPlainObject(slot)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    if (typeof slot.name !== 'string' || !SENSOR_SLOT_NAME_PATTERN.test(slot.name)) {
+      errors.push(`${path}.name must be a camelCase identifier (e.g. 'primary'), got '${String(slot.name)}'`);
+    } else if (seen.has(slot.name)) {
+      errors.push(`${path}.name '${slot.name}' is declared more than once`);
+    } else {
+      seen.add(slot.name);
+      if (defaultProperties !== undefined && slot.name in defaultProperties) {
+        errors.push(`${path}.name '${slot.name}' collides with a defaultProperties key`);
+      }
+    }
+
+    if (typeof slot.label !== 'string' || slot.label.length === 0) {
+      errors.push(`${path}.label must be a non-empty string`);
+    }
+
+    if (typeof slot.valueType !== 'string' || !(SENSOR_VALUE_TYPES as readonly string[]).includes(slot.valueType)) {
+      errors.push(
+        `${path}.valueType must be one of: ${SENSOR_VALUE_TYPES.join(', ')}; got '${String(slot.valueType)}'`,
+      );
+    }
+
+    if (slot.required !== undefined && typeof slot.required !== 'boolean') {
+      errors.push(`${path}.required must be a boolean if provided`);
+    }
+  });
+}
+
 /**
  * Parse and validate a full package.json object.
  * Extracts the junctionrelay field and validates it as an element manifest.
@@ -8,7 +8,8 @@ import {
   ToggleButtonGroup,
   ToggleButton,
 } from '@mui/material';
-import type { ElementPropertiesPanelProps } from '@junctionrelay/element-sdk';
+import { DisplayFormatField } from '@junctionrelay/element-sdk/panels';
+import type { ElementPropertiesPanelProps, SensorDisplayFormat } from '@junctionrelay/element-sdk';
 
 const FILL_CHARS = [
   { value: '█', label: '█ Block' },
@@ -114,6 +115,12 @@ export const PropertiesPanel: React.FC<ElementPropertiesPanelProps> = ({
         }
         label="Show Unit"
       />
+
+      <DisplayFormatField
+        label="Value Format"
+        value={properties.displayFormat as SensorDisplayFormat | undefined}
+        onChange={(v) => update('displayFormat', v)}
+      />
     </Box>
   );
 };
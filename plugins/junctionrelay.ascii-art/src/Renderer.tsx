@@ -1,6 +1,19 @@
 import { useMemo } from 'react';
-import type { ElementRendererProps } from '@junctionrelay/element-sdk';
+import { formatSensorValue, resolveProperties } from '@junctionrelay/element-sdk';
+import type { ElementRendererProps, SensorDisplayFormat } from '@junctionrelay/element-sdk';
 import { renderAsciiArt } from './font.js';
+import { manifest } from './manifest.js';
+
+interface AsciiArtProperties {
+  sensorTag: string;
+  label: string;
+  fillChar: string;
+  textColor: string;
+  backgroundColor: string;
+  showLabel: boolean;
+  showUnit: boolean;
+  displayFormat: SensorDisplayFormat;
+}
 
 const ROWS = 5;
 
@@ -16,39 +29,40 @@ export const Renderer: React.FC<ElementRendererProps> = ({
   height,
   showPlaceholders,
 }) => {
-  const sensorTag = properties.sensorTag as string;
-  const fillChar = (properties.fillChar as string) || '█';
-  const textColor = (properties.textColor as string) || '#00FF00';
-  const backgroundColor = (properties.backgroundColor as string) || 'transparent';
-  const showUnit = (properties.showUnit as boolean) ?? true;
-  const showLabel = (properties.showLabel as boolean) ?? false;
-  const label = (properties.label as string) || '';
+  const { properties: props } = useMemo(
+    () => resolveProperties<AsciiArtProperties>(manifest, properties),
+    [properties],
+  );
+  const { sensorTag, showUnit, showLabel, label, displayFormat } = props;
+  const fillChar = props.fillChar || '█';
+  const textColor = props.textColor || '#00FF00';
+  const backgroundColor = props.backgroundColor || 'transparent';
 
   // Resolve sensor value
   const sensor = sensorTag ? resolvedValues[sensorTag] : undefined;
-  const rawValue = sensor?.displayValue ?? sensor?.value;
-  const unit = sensor?.unit ?? '';
+  const { value, unit } = formatSensorValue(sensor, displayFormat);
   const sensorLabel = sensor?.label ?? (label || 'Value');
 
   // Build display string
   const displayText = useMemo(() => {
     let text: string;
-    if (rawValue !== undefined && rawValue !== null) {
-      text = String(rawValue);
+    if (value) {
+      text = value;
     } else if (showPlaceholders) {
       text = '---';
     } else {
       return '';
     }
 
-    // Append unit (skip meta-type units)
+    // Append unit (formatSensorValue already drops meta-type units)
     const effectiveUnit = unit || (showPlaceholders ? '~' : '');
-    if (showUnit && effectiveUnit && effectiveUnit !== 'text' && effectiveUnit !== 'boolean') {
+    if (showUnit && effectiveUnit) {
       text += effectiveUnit;
     }
 
-    return text;
-  }, [rawValue, showUnit, unit, showPlaceholders]);
+    // Some locales group digits with no-break spaces, which the glyph font lacks
+    return text.replace(/\s/g, ' ');
+  }, [value, showUnit, unit, showPlaceholders]);
 
   // Generate ASCII art lines
   const lines = useMemo(
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockFeed } from '@junctionrelay/element-sdk';
+import { renderElement } from '@junctionrelay/element-sdk/testing';
+import { Renderer } from '../Renderer.js';
+import { renderAsciiArt } from '../font.js';
+import { manifest } from '../manifest.js';
+
+const render = (value: unknown, extra: Record<string, unknown> = {}) =>
+  renderElement(Renderer, {
+    manifest,
+    properties: { sensorTag: 'cpu.temp', ...extra },
+    resolvedValues: value === undefined ? {} : { 'cpu.temp': { value: value as number, unit: '°C', label: 'CPU' } },
+  });
+
+/** The ASCII art in the <pre>, if any. */
+function art(html: string): string | undefined {
+  return html.match(/<pre[^>]*>([^<]*)<\/pre>/)?.[1];
+}
+
+const FEED = {
+  'cpu.temp': { kind: 'randomWalk', start: 55, stepSize: 4, min: 20, max: 99, unit: '°C' },
+} as const;
+
+describe('ascii-art Renderer', () => {
+  it('draws the value and unit with the fill character', () => {
+    assert.equal(art(render(42)), renderAsciiArt('42°C', '█').join('\n'));
+    assert.equal(art(render(42, { fillChar: '#', showUnit: false })), renderAsciiArt('42', '#').join('\n'));
+  });
+
+  it('shows the label above the art when enabled', () => {
+    assert.doesNotMatch(render(42), />CPU</);
+    assert.match(render(42, { showLabel: true }), />CPU</);
+  });
+
+  it('applies the displayFormat', () => {
+    assert.equal(art(render(21.456, { displayFormat: { precision: 1 } })), renderAsciiArt('21.5°C', '█').join('\n'));
+  });
+
+  it('shows "No data" without a value and placeholders without a sensor', () => {
+    assert.match(render(undefined), />No data</);
+    const html = renderElement(Renderer, { manifest, showPlaceholders: true });
+    assert.equal(art(html), renderAsciiArt('---~', '█').join('\n'));
+  });
+
+  it('draws a seeded feed the same way on every run', () => {
+    const run = () => {
+      const feed = createMockFeed(FEED, { seed: 7 });
+      return [0, 1000, 2000, 3000, 4000].map((t) => {
+        const resolvedValues = feed.sample(t);
+        const html = renderElement(Renderer, { manifest, properties: { sensorTag: 'cpu.temp' }, resolvedValues });
+        // Each frame shows the value the feed reported at that tick
+        assert.equal(art(html), renderAsciiArt(`${resolvedValues['cpu.temp'].displayValue}°C`, '█').join('\n'));
+        return html;
+      });
+    };
+
+    const frames = run();
+    assert.ok(new Set(frames).size > 1, 'the feed should move between ticks');
+    assert.deepEqual(run(), frames);
+  });
+});
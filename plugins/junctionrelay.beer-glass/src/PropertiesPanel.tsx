@@ -5,6 +5,7 @@ import {
   FormControlLabel,
   Box,
 } from '@mui/material';
+import { ThemeColorField } from '@junctionrelay/element-sdk/panels';
 import type { ElementPropertiesPanelProps } from '@junctionrelay/element-sdk';
 
 export const PropertiesPanel: React.FC<ElementPropertiesPanelProps> = ({
@@ -31,32 +32,23 @@ export const PropertiesPanel: React.FC<ElementPropertiesPanelProps> = ({
         helperText="Bind to a 0–100 % sensor value"
       />
 
-      <TextField
+      <ThemeColorField
         label="Beer Color"
-        size="small"
-        fullWidth
-        type="color"
-        value={(properties.beerColor as string) ?? '#F59E0B'}
-        onChange={(e) => update('beerColor', e.target.value)}
-        slotProps={{ inputLabel: { shrink: true } }}
+        value={(properties.beerColor as string) ?? 'theme:accent'}
+        onChange={(v) => update('beerColor', v)}
       />
 
-      <TextField
+      <ThemeColorField
         label="Foam Color"
-        size="small"
-        fullWidth
-        type="color"
         value={(properties.foamColor as string) ?? '#FEF3C7'}
-        onChange={(e) => update('foamColor', e.target.value)}
-        slotProps={{ inputLabel: { shrink: true } }}
+        onChange={(v) => update('foamColor', v)}
       />
 
-      <TextField
+      <ThemeColorField
         label="Glass Tint"
-        size="small"
-        fullWidth
+        allowCssColors
         value={(properties.glassColor as string) ?? 'rgba(255,255,255,0.3)'}
-        onChange={(e) => update('glassColor', e.target.value)}
+        onChange={(v) => update('glassColor', v)}
         helperText="CSS color for glass outline"
       />
 
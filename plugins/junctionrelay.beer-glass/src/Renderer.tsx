@@ -1,5 +1,22 @@
-import { useId } from 'react';
+import { useId, useMemo, useState } from 'react';
+import {
+  resolveProperties,
+  resolveThemeColors,
+  useAnimationFrame,
+  useElementHost,
+  useElementTheme,
+} from '@junctionrelay/element-sdk';
 import type { ElementRendererProps } from '@junctionrelay/element-sdk';
+import { manifest } from './manifest.js';
+
+interface BeerGlassProperties {
+  sensorTag: string;
+  beerColor: string;
+  foamColor: string;
+  glassColor: string;
+  showPercentage: boolean;
+  showBubbles: boolean;
+}
 
 // Glass interior geometry (viewBox 0 0 100 170)
 const TOP_Y = 14;
@@ -24,6 +41,20 @@ const BUBBLES = [
   { cx: 37, r: 1.2, dur: 3.2, delay: 1.8 },
 ];
 
+// Bubble opacity keyframes, evenly spaced over one rise
+const BUBBLE_OPACITY = [0, 0.5, 0.4, 0];
+
+/** Position and opacity of a bubble `time` ms into the animation. */
+function bubbleAt(bubble: typeof BUBBLES[number], time: number, fillY: number) {
+  const elapsed = time / 1000 - bubble.delay;
+  if (elapsed < 0) return { cy: BOT_Y, opacity: 0 };
+  const phase = (elapsed % bubble.dur) / bubble.dur;
+  const at = phase * (BUBBLE_OPACITY.length - 1);
+  const i = Math.min(Math.floor(at), BUBBLE_OPACITY.length - 2);
+  const opacity = BUBBLE_OPACITY[i] + (BUBBLE_OPACITY[i + 1] - BUBBLE_OPACITY[i]) * (at - i);
+  return { cy: BOT_Y + (fillY - BOT_Y) * phase, opacity };
+}
+
 export const Renderer: React.FC<ElementRendererProps> = ({
   properties,
   resolvedValues,
@@ -32,13 +63,18 @@ export const Renderer: React.FC<ElementRendererProps> = ({
   showPlaceholders,
 }) => {
   const uid = useId().replace(/:/g, '');
+  const theme = useElementTheme();
+  const { clock } = useElementHost();
 
-  const sensorTag = properties.sensorTag as string;
-  const beerColor = (properties.beerColor as string) || '#F59E0B';
-  const foamColor = (properties.foamColor as string) || '#FEF3C7';
-  const glassColor = (properties.glassColor as string) || 'rgba(255,255,255,0.3)';
-  const showPercentage = (properties.showPercentage as boolean) ?? true;
-  const showBubbles = (properties.showBubbles as boolean) ?? true;
+  // theme:<token> colors follow the layout palette
+  const props = useMemo(
+    () => resolveThemeColors(manifest, resolveProperties<BeerGlassProperties>(manifest, properties).properties, theme),
+    [properties, theme],
+  );
+  const { sensorTag, showPercentage, showBubbles } = props;
+  const beerColor = props.beerColor || theme.palette.accent;
+  const foamColor = props.foamColor || '#FEF3C7';
+  const glassColor = props.glassColor || 'rgba(255,255,255,0.3)';
 
   // Resolve sensor value (expects 0–100 percentage)
   const sensor = sensorTag ? resolvedValues[sensorTag] : undefined;
@@ -59,6 +95,12 @@ export const Renderer: React.FC<ElementRendererProps> = ({
   const rightFoamTop = rightAt(foamTopY);
   const foamW = rightFoamTop - leftFoamTop;
 
+  // Bubbles follow the host clock so they pause off-screen and step in captures;
+  // hosts without one get the SMIL animation
+  const bubbling = showBubbles && percentage > 5;
+  const [time, setTime] = useState(() => clock?.now() ?? 0);
+  useAnimationFrame((frame) => setTime(frame.time), { fps: 30, enabled: bubbling && clock !== undefined });
+
   const foamPath = percentage > 0
     ? [
         `M ${leftFoamTop} ${foamTopY}`,
@@ -102,9 +144,11 @@ export const Renderer: React.FC<ElementRendererProps> = ({
           {percentage > 0 && <path d={foamPath} fill={foamColor} />}
 
           {/* Rising bubbles (clipped to beer region) */}
-          {showBubbles && percentage > 5 && (
+          {bubbling && (
             <g clipPath={`url(#${uid}-beer)`}>
-              {BUBBLES.map((b, i) => (
+              {BUBBLES.map((b, i) => clock ? (
+                <circle key={i} cx={b.cx} r={b.r} fill="rgba(255,255,255,0.45)" {...bubbleAt(b, time, fillY)} />
+              ) : (
                 <circle key={i} cx={b.cx} r={b.r} fill="rgba(255,255,255,0.45)">
                   <animate
                     attributeName="cy"
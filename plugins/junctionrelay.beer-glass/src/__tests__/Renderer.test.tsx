@@ -0,0 +1,142 @@
+import '@junctionrelay/element-sdk/testing/dom';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AnimationClock, DEFAULT_ELEMENT_THEME, createMockFeed, type ElementHostContext } from '@junctionrelay/element-sdk';
+import { createMockCaptureHost, createMockHost, mountElement, renderElement } from '@junctionrelay/element-sdk/testing';
+import { Renderer } from '../Renderer.js';
+import { manifest } from '../manifest.js';
+
+const render = (value: unknown, extra: Record<string, unknown> = {}) =>
+  renderElement(Renderer, {
+    manifest,
+    properties: { sensorTag: 'keg.level', ...extra },
+    resolvedValues: value === undefined ? {} : { 'keg.level': { value: value as number } },
+  });
+
+/** The y of the beer liquid rect (the only rect filled with the gradient). */
+function fillY(html: string): number | undefined {
+  const match = html.match(/<rect x="0" y="([\d.]+)"[^>]*fill="url\(#[^"]*-grad\)"/);
+  return match ? Number(match[1]) : undefined;
+}
+
+const HALF_FULL = {
+  manifest,
+  properties: { sensorTag: 'keg.level' },
+  resolvedValues: { 'keg.level': { value: 50 } },
+};
+
+/** [cy, opacity] of the first bubble in the markup. */
+const bubbles = (html: string) =>
+  [...html.matchAll(/<circle cx="42"[^>]*cy="([\d.]+)" opacity="([\d.]+)"/g)].map(m => [Number(m[1]), Number(m[2])]);
+
+/** [cy, opacity] of the first bubble at 50% fill. */
+const bubbleAt = (host: ElementHostContext) => bubbles(renderElement(Renderer, { ...HALF_FULL, host }));
+
+describe('beer-glass Renderer', () => {
+  // Interior runs from y=150 (empty) to y=14 (full)
+  it('fills the glass proportionally to the value', () => {
+    assert.equal(fillY(render(50)), 82);
+    assert.equal(fillY(render(25)), 116);
+    assert.equal(fillY(render(100)), 14);
+  });
+
+  it('clamps values outside 0–100', () => {
+    assert.equal(fillY(render(150)), 14);
+    assert.equal(fillY(render(-20)), undefined);
+  });
+
+  it('draws no beer or foam when empty', () => {
+    const html = render(0);
+    assert.equal(fillY(html), undefined);
+    assert.doesNotMatch(html, /<circle/);
+  });
+
+  it('uses 65% as the placeholder level', () => {
+    const html = renderElement(Renderer, { manifest, showPlaceholders: true });
+    assert.equal(fillY(html), 150 - 136 * 0.65);
+    assert.match(html, />65%</);
+  });
+
+  it('shows the rounded percentage label', () => {
+    assert.match(render(42.6), />43%</);
+    assert.doesNotMatch(render(42.6, { showPercentage: false }), /%</);
+  });
+
+  it('only draws bubbles above 5%', () => {
+    assert.match(render(50), /<circle/);
+    assert.doesNotMatch(render(5), /<circle/);
+    assert.doesNotMatch(render(50, { showBubbles: false }), /<circle/);
+  });
+
+  it('fills the beer with the theme accent by default', () => {
+    const theme = { ...DEFAULT_ELEMENT_THEME, palette: { ...DEFAULT_ELEMENT_THEME.palette, accent: '#D97706' } };
+    const html = renderElement(Renderer, {
+      manifest,
+      properties: { sensorTag: 'keg.level' },
+      resolvedValues: { 'keg.level': { value: 50 } },
+      host: createMockHost({ theme }),
+    });
+    assert.match(html, /stop-color="#D97706"/);
+    assert.match(render(50, { beerColor: '#123456' }), /stop-color="#123456"/);
+  });
+
+  it('moves bubbles with the host clock', () => {
+    const clock = new AnimationClock({ paused: true });
+    assert.deepEqual(bubbleAt(createMockHost({ clock })), [[150, 0]]);
+    // Halfway through its 3 s rise from the bottom (150) to the beer level (82)
+    clock.step(1500);
+    assert.deepEqual(bubbleAt(createMockHost({ clock })), [[116, 0.45]]);
+  });
+
+  it('draws the same bubbles for every capture at the same time', () => {
+    const host = createMockCaptureHost(1500);
+    assert.deepEqual(bubbleAt(host), [[116, 0.45]]);
+    assert.deepEqual(bubbleAt(host), bubbleAt(createMockCaptureHost(1500)));
+  });
+
+  it('draws a seeded feed the same way on every run', () => {
+    const run = () => {
+      const feed = createMockFeed({
+        'keg.level': { kind: 'randomWalk', start: 60, stepSize: 8, min: 0, max: 100, unit: '%' },
+      }, { seed: 7 });
+      const clock = new AnimationClock({ paused: true });
+      return [0, 1000, 2000, 3000, 4000].map((t) => {
+        clock.seek(t);
+        const resolvedValues = feed.sample(t);
+        const html = renderElement(Renderer, {
+          manifest,
+          properties: { sensorTag: 'keg.level' },
+          resolvedValues,
+          host: createMockHost({ clock }),
+        });
+        // Each frame fills the glass to the level the feed reported at that tick
+        assert.equal(fillY(html), 150 - 136 * ((resolvedValues['keg.level'].value as number) / 100));
+        return html;
+      });
+    };
+
+    const frames = run();
+    assert.ok(new Set(frames.map(fillY)).size > 1, 'the feed should move between ticks');
+    assert.deepEqual(run(), frames);
+  });
+
+  it('freezes running bubbles at the capture time', async () => {
+    const clock = new AnimationClock({ paused: true });
+    const element = await mountElement(Renderer, { ...HALF_FULL, host: createMockHost({ clock }) });
+    await element.act(() => {
+      clock.step(1500);
+      clock.step(3500);
+    });
+    const running = bubbles(element.html());
+    assert.notDeepEqual(running, [[116, 0.45]]);
+
+    // The host captures a time the animation has already passed
+    await element.update({ host: createMockCaptureHost(1500, { clock }) });
+    assert.deepEqual(bubbles(element.html()), [[116, 0.45]]);
+
+    // ...and a moment less than one 30 fps frame later
+    await element.act(() => { clock.seek(1510); });
+    assert.notDeepEqual(bubbles(element.html()), [[116, 0.45]]);
+    await element.unmount();
+  });
+});
@@ -0,0 +1,5 @@
+import type { ElementPluginManifest } from '@junctionrelay/element-sdk';
+import pkg from '../package.json';
+
+/** The junctionrelay manifest from package.json (the build bundles only this field), for runtime property resolution. */
+export const manifest = pkg.junctionrelay as ElementPluginManifest;
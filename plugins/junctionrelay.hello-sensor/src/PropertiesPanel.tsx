@@ -7,7 +7,8 @@ import {
   Typography,
   Box,
 } from '@mui/material';
-import type { ElementPropertiesPanelProps } from '@junctionrelay/element-sdk';
+import { DisplayFormatField, ThemeColorField } from '@junctionrelay/element-sdk/panels';
+import type { ElementPropertiesPanelProps, SensorDisplayFormat } from '@junctionrelay/element-sdk';
 
 export const PropertiesPanel: React.FC<ElementPropertiesPanelProps> = ({
   selectedElement,
@@ -53,23 +54,17 @@ export const PropertiesPanel: React.FC<ElementPropertiesPanelProps> = ({
         />
       </Box>
 
-      <TextField
+      <ThemeColorField
         label="Text Color"
-        size="small"
-        fullWidth
-        type="color"
-        value={(properties.textColor as string) ?? '#FFFFFF'}
-        onChange={(e) => update('textColor', e.target.value)}
-        slotProps={{ inputLabel: { shrink: true } }}
+        value={(properties.textColor as string) ?? 'theme:text'}
+        onChange={(v) => update('textColor', v)}
       />
 
-      <TextField
+      <ThemeColorField
         label="Background Color"
-        size="small"
-        fullWidth
+        allowCssColors
         value={(properties.backgroundColor as string) ?? 'transparent'}
-        onChange={(e) => update('backgroundColor', e.target.value)}
-        helperText="CSS color or 'transparent'"
+        onChange={(v) => update('backgroundColor', v)}
       />
 
       <FormControlLabel
@@ -93,6 +88,12 @@ export const PropertiesPanel: React.FC<ElementPropertiesPanelProps> = ({
         }
         label="Show Unit"
       />
+
+      <DisplayFormatField
+        label="Value Format"
+        value={properties.displayFormat as SensorDisplayFormat | undefined}
+        onChange={(v) => update('displayFormat', v)}
+      />
     </Box>
   );
 };
@@ -1,6 +1,26 @@
-import { useState, useEffect } from 'react';
-import { useElementHost } from '@junctionrelay/element-sdk';
-import type { ElementRendererProps } from '@junctionrelay/element-sdk';
+import { useState, useEffect, useMemo } from 'react';
+import {
+  formatSensorValue,
+  useCaptureReady,
+  useElementHost,
+  useElementTheme,
+  resolveProperties,
+  resolveThemeColors,
+} from '@junctionrelay/element-sdk';
+import type { ElementRendererProps, SensorDisplayFormat } from '@junctionrelay/element-sdk';
+import { manifest } from './manifest.js';
+
+interface HelloSensorProperties {
+  sensorTag: string;
+  label: string;
+  fontSize: number;
+  textColor: string;
+  backgroundColor: string;
+  showLabel: boolean;
+  showUnit: boolean;
+  displayFormat: SensorDisplayFormat;
+  fontFamily?: string;
+}
 
 export const Renderer: React.FC<ElementRendererProps> = ({
   properties,
@@ -10,19 +30,25 @@ export const Renderer: React.FC<ElementRendererProps> = ({
   showPlaceholders,
 }) => {
   const { fonts } = useElementHost();
-  const [fontReady, setFontReady] = useState(false);
+  const theme = useElementTheme();
+
+  // theme:<token> colors follow the layout palette
+  const props = useMemo(
+    () => resolveThemeColors(manifest, resolveProperties<HelloSensorProperties>(manifest, properties).properties, theme),
+    [properties, theme],
+  );
+  const { sensorTag, label, fontSize, textColor, backgroundColor, showLabel, showUnit, displayFormat } = props;
+  const fontFamily = props.fontFamily || theme.typography.fontFamily;
 
-  const sensorTag = properties.sensorTag as string;
-  const label = properties.label as string;
-  const fontSize = properties.fontSize as number;
-  const textColor = properties.textColor as string;
-  const backgroundColor = properties.backgroundColor as string;
-  const showLabel = properties.showLabel as boolean;
-  const showUnit = properties.showUnit as boolean;
-  const fontFamily = (properties.fontFamily as string) || 'Inter';
+  // Fonts the host already loaded render on the first pass
+  const [fontReady, setFontReady] = useState(() => fonts.isFontLoaded(fontFamily));
 
   // Load font on mount / change
   useEffect(() => {
+    if (fonts.isFontLoaded(fontFamily)) {
+      setFontReady(true);
+      return;
+    }
     let mounted = true;
     setFontReady(false);
     fonts.loadGoogleFont(fontFamily).then(() => {
@@ -31,16 +57,15 @@ export const Renderer: React.FC<ElementRendererProps> = ({
     return () => { mounted = false; };
   }, [fontFamily, fonts]);
 
+  // Frame captures wait for the font instead of catching the fallback
+  useCaptureReady(fontReady, `font ${fontFamily}`);
+
   // Resolve sensor value
   const sensor = sensorTag ? resolvedValues[sensorTag] : undefined;
-  const displayValue = sensor?.value ?? (showPlaceholders ? '---' : '');
-  const displayUnit = sensor?.unit ?? '';
+  const formatted = formatSensorValue(sensor, displayFormat);
+  const displayValue = formatted.value || (showPlaceholders ? '---' : '');
   const displayLabel = sensor?.label ?? label;
-
-  // Hide unit for meta-types
-  const unitText = showUnit && displayUnit && displayUnit !== 'text' && displayUnit !== 'boolean'
-    ? ` ${displayUnit}`
-    : '';
+  const unitText = showUnit && formatted.unit ? ` ${formatted.unit}` : '';
 
   if (!fontReady) return null;
 
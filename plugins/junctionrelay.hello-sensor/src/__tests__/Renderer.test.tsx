@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_ELEMENT_THEME } from '@junctionrelay/element-sdk';
+import { createMockHost, renderElement } from '@junctionrelay/element-sdk/testing';
+import { Renderer } from '../Renderer.js';
+import { manifest } from '../manifest.js';
+
+const render = (properties: Record<string, unknown>, unit: string) =>
+  renderElement(Renderer, {
+    manifest,
+    properties: { sensorTag: 'cpu.temp', ...properties },
+    resolvedValues: { 'cpu.temp': { value: 42, unit } },
+  });
+
+describe('hello-sensor Renderer', () => {
+  it('renders the value with its unit', () => {
+    assert.match(render({}, '°C'), />42 °C</);
+  });
+
+  it('hides the unit when showUnit is off', () => {
+    assert.match(render({ showUnit: false }, '°C'), />42</);
+  });
+
+  it('hides the text and boolean meta units', () => {
+    assert.match(render({}, 'text'), />42</);
+    assert.match(render({}, 'boolean'), />42</);
+  });
+
+  it('applies the displayFormat', () => {
+    assert.match(render({ displayFormat: { unit: '°F', precision: 1 } }, '°C'), />107.6 °F</);
+    // Units that do not convert stay as they are
+    assert.match(render({ displayFormat: { unit: '°F' } }, 'RPM'), />42 RPM</);
+  });
+
+  it('shows the sensor label over the configured label', () => {
+    const html = renderElement(Renderer, {
+      manifest,
+      properties: { sensorTag: 'cpu.temp', label: 'Hello' },
+      resolvedValues: { 'cpu.temp': { value: 42, label: 'CPU' } },
+    });
+    assert.match(html, />CPU</);
+    assert.doesNotMatch(html, />Hello</);
+  });
+
+  it('shows a placeholder only when asked to', () => {
+    assert.match(renderElement(Renderer, { manifest, showPlaceholders: true }), />---</);
+    assert.doesNotMatch(renderElement(Renderer, { manifest }), /---/);
+  });
+
+  it('follows the layout theme for theme: colors', () => {
+    const theme = { ...DEFAULT_ELEMENT_THEME, palette: { ...DEFAULT_ELEMENT_THEME.palette, text: '#111827', surface: '#F3F4F6' } };
+    const html = renderElement(Renderer, {
+      manifest,
+      properties: { sensorTag: 'cpu.temp', backgroundColor: 'theme:surface' },
+      resolvedValues: { 'cpu.temp': { value: 42 } },
+      host: createMockHost({ theme }),
+    });
+    assert.match(html, /color:#111827/);
+    assert.match(html, /background-color:#F3F4F6/);
+    assert.match(render({ textColor: '#FF0000' }, '°C'), /color:#FF0000/);
+  });
+
+  it('renders on the first pass when the font is already loaded', () => {
+    const options = {
+      manifest,
+      properties: { sensorTag: 'cpu.temp', showLabel: true },
+      resolvedValues: { 'cpu.temp': { value: 42, unit: '°C', label: 'CPU' } },
+    };
+    const html = renderElement(Renderer, options);
+    assert.match(html, />CPU</);
+    assert.match(html, />42 °C</);
+
+    const loading = createMockHost();
+    loading.fonts.isFontLoaded = () => false;
+    assert.equal(renderElement(Renderer, { ...options, host: loading }), '');
+  });
+});
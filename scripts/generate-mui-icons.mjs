@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+
+// Regenerates packages/sdk/src/muiIcons.ts — the offline list of
+// @mui/icons-material export names used by lintManifest's icon-exists rule.
+//
+// Usage: node scripts/generate-mui-icons.mjs [path/to/@mui/icons-material]
+// (get a copy without installing it: npm pack @mui/icons-material && tar xzf mui-icons-material-*.tgz)
+
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const iconsDir = process.argv[2] ?? join(root, 'node_modules', '@mui', 'icons-material');
+const indexFile = join(iconsDir, 'index.d.ts');
+
+if (!existsSync(indexFile)) {
+  console.error(`ERROR: ${indexFile} not found — pass the path to an @mui/icons-material package`);
+  process.exit(1);
+}
+
+const pkg = JSON.parse(readFileSync(join(iconsDir, 'package.json'), 'utf8'));
+const names = [...readFileSync(indexFile, 'utf8').matchAll(/^export const (\w+):/gm)].map((m) => m[1]);
+
+// Most icons ship in five variants; store those as one base name and list the rest individually
+const VARIANTS = ['Outlined', 'Rounded', 'Sharp', 'TwoTone'];
+const all = new Set(names);
+const families = names.filter((name) => VARIANTS.every((v) => all.has(name + v)));
+const covered = new Set(families.flatMap((name) => [name, ...VARIANTS.map((v) => name + v)]));
+const standalone = names.filter((name) => !covered.has(name));
+
+// Space-separated string lines wrapped at ~100 columns
+function wrap(list) {
+  const lines = [];
+  let line = '';
+  for (const name of [...list].sort()) {
+    if (line.length + name.length + 1 > 96) {
+      lines.push(line);
+      line = '';
+    }
+    line += (line ? ' ' : '') + name;
+  }
+  lines.push(line);
+  return lines.map((l) => `  '${l}',`).join('\n');
+}
+
+const output = `// ============================================================================
+// @mui/icons-material export names (generated — do not edit)
+// Source: @mui/icons-material ${pkg.version}. Regenerate with scripts/generate-mui-icons.mjs
+// ============================================================================
+
+/** Icon variant suffixes; every base name is also exported with each suffix. */
+export const MUI_ICON_VARIANTS = ${JSON.stringify(VARIANTS).replace(/"/g, "'").replace(/,/g, ', ')} as const;
+
+/** Icons exported in all five variants (listed without suffix). */
+export const MUI_ICON_FAMILIES: readonly string[] = [
+${wrap(families)}
+].join(' ').split(' ');
+
+/** Exports that are not part of a full variant family (brand icons, partial sets). */
+export const MUI_ICON_STANDALONE: readonly string[] = [
+${wrap(standalone)}
+].join(' ').split(' ');
+`;
+
+const outFile = join(root, 'packages', 'sdk', 'src', 'muiIcons.ts');
+writeFileSync(outFile, output);
+console.log(`Wrote ${families.length} icon families + ${standalone.length} standalone names (${names.length} exports) to ${outFile}`);